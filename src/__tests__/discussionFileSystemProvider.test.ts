@@ -1,6 +1,6 @@
 /**
  * Discussion File System Provider Tests - TDD
- * Requirements: 4.1, 4.2, 6.2, 4.3, 6.3
+ * Requirements: 4.1, 4.2, 6.2, 4.3, 6.3, 45.4
  */
 
 import * as vscode from 'vscode';
@@ -8,7 +8,7 @@ import * as fc from 'fast-check';
 import { DiscussionFileSystemProvider } from '../providers/discussionFileSystemProvider';
 import { GitHubService } from '../services/githubService';
 import { CacheService } from '../services/cacheService';
-import { Discussion, DiscussionSummary, DiscussionSummariesPage, DiscussionCategory, User } from '../models';
+import { Discussion, DiscussionComment, DiscussionSummary, DiscussionSummariesPage, DiscussionCategory, User } from '../models';
 
 // Mock vscode FileType
 const FileType = {
@@ -83,6 +83,8 @@ describe('DiscussionFileSystemProvider', () => {
       createDiscussion: jest.fn().mockResolvedValue(mockDiscussion),
       updateDiscussion: jest.fn().mockResolvedValue(mockDiscussion),
       getDiscussionCategories: jest.fn().mockResolvedValue([mockCategory]),
+      getPinnedDiscussionIds: jest.fn().mockResolvedValue([]),
+      getComment: jest.fn().mockResolvedValue(undefined),
       addComment: jest.fn().mockResolvedValue(undefined),
       dispose: jest.fn()
     } as any;
@@ -183,6 +185,7 @@ describe('DiscussionFileSystemProvider', () => {
         expect(metadata.number).toBe(1);
         expect(metadata.title).toBe('TestDiscussion');
         expect(metadata.author.login).toBe('testuser');
+        expect(metadata).toMatchObject({ labels: [], pinned: false, locked: false });
       });
 
       it('should return JSON for _comments.json', async () => {
@@ -312,18 +315,650 @@ describe('DiscussionFileSystemProvider', () => {
       });
     });
 
-    describe('delete', () => {
-      it('should throw for delete operations (not supported)', async () => {
+    describe('save conflict detection (Requirement 28)', () => {
+      const fileUri = vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md');
+      const remoteDiscussion: Discussion = {
+        ...mockDiscussion,
+        body: 'Teammate edit',
+        updatedAt: new Date('2024-01-03')
+      };
+
+      beforeEach(async () => {
+        // Open the file so the base version is recorded
+        await provider.readFile(fileUri);
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
+      });
+
+      it('should reject the save when the remote body changed after opening (Requirement 28.1)', async () => {
+        mockGitHubService.getDiscussion.mockResolvedValue(remoteDiscussion);
+
+        await expect(
+          provider.writeFile(fileUri, new TextEncoder().encode('My edit'), { create: false, overwrite: true })
+        ).rejects.toThrow('Unavailable');
+        expect(mockGitHubService.updateDiscussion).not.toHaveBeenCalled();
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+          expect.stringContaining('changed on GitHub'),
+          'Compare with remote',
+          'Overwrite',
+          'Cancel'
+        );
+      });
+
+      it('should save when only updatedAt changed (e.g. new comments)', async () => {
+        mockGitHubService.getDiscussion.mockResolvedValue({ ...mockDiscussion, updatedAt: new Date('2024-01-03') });
+
+        await provider.writeFile(fileUri, new TextEncoder().encode('My edit'), { create: false, overwrite: true });
+
+        expect(mockGitHubService.updateDiscussion).toHaveBeenCalled();
+      });
+
+      it('should serve a read-only remote snapshot for the diff (Requirement 28.3)', async () => {
+        mockGitHubService.getDiscussion.mockResolvedValue(remoteDiscussion);
+        await expect(
+          provider.writeFile(fileUri, new TextEncoder().encode('My edit'), { create: false, overwrite: true })
+        ).rejects.toThrow();
+
+        const snapshotUri = vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md?remote');
+        const content = await provider.readFile(snapshotUri);
+        const stat = await provider.stat(snapshotUri);
+
+        expect(new TextDecoder().decode(content)).toBe('Teammate edit');
+        expect(stat.permissions).toBe(vscode.FilePermission.Readonly);
+        await expect(
+          provider.writeFile(snapshotUri, new TextEncoder().encode('x'), { create: false, overwrite: true })
+        ).rejects.toThrow('NoPermissions');
+      });
+
+      it('should open a diff against the remote snapshot when comparing (Requirement 28.3)', async () => {
+        mockGitHubService.getDiscussion.mockResolvedValue(remoteDiscussion);
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Compare with remote');
+
+        await expect(
+          provider.writeFile(fileUri, new TextEncoder().encode('My edit'), { create: false, overwrite: true })
+        ).rejects.toThrow();
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+          'vscode.diff',
+          expect.objectContaining({ query: 'remote' }),
+          fileUri,
+          expect.stringContaining('GitHub')
+        );
+      });
+
+      it('should overwrite the remote body when choosing Overwrite (Requirement 28.4)', async () => {
+        mockGitHubService.getDiscussion.mockResolvedValue(remoteDiscussion);
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Overwrite');
+        const save = jest.fn(() =>
+          provider.writeFile(fileUri, new TextEncoder().encode('My edit'), { create: false, overwrite: true })
+        );
+        (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue({ save });
+
+        await expect(
+          provider.writeFile(fileUri, new TextEncoder().encode('My edit'), { create: false, overwrite: true })
+        ).rejects.toThrow();
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(save).toHaveBeenCalled();
+        expect(mockGitHubService.updateDiscussion).toHaveBeenCalledWith(
+          'D_1',
+          expect.objectContaining({ body: 'My edit' })
+        );
+      });
+    });
+
+    describe('three-way merge mode (Requirement 29)', () => {
+      const fileUri = vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md');
+      const baseBody = 'Intro\n\nMotivation\n\nDesign\n\nSummary';
+      const getConfiguration = vscode.workspace.getConfiguration as jest.Mock;
+      const defaultGetConfiguration = getConfiguration.getMockImplementation();
+
+      beforeEach(async () => {
+        getConfiguration.mockReturnValue({
+          get: jest.fn((key: string, defaultValue: unknown) => key === 'conflictResolution' ? 'merge' : defaultValue)
+        });
+        mockGitHubService.getDiscussion.mockResolvedValue({ ...mockDiscussion, body: baseBody });
+        await provider.readFile(fileUri);
+      });
+
+      afterEach(() => {
+        getConfiguration.mockImplementation(defaultGetConfiguration);
+      });
+
+      it('should merge non-overlapping edits and push the result (Requirement 29.2)', async () => {
+        mockGitHubService.getDiscussion.mockResolvedValue({
+          ...mockDiscussion,
+          body: baseBody.replace('Summary', 'Summary v2'),
+          updatedAt: new Date('2024-01-03')
+        });
+
+        const local = baseBody.replace('Intro', 'Introduction');
+        await provider.writeFile(fileUri, new TextEncoder().encode(local), { create: false, overwrite: true });
+
+        expect(mockGitHubService.updateDiscussion).toHaveBeenCalledWith('D_1', {
+          title: 'TestDiscussion',
+          body: 'Introduction\n\nMotivation\n\nDesign\n\nSummary v2'
+        });
+      });
+
+      it('should open the merge editor for overlapping edits (Requirement 29.3)', async () => {
+        mockGitHubService.getDiscussion.mockResolvedValue({
+          ...mockDiscussion,
+          body: baseBody.replace('Design', 'Design B'),
+          updatedAt: new Date('2024-01-03')
+        });
+
+        const local = baseBody.replace('Design', 'Design A');
+        await expect(
+          provider.writeFile(fileUri, new TextEncoder().encode(local), { create: false, overwrite: true })
+        ).rejects.toThrow('Unavailable');
+
+        expect(mockGitHubService.updateDiscussion).not.toHaveBeenCalled();
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith('_open.mergeEditor', expect.objectContaining({
+          base: expect.objectContaining({ query: 'base' }),
+          input1: expect.objectContaining({ uri: expect.objectContaining({ query: 'local' }) }),
+          input2: expect.objectContaining({ uri: expect.objectContaining({ query: 'remote' }) }),
+          output: fileUri
+        }));
+
+        const base = await provider.readFile(vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md?base'));
+        const localSnapshot = await provider.readFile(vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md?local'));
+        expect(new TextDecoder().decode(base)).toBe(baseBody);
+        expect(new TextDecoder().decode(localSnapshot)).toBe(local);
+      });
+
+      it('should save the merge result over the remote version', async () => {
+        const remote = {
+          ...mockDiscussion,
+          body: baseBody.replace('Design', 'Design B'),
+          updatedAt: new Date('2024-01-03')
+        };
+        mockGitHubService.getDiscussion.mockResolvedValue(remote);
+        await expect(
+          provider.writeFile(fileUri, new TextEncoder().encode(baseBody.replace('Design', 'Design A')), { create: false, overwrite: true })
+        ).rejects.toThrow();
+
+        // Saving the merge editor output is based on the remote version
+        await provider.writeFile(fileUri, new TextEncoder().encode(baseBody.replace('Design', 'Design A+B')), { create: false, overwrite: true });
+
+        expect(mockGitHubService.updateDiscussion).toHaveBeenCalledWith('D_1', expect.objectContaining({
+          body: baseBody.replace('Design', 'Design A+B')
+        }));
+      });
+
+      it('should save the local text when the merge keeps it', async () => {
+        mockGitHubService.getDiscussion.mockResolvedValue({
+          ...mockDiscussion,
+          body: baseBody.replace('Design', 'Design B'),
+          updatedAt: new Date('2024-01-03')
+        });
+        const local = new TextEncoder().encode(baseBody.replace('Design', 'Design A'));
+        await expect(provider.writeFile(fileUri, local, { create: false, overwrite: true })).rejects.toThrow();
+        await new Promise(resolve => setImmediate(resolve));
+
+        // Accepting the local side in the merge editor saves the same text again
+        await provider.writeFile(fileUri, local, { create: false, overwrite: true });
+        expect(mockGitHubService.updateDiscussion).toHaveBeenCalledWith('D_1', expect.objectContaining({
+          body: baseBody.replace('Design', 'Design A')
+        }));
+      });
+
+      it('should base later saves on the saved merge result', async () => {
+        const remote = {
+          ...mockDiscussion,
+          body: baseBody.replace('Design', 'Design B'),
+          updatedAt: new Date('2024-01-03')
+        };
+        mockGitHubService.getDiscussion.mockResolvedValue(remote);
+        await expect(
+          provider.writeFile(fileUri, new TextEncoder().encode(baseBody.replace('Design', 'Design A')), { create: false, overwrite: true })
+        ).rejects.toThrow();
+        await new Promise(resolve => setImmediate(resolve));
+        const merged = { ...remote, body: baseBody.replace('Design', 'Design A+B'), updatedAt: new Date('2024-01-04') };
+        mockGitHubService.updateDiscussion.mockResolvedValue(merged);
+        await provider.writeFile(fileUri, new TextEncoder().encode(merged.body), { create: false, overwrite: true });
+
+        // A newer remote edit after the merge is a conflict again
+        mockGitHubService.getDiscussion.mockResolvedValue({ ...merged, body: merged.body.replace('Summary', 'Summary C'), updatedAt: new Date('2024-01-05') });
+        await expect(
+          provider.writeFile(fileUri, new TextEncoder().encode(merged.body.replace('Summary', 'Summary D')), { create: false, overwrite: true })
+        ).rejects.toThrow('Unavailable');
+        expect(mockGitHubService.updateDiscussion).toHaveBeenCalledTimes(1);
+      });
+
+      it('should offer the diff when the merge editor cannot be opened', async () => {
+        mockGitHubService.getDiscussion.mockResolvedValue({
+          ...mockDiscussion,
+          body: baseBody.replace('Design', 'Design B'),
+          updatedAt: new Date('2024-01-03')
+        });
+        (vscode.commands.executeCommand as jest.Mock).mockRejectedValueOnce(new Error("command '_open.mergeEditor' not found"));
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Compare with remote');
+
+        await expect(
+          provider.writeFile(fileUri, new TextEncoder().encode(baseBody.replace('Design', 'Design A')), { create: false, overwrite: true })
+        ).rejects.toThrow('Unavailable');
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+          'vscode.diff',
+          expect.objectContaining({ query: 'remote' }),
+          fileUri,
+          expect.stringContaining('GitHub')
+        );
+      });
+    });
+
+    describe('front matter mode (Requirement 32)', () => {
+      const fileUri = vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md');
+      const getConfiguration = vscode.workspace.getConfiguration as jest.Mock;
+      const defaultGetConfiguration = getConfiguration.getMockImplementation();
+      const labeledDiscussion: Discussion = {
+        ...mockDiscussion,
+        body: 'Body',
+        labels: [{ id: 'L_1', name: 'bug', color: 'd73a4a' }]
+      };
+      const frontMatter = (fields: string[]): Uint8Array =>
+        new TextEncoder().encode(['---', ...fields, '---', '', 'Body'].join('\n'));
+
+      beforeEach(async () => {
+        getConfiguration.mockReturnValue({
+          get: jest.fn((key: string, defaultValue: unknown) => key === 'frontMatter' ? true : defaultValue)
+        });
+        mockGitHubService.getDiscussion.mockResolvedValue(labeledDiscussion);
+        mockGitHubService.getDiscussionCategories.mockResolvedValue([
+          mockCategory,
+          { ...mockCategory, id: 'C_2', name: 'Ideas' }
+        ]);
+        mockGitHubService.getRepositoryLabels = jest.fn().mockResolvedValue([
+          { id: 'L_1', name: 'bug', color: 'd73a4a' },
+          { id: 'L_2', name: 'needs-design', color: '0e8a16' }
+        ]);
+        mockGitHubService.addLabelsToDiscussion = jest.fn().mockResolvedValue(undefined);
+        mockGitHubService.removeLabelsFromDiscussion = jest.fn().mockResolvedValue(undefined);
+        mockGitHubService.closeDiscussion = jest.fn().mockResolvedValue(undefined);
+        mockGitHubService.lockDiscussion = jest.fn().mockResolvedValue(undefined);
+      });
+
+      afterEach(() => {
+        getConfiguration.mockImplementation(defaultGetConfiguration);
+      });
+
+      const getDiagnostics = () =>
+        (vscode.languages.createDiagnosticCollection as jest.Mock).mock.results[0].value;
+
+      it('should prefix the body with front matter (Requirement 32.1)', async () => {
+        const content = await provider.readFile(fileUri);
+
+        expect(new TextDecoder().decode(content)).toBe([
+          '---',
+          'title: TestDiscussion',
+          'category: General',
+          'labels: [bug]',
+          'state: open',
+          'locked: false',
+          '---',
+          '',
+          'Body'
+        ].join('\n'));
+      });
+
+      it('should only update title and body when the front matter is unchanged', async () => {
+        await provider.readFile(fileUri);
+        const listener = jest.fn();
+        provider.onDidUpdateDiscussion(listener);
+
+        await provider.writeFile(fileUri, frontMatter([
+          'title: TestDiscussion',
+          'category: General',
+          'labels: [bug]',
+          'state: open',
+          'locked: false'
+        ]), { create: false, overwrite: true });
+
+        expect(mockGitHubService.updateDiscussion).toHaveBeenCalledWith('D_1', { title: 'TestDiscussion', body: 'Body' });
+        expect(mockGitHubService.addLabelsToDiscussion).not.toHaveBeenCalled();
+        expect(mockGitHubService.removeLabelsFromDiscussion).not.toHaveBeenCalled();
+        expect(mockGitHubService.closeDiscussion).not.toHaveBeenCalled();
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      it('should issue the mutations for every changed field in one save (Requirement 32.3)', async () => {
+        await provider.readFile(fileUri);
+        const updated: Discussion = {
+          ...labeledDiscussion,
+          title: 'Renamed',
+          category: { ...mockCategory, id: 'C_2', name: 'Ideas' },
+          labels: [{ id: 'L_2', name: 'needs-design', color: '0e8a16' }],
+          closed: true,
+          locked: true
+        };
+        mockGitHubService.getDiscussion.mockResolvedValueOnce(labeledDiscussion).mockResolvedValueOnce(updated);
+        const updateListener = jest.fn();
+        const fileListener = jest.fn();
+        provider.onDidUpdateDiscussion(updateListener);
+        provider.onDidChangeFile(fileListener);
+
+        await provider.writeFile(fileUri, frontMatter([
+          'title: Renamed',
+          'category: ideas',
+          'labels:',
+          '  - Needs-Design',
+          'state: closed',
+          'locked: true'
+        ]), { create: false, overwrite: true });
+
+        expect(mockGitHubService.updateDiscussion).toHaveBeenCalledWith('D_1', { title: 'Renamed', body: 'Body', categoryId: 'C_2' });
+        expect(mockGitHubService.addLabelsToDiscussion).toHaveBeenCalledWith('D_1', ['L_2']);
+        expect(mockGitHubService.removeLabelsFromDiscussion).toHaveBeenCalledWith('D_1', ['L_1']);
+        expect(mockGitHubService.closeDiscussion).toHaveBeenCalledWith('D_1', 'RESOLVED');
+        expect(mockGitHubService.lockDiscussion).toHaveBeenCalledWith('D_1');
+        expect(updateListener).toHaveBeenCalledWith(updated);
+        expect(fileListener).toHaveBeenCalledWith([
+          { type: vscode.FileChangeType.Deleted, uri: fileUri },
+          expect.objectContaining({ type: vscode.FileChangeType.Created })
+        ]);
+      });
+
+      it('should report the failed mutation and keep the saved body as the base (Requirement 32.3)', async () => {
+        await provider.readFile(fileUri);
+        const saved: Discussion = { ...labeledDiscussion, body: 'Edited', updatedAt: new Date('2024-01-03') };
+        mockGitHubService.updateDiscussion.mockResolvedValue(saved);
+        mockGitHubService.closeDiscussion.mockRejectedValueOnce(new Error('Discussion is locked'));
+        const fields = ['title: TestDiscussion', 'category: General', 'labels: [bug, needs-design]', 'state: closed'];
+
+        await expect(
+          provider.writeFile(fileUri, new TextEncoder().encode(['---', ...fields, '---', '', 'Edited'].join('\n')), { create: false, overwrite: true })
+        ).rejects.toThrow('Failed to close discussion #1 (saved: title and body, added labels): Discussion is locked');
+        expect(mockGitHubService.addLabelsToDiscussion).toHaveBeenCalledWith('D_1', ['L_2']);
+        expect(mockGitHubService.lockDiscussion).not.toHaveBeenCalled();
+
+        // Saving again after the failure is not a conflict with the body saved before it
+        mockGitHubService.getDiscussion.mockResolvedValue(saved);
+        expect(new TextDecoder().decode(await provider.readFile(fileUri))).toContain('Edited');
+        await provider.writeFile(fileUri, new TextEncoder().encode(['---', ...fields, '---', '', 'Edited again'].join('\n')), { create: false, overwrite: true });
+        expect(mockGitHubService.updateDiscussion).toHaveBeenLastCalledWith('D_1', { title: 'TestDiscussion', body: 'Edited again' });
+      });
+
+      it('should report unknown labels on the labels line without saving (Requirement 32.5)', async () => {
+        await provider.readFile(fileUri);
+
+        await expect(
+          provider.writeFile(fileUri, frontMatter(['title: TestDiscussion', 'labels: [bug, wontfix]']), { create: false, overwrite: true })
+        ).rejects.toThrow('NoPermissions');
+
+        expect(mockGitHubService.updateDiscussion).not.toHaveBeenCalled();
+        const [uri, diagnostics] = getDiagnostics().set.mock.calls[0];
+        expect(uri).toBe(fileUri);
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0].message).toBe('Unknown label "wontfix" in this repository');
+        expect(diagnostics[0].range.startLine).toBe(2);
+      });
+
+      it('should report invalid values on the offending line (Requirement 32.5)', async () => {
+        await provider.readFile(fileUri);
+
+        await expect(
+          provider.writeFile(fileUri, frontMatter(['title: TestDiscussion', 'category: Nope', 'state: archived']), { create: false, overwrite: true })
+        ).rejects.toThrow('NoPermissions');
+
+        const diagnostics = getDiagnostics().set.mock.calls[0][1];
+        expect(diagnostics.map((d: { message: string }) => d.message)).toEqual([
+          '"state" must be "open" or "closed", got "archived"',
+          'Unknown category "Nope" (available: General, Ideas)'
+        ]);
+        expect(diagnostics.map((d: { range: { startLine: number } }) => d.range.startLine)).toEqual([3, 2]);
+        expect(mockGitHubService.updateDiscussion).not.toHaveBeenCalled();
+      });
+
+      it('should give every conflict snapshot the same front matter (Requirement 28.3)', async () => {
+        await provider.readFile(fileUri);
+        mockGitHubService.getDiscussion.mockResolvedValue({ ...labeledDiscussion, body: 'Teammate edit', updatedAt: new Date('2024-01-03') });
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
+        const local = frontMatter(['title: TestDiscussion', 'category: General', 'labels: [bug]', 'state: open', 'locked: false']);
+
+        await expect(
+          provider.writeFile(fileUri, local, { create: false, overwrite: true })
+        ).rejects.toThrow('Unavailable');
+
+        const snapshot = async (kind: string) =>
+          new TextDecoder().decode(await provider.readFile(fileUri.with({ query: kind })));
+        const header = (await snapshot('base')).split('\n\n')[0];
+        expect(await snapshot('base')).toBe(`${header}\n\nBody`);
+        expect(await snapshot('local')).toBe(new TextDecoder().decode(local));
+        expect(await snapshot('remote')).toBe(`${header}\n\nTeammate edit`);
+        expect(header).toContain('labels: [bug]');
+      });
+    });
+
+    describe('metadata writes (Requirement 33)', () => {
+      const metadataUri = vscode.Uri.parse('ghd:///discussions/1/_metadata.json');
+      const labeledDiscussion: Discussion = {
+        ...mockDiscussion,
+        labels: [{ id: 'L_1', name: 'bug', color: 'd73a4a' }]
+      };
+      const getDiagnostics = () =>
+        (vscode.languages.createDiagnosticCollection as jest.Mock).mock.results[0].value;
+
+      const readMetadata = async () => JSON.parse(new TextDecoder().decode(await provider.readFile(metadataUri)));
+      const writeMetadata = (metadata: unknown) => provider.writeFile(
+        metadataUri,
+        new TextEncoder().encode(JSON.stringify(metadata, null, 2)),
+        { create: false, overwrite: true }
+      );
+
+      beforeEach(() => {
+        mockGitHubService.getDiscussion.mockResolvedValue(labeledDiscussion);
+        mockGitHubService.getDiscussionCategories.mockResolvedValue([
+          mockCategory,
+          { ...mockCategory, id: 'C_2', name: 'Ideas' }
+        ]);
+        mockGitHubService.getRepositoryLabels = jest.fn().mockResolvedValue([
+          { id: 'L_1', name: 'bug', color: 'd73a4a' },
+          { id: 'L_2', name: 'needs-design', color: '0e8a16' }
+        ]);
+        mockGitHubService.addLabelsToDiscussion = jest.fn().mockResolvedValue(undefined);
+        mockGitHubService.removeLabelsFromDiscussion = jest.fn().mockResolvedValue(undefined);
+        mockGitHubService.lockDiscussion = jest.fn().mockResolvedValue(undefined);
+      });
+
+      it('should expose labels, pinned and locked (Requirement 33.1)', async () => {
+        mockGitHubService.getPinnedDiscussionIds.mockResolvedValue(['D_1']);
+
+        expect(await readMetadata()).toMatchObject({ labels: ['bug'], pinned: true, locked: false });
+      });
+
+      it('should leave pinned out when the pinned discussions cannot be loaded', async () => {
+        mockGitHubService.getPinnedDiscussionIds.mockRejectedValue(new Error('Network error'));
+        const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        const metadata = await readMetadata();
+
+        expect(metadata).toMatchObject({ labels: ['bug'], locked: false });
+        expect(metadata).not.toHaveProperty('pinned');
+        // A file read while the pinned state was known still saves without changes
+        await writeMetadata({ ...metadata, pinned: false });
+        expect(mockGitHubService.updateDiscussion).not.toHaveBeenCalled();
+        consoleSpy.mockRestore();
+      });
+
+      it('should translate mutable field edits into mutations (Requirement 33.2)', async () => {
+        const metadata = await readMetadata();
+        const updated: Discussion = {
+          ...labeledDiscussion,
+          title: 'Renamed',
+          category: { ...mockCategory, id: 'C_2', name: 'Ideas' },
+          labels: [{ id: 'L_2', name: 'needs-design', color: '0e8a16' }],
+          locked: true
+        };
+        mockGitHubService.getDiscussion.mockResolvedValueOnce(labeledDiscussion).mockResolvedValueOnce(updated);
+        const updateListener = jest.fn();
+        const fileListener = jest.fn();
+        provider.onDidUpdateDiscussion(updateListener);
+        provider.onDidChangeFile(fileListener);
+
+        await writeMetadata({
+          ...metadata,
+          title: 'Renamed',
+          category: { ...metadata.category, name: 'ideas' },
+          labels: ['needs-design'],
+          locked: true
+        });
+
+        expect(mockGitHubService.updateDiscussion).toHaveBeenCalledWith('D_1', { title: 'Renamed', categoryId: 'C_2' });
+        expect(mockGitHubService.addLabelsToDiscussion).toHaveBeenCalledWith('D_1', ['L_2']);
+        expect(mockGitHubService.removeLabelsFromDiscussion).toHaveBeenCalledWith('D_1', ['L_1']);
+        expect(mockGitHubService.lockDiscussion).toHaveBeenCalledWith('D_1');
+        expect(updateListener).toHaveBeenCalledWith(updated);
+        expect(fileListener).toHaveBeenCalledWith([
+          { type: vscode.FileChangeType.Changed, uri: metadataUri },
+          expect.objectContaining({ type: vscode.FileChangeType.Deleted }),
+          expect.objectContaining({ type: vscode.FileChangeType.Created })
+        ]);
+      });
+
+      it('should not overwrite a title changed on GitHub (Requirement 28.1)', async () => {
+        const metadata = await readMetadata();
+        const remote = { ...labeledDiscussion, title: 'Renamed by a teammate', updatedAt: new Date('2024-01-03') };
+        mockGitHubService.getDiscussion.mockResolvedValue(remote);
+
+        await expect(writeMetadata({ ...metadata, title: 'Renamed' })).rejects.toThrow('Unavailable');
+
+        expect(mockGitHubService.updateDiscussion).not.toHaveBeenCalled();
+        expect(await readMetadata()).toMatchObject({ title: 'Renamed by a teammate' });
+      });
+
+      it('should not call GitHub when nothing changed', async () => {
+        await writeMetadata(await readMetadata());
+
+        expect(mockGitHubService.updateDiscussion).not.toHaveBeenCalled();
+        expect(mockGitHubService.addLabelsToDiscussion).not.toHaveBeenCalled();
+      });
+
+      it('should report read-only field changes as diagnostics without saving (Requirement 33.3)', async () => {
+        const metadata = await readMetadata();
+
+        await expect(writeMetadata({ ...metadata, isAnswered: true, locked: true })).rejects.toThrow('NoPermissions');
+
+        expect(mockGitHubService.lockDiscussion).not.toHaveBeenCalled();
+        const [uri, diagnostics] = getDiagnostics().set.mock.calls[0];
+        expect(uri).toBe(metadataUri);
+        expect(diagnostics.map((d: { message: string }) => d.message)).toEqual(['"isAnswered" is read-only and cannot be changed']);
+        const savedLines = JSON.stringify({ ...metadata, isAnswered: true }, null, 2).split('\n');
+        expect(diagnostics[0].range.startLine).toBe(savedLines.findIndex(line => line.startsWith('  "isAnswered"')));
+      });
+
+      it('should report pinned changes because GitHub has no pin mutation', async () => {
+        const metadata = await readMetadata();
+
+        await expect(writeMetadata({ ...metadata, pinned: true })).rejects.toThrow('NoPermissions');
+
+        const diagnostics = getDiagnostics().set.mock.calls[0][1];
+        expect(diagnostics[0].message).toContain('not supported by the GitHub API');
+      });
+
+      it('should report unknown categories and invalid JSON', async () => {
+        const metadata = await readMetadata();
+
+        await expect(writeMetadata({ ...metadata, category: { ...metadata.category, id: 'C_404' } })).rejects.toThrow('NoPermissions');
+        expect(getDiagnostics().set.mock.calls[0][1][0].message).toContain('Unknown category id "C_404"');
+
+        await expect(
+          provider.writeFile(metadataUri, new TextEncoder().encode('{\n  "title": "a"\n  "locked": true\n}'), { create: false, overwrite: true })
+        ).rejects.toThrow('NoPermissions');
+        expect(getDiagnostics().set.mock.calls[1][1][0].range.startLine).toBe(2);
+        expect(mockGitHubService.updateDiscussion).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('delete (Requirement 25)', () => {
+      beforeEach(() => {
+        (mockGitHubService as any).deleteDiscussion = jest.fn().mockResolvedValue(undefined);
+      });
+
+      it('should not delete when the confirmation is cancelled', async () => {
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
         const uri = vscode.Uri.parse('ghd:///discussions/1');
 
         await expect(
           provider.delete(uri, { recursive: false })
         ).rejects.toThrow();
+        expect(mockGitHubService.deleteDiscussion).not.toHaveBeenCalled();
+      });
+
+      it('should show a modal confirmation with title and comment count (Requirement 25.1)', async () => {
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
+
+        await provider.deleteDiscussion(1);
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+          expect.stringContaining('TestDiscussion'),
+          expect.objectContaining({ modal: true, detail: expect.stringContaining('0 comments') }),
+          'Delete'
+        );
+      });
+
+      it('should count the comments that are not loaded yet (Requirement 25.1)', async () => {
+        mockGitHubService.getDiscussion.mockResolvedValue({ ...mockDiscussion, commentsTotalCount: 150 });
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
+
+        await provider.deleteDiscussion(1);
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ detail: expect.stringContaining('150 comments') }),
+          'Delete'
+        );
+      });
+
+      it('should delete the discussion and fire Deleted events when confirmed (Requirement 25.2, 25.3)', async () => {
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Delete');
+        const changeListener = jest.fn();
+        const deleteListener = jest.fn();
+        provider.onDidChangeFile(changeListener);
+        provider.onDidDeleteDiscussion(deleteListener);
+
+        await provider.delete(vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md'), { recursive: false });
+
+        expect(mockGitHubService.deleteDiscussion).toHaveBeenCalledWith('D_1');
+        expect(changeListener).toHaveBeenCalledWith(
+          expect.arrayContaining([expect.objectContaining({ type: vscode.FileChangeType.Deleted })])
+        );
+        expect(deleteListener).toHaveBeenCalledWith({ discussionId: 'D_1', discussionNumber: 1 });
+      });
+
+      it('should invalidate the cache after deleting', async () => {
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Delete');
+        await provider.deleteDiscussion(1);
+
+        await provider.readFile(vscode.Uri.parse('ghd:///discussions/1/_metadata.json'));
+
+        // Once for the confirmation, once after the cache was invalidated
+        expect(mockGitHubService.getDiscussion).toHaveBeenCalledTimes(2);
+      });
+
+      it('should surface missing permissions as a NoPermissions error (Requirement 25.5)', async () => {
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Delete');
+        (mockGitHubService.deleteDiscussion as jest.Mock).mockRejectedValue(
+          new Error('FORBIDDEN: Resource not accessible, viewer does not have permission')
+        );
+
+        await expect(provider.deleteDiscussion(1)).rejects.toThrow('NoPermissions');
+      });
+
+      it('should not delete metadata files or the discussions root', async () => {
+        await expect(
+          provider.delete(vscode.Uri.parse('ghd:///discussions/1/_metadata.json'), { recursive: false })
+        ).rejects.toThrow('NoPermissions');
+        await expect(
+          provider.delete(vscode.Uri.parse('ghd:///discussions'), { recursive: true })
+        ).rejects.toThrow('NoPermissions');
+        expect(mockGitHubService.deleteDiscussion).not.toHaveBeenCalled();
       });
     });
 
-    describe('rename', () => {
-      it('should throw for rename operations (not supported)', async () => {
+    describe('rename (Requirement 26)', () => {
+      it('should throw when moving a discussion folder', async () => {
         const oldUri = vscode.Uri.parse('ghd:///discussions/1');
         const newUri = vscode.Uri.parse('ghd:///discussions/2');
 
@@ -331,6 +966,221 @@ describe('DiscussionFileSystemProvider', () => {
           provider.rename(oldUri, newUri, { overwrite: false })
         ).rejects.toThrow();
       });
+
+      it('should throw when moving the markdown file to another discussion', async () => {
+        const oldUri = vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md');
+        const newUri = vscode.Uri.parse('ghd:///discussions/2/TestDiscussion.md');
+
+        await expect(
+          provider.rename(oldUri, newUri, { overwrite: false })
+        ).rejects.toThrow('NoPermissions');
+        expect(mockGitHubService.updateDiscussion).not.toHaveBeenCalled();
+      });
+
+      it('should update only the title when the markdown file is renamed (Requirement 26.1, 26.2)', async () => {
+        const oldUri = vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md');
+        const newUri = vscode.Uri.parse('ghd:///discussions/1/RenamedDiscussion.md');
+
+        await provider.rename(oldUri, newUri, { overwrite: false });
+
+        expect(mockGitHubService.updateDiscussion).toHaveBeenCalledWith('D_1', { title: 'RenamedDiscussion' });
+      });
+
+      it('should refresh the cache and fire Deleted/Created events (Requirement 26.3)', async () => {
+        const renamed = { ...mockDiscussion, title: 'RenamedDiscussion' };
+        mockGitHubService.updateDiscussion.mockResolvedValue(renamed);
+        const listener = jest.fn();
+        provider.onDidChangeFile(listener);
+
+        const oldUri = vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md');
+        const newUri = vscode.Uri.parse('ghd:///discussions/1/RenamedDiscussion.md');
+        await provider.rename(oldUri, newUri, { overwrite: false });
+
+        expect(listener).toHaveBeenCalledWith([
+          { type: vscode.FileChangeType.Deleted, uri: oldUri },
+          { type: vscode.FileChangeType.Created, uri: newUri }
+        ]);
+
+        // The renamed file is served from the refreshed cache entry
+        const content = await provider.readFile(newUri);
+        expect(new TextDecoder().decode(content)).toBe(mockDiscussion.body);
+        expect(mockGitHubService.getDiscussion).toHaveBeenCalledTimes(1);
+      });
+
+      it('should refuse file names the title would not be listed under', async () => {
+        const oldUri = vscode.Uri.parse('ghd:///discussions/1/TestDiscussion.md');
+
+        for (const fileName of ['Fix%3A crash.md', 'Two%20%20spaces.md', `${'a'.repeat(300)}.md`]) {
+          await expect(
+            provider.rename(oldUri, vscode.Uri.parse(`ghd:///discussions/1/${fileName}`), { overwrite: false })
+          ).rejects.toThrow('NoPermissions');
+        }
+        expect(mockGitHubService.updateDiscussion).not.toHaveBeenCalled();
+      });
+
+      it('should throw FileNotFound when the source file does not match the title', async () => {
+        const oldUri = vscode.Uri.parse('ghd:///discussions/1/Other.md');
+        const newUri = vscode.Uri.parse('ghd:///discussions/1/RenamedDiscussion.md');
+
+        await expect(
+          provider.rename(oldUri, newUri, { overwrite: false })
+        ).rejects.toThrow('FileNotFound');
+      });
+
+      it('should not allow renaming metadata files', async () => {
+        const oldUri = vscode.Uri.parse('ghd:///discussions/1/_metadata.json');
+        const newUri = vscode.Uri.parse('ghd:///discussions/1/meta.json');
+
+        await expect(
+          provider.rename(oldUri, newUri, { overwrite: false })
+        ).rejects.toThrow('NoPermissions');
+      });
+    });
+
+    describe('comment files (Requirement 30)', () => {
+      const reply: DiscussionComment = {
+        id: 'DC_reply',
+        body: 'Reply by someone else',
+        bodyHTML: '<p>Reply by someone else</p>',
+        author: { ...mockUser, login: 'other' },
+        createdAt: new Date('2024-01-04'),
+        updatedAt: new Date('2024-01-04'),
+        viewerDidAuthor: false,
+        reactions: [],
+        replies: []
+      };
+
+      const ownComment: DiscussionComment = {
+        id: 'DC_own',
+        body: 'My comment',
+        bodyHTML: '<p>My comment</p>',
+        author: mockUser,
+        createdAt: new Date('2024-01-03'),
+        updatedAt: new Date('2024-01-03'),
+        viewerDidAuthor: true,
+        reactions: [],
+        replies: [reply]
+      };
+
+      beforeEach(() => {
+        mockGitHubService.getDiscussion.mockResolvedValue({ ...mockDiscussion, comments: [ownComment] });
+        mockGitHubService.updateComment = jest.fn().mockResolvedValue({ ...ownComment, body: 'Edited' });
+      });
+
+      it('should list comments and replies flat in the comments folder (Requirement 30.1)', async () => {
+        const folderEntries = await provider.readDirectory(vscode.Uri.parse('ghd:///discussions/1'));
+        expect(folderEntries).toContainEqual(['comments', FileType.Directory]);
+
+        const entries = await provider.readDirectory(vscode.Uri.parse('ghd:///discussions/1/comments'));
+        expect(entries).toEqual([
+          ['DC_own.md', FileType.File],
+          ['DC_reply.md', FileType.File]
+        ]);
+      });
+
+      it('should return the comment body as file content', async () => {
+        const content = await provider.readFile(vscode.Uri.parse('ghd:///discussions/1/comments/DC_reply.md'));
+
+        expect(new TextDecoder().decode(content)).toBe('Reply by someone else');
+      });
+
+      it('should mark comments by other users as readonly (Requirement 30.3)', async () => {
+        const ownStat = await provider.stat(vscode.Uri.parse('ghd:///discussions/1/comments/DC_own.md'));
+        const otherStat = await provider.stat(vscode.Uri.parse('ghd:///discussions/1/comments/DC_reply.md'));
+
+        expect(ownStat.permissions).toBeUndefined();
+        expect(otherStat.permissions).toBe(vscode.FilePermission.Readonly);
+      });
+
+      it('should throw FileNotFound for unknown comments', async () => {
+        await expect(
+          provider.readFile(vscode.Uri.parse('ghd:///discussions/1/comments/DC_missing.md'))
+        ).rejects.toThrow('FileNotFound');
+        expect(mockGitHubService.getComment).toHaveBeenCalledWith(1, 'DC_missing');
+      });
+
+      it('should fetch comments beyond those loaded with the discussion', async () => {
+        mockGitHubService.getComment.mockResolvedValueOnce({ ...ownComment, id: 'DC_later', body: 'Comment 101', replies: [] });
+
+        const content = await provider.readFile(vscode.Uri.parse('ghd:///discussions/1/comments/DC_later.md'));
+
+        expect(new TextDecoder().decode(content)).toBe('Comment 101');
+      });
+
+      it('should save own comments via updateComment and notify listeners (Requirement 30.2, 30.4)', async () => {
+        const fileListener = jest.fn();
+        const commentsListener = jest.fn();
+        provider.onDidChangeFile(fileListener);
+        provider.onDidChangeComments(commentsListener);
+        const uri = vscode.Uri.parse('ghd:///discussions/1/comments/DC_own.md');
+
+        await provider.writeFile(uri, new TextEncoder().encode('Edited\n'), { create: false, overwrite: true });
+
+        expect(mockGitHubService.updateComment).toHaveBeenCalledWith('DC_own', 'Edited');
+        expect(fileListener).toHaveBeenCalledWith([{ type: vscode.FileChangeType.Changed, uri }]);
+        expect(commentsListener).toHaveBeenCalledWith(1);
+      });
+
+      it('should reject saving comments by other users (Requirement 30.3)', async () => {
+        const uri = vscode.Uri.parse('ghd:///discussions/1/comments/DC_reply.md');
+
+        await expect(
+          provider.writeFile(uri, new TextEncoder().encode('Hijacked'), { create: false, overwrite: true })
+        ).rejects.toThrow('NoPermissions');
+        expect(mockGitHubService.updateComment).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('composing comments (Requirement 31)', () => {
+      beforeEach(() => {
+        mockGitHubService.addReply = jest.fn().mockResolvedValue(undefined);
+      });
+
+      it('should build draft URIs for comments and replies', () => {
+        expect(DiscussionFileSystemProvider.newCommentUri(1).path).toBe('/discussions/1/new-comment.md');
+        expect(DiscussionFileSystemProvider.newCommentUri(1, 'DC_1').path).toBe('/discussions/1/comments/DC_1/new-reply.md');
+      });
+
+      it('should serve drafts as empty files', async () => {
+        const uri = DiscussionFileSystemProvider.newCommentUri(1);
+        const stat = await provider.stat(uri);
+        const content = await provider.readFile(uri);
+
+        expect(stat.type).toBe(FileType.File);
+        expect(new TextDecoder().decode(content)).toBe('');
+      });
+
+      it('should post a new comment on save and notify listeners (Requirement 31.2, 31.3)', async () => {
+        const fileListener = jest.fn();
+        const commentsListener = jest.fn();
+        provider.onDidChangeFile(fileListener);
+        provider.onDidChangeComments(commentsListener);
+        const uri = DiscussionFileSystemProvider.newCommentUri(1);
+
+        await provider.writeFile(uri, new TextEncoder().encode('```ts\ncode\n```\n'), { create: false, overwrite: true });
+
+        expect(mockGitHubService.addComment).toHaveBeenCalledWith('D_1', '```ts\ncode\n```');
+        expect(fileListener).toHaveBeenCalledWith([{ type: vscode.FileChangeType.Changed, uri }]);
+        expect(commentsListener).toHaveBeenCalledWith(1);
+      });
+
+      it('should post a reply to the comment in the path', async () => {
+        const uri = DiscussionFileSystemProvider.newCommentUri(1, 'DC_1');
+
+        await provider.writeFile(uri, new TextEncoder().encode('Reply'), { create: false, overwrite: true });
+
+        expect(mockGitHubService.addReply).toHaveBeenCalledWith('D_1', 'DC_1', 'Reply');
+        expect(mockGitHubService.addComment).not.toHaveBeenCalled();
+      });
+
+      it('should reject empty comments (Requirement 31.4)', async () => {
+        const uri = DiscussionFileSystemProvider.newCommentUri(1);
+
+        await expect(
+          provider.writeFile(uri, new TextEncoder().encode('  \n'), { create: false, overwrite: true })
+        ).rejects.toThrow('NoPermissions');
+        expect(mockGitHubService.addComment).not.toHaveBeenCalled();
+      });
     });
 
     describe('cache invalidation', () => {
@@ -410,6 +1260,47 @@ describe('DiscussionFileSystemProvider', () => {
     });
   });
 
+  describe('Repository paths (Requirement 45.4)', () => {
+    let scopedProvider: DiscussionFileSystemProvider;
+
+    beforeEach(() => {
+      scopedProvider = new DiscussionFileSystemProvider(mockGitHubService, new CacheService(), { owner: 'owner', name: 'repo' });
+    });
+
+    afterEach(() => {
+      scopedProvider.dispose();
+    });
+
+    it('should serve the discussions under /owner/name', async () => {
+      const content = await scopedProvider.readFile(vscode.Uri.parse('ghd:/owner/repo/discussions/1/TestDiscussion.md'));
+
+      expect(new TextDecoder().decode(content)).toContain('# Hello World');
+      expect(mockGitHubService.getDiscussion).toHaveBeenCalledWith(1);
+      expect(await scopedProvider.readDirectory(vscode.Uri.parse('ghd:/owner/repo'))).toEqual([['discussions', FileType.Directory]]);
+    });
+
+    it('should not serve paths of other repositories', async () => {
+      await expect(scopedProvider.stat(vscode.Uri.parse('ghd:/discussions/1'))).rejects.toThrow();
+      await expect(scopedProvider.stat(vscode.Uri.parse('ghd:/owner/other/discussions/1'))).rejects.toThrow();
+    });
+
+    it('should build URIs under the repository root', () => {
+      expect(DiscussionFileSystemProvider.newCommentUri(1, undefined, { owner: 'owner', name: 'repo' }).path)
+        .toBe('/owner/repo/discussions/1/new-comment.md');
+      expect(DiscussionFileSystemProvider.uri('/discussions/1').path).toBe('/discussions/1');
+    });
+
+    it('should notify changes with repository paths', async () => {
+      const fireSpy = jest.spyOn((scopedProvider as any)._onDidChangeFile, 'fire');
+      await scopedProvider.readFile(vscode.Uri.parse('ghd:/owner/repo/discussions/1/TestDiscussion.md'));
+      fireSpy.mockClear();
+
+      scopedProvider.notifyDiscussionsUpdated();
+
+      expect(fireSpy).toHaveBeenCalledWith([expect.objectContaining({ uri: expect.objectContaining({ path: '/owner/repo/discussions/1' }) })]);
+    });
+  });
+
   describe('Property-Based Tests', () => {
     /**
      * Property 6: Virtual File System Operation Correctness
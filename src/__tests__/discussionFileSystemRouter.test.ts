@@ -0,0 +1,100 @@
+/**
+ * Discussion File System Router Tests
+ * Requirements: 45.4 - Repository-scoped file paths
+ */
+
+import * as vscode from 'vscode';
+import { DiscussionFileSystemRouter } from '../providers/discussionFileSystemRouter';
+import { DiscussionFileSystemProvider } from '../providers/discussionFileSystemProvider';
+
+describe('DiscussionFileSystemRouter', () => {
+  let router: DiscussionFileSystemRouter;
+
+  const createProvider = () => {
+    const emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    return {
+      fire: (events: vscode.FileChangeEvent[]) => emitter.fire(events),
+      provider: {
+        onDidChangeFile: emitter.event,
+        stat: jest.fn().mockResolvedValue({ type: vscode.FileType.File }),
+        readDirectory: jest.fn().mockResolvedValue([['discussions', vscode.FileType.Directory]]),
+        readFile: jest.fn().mockResolvedValue(new Uint8Array()),
+        writeFile: jest.fn().mockResolvedValue(undefined),
+        createDirectory: jest.fn().mockResolvedValue(undefined),
+        delete: jest.fn().mockResolvedValue(undefined),
+        rename: jest.fn().mockResolvedValue(undefined)
+      } as unknown as jest.Mocked<DiscussionFileSystemProvider>
+    };
+  };
+
+  beforeEach(() => {
+    router = new DiscussionFileSystemRouter();
+  });
+
+  afterEach(() => {
+    router.dispose();
+  });
+
+  it('should hand each URI to the provider of its repository', async () => {
+    const app = createProvider();
+    const api = createProvider();
+    router.register('/owner/app', app.provider);
+    router.register('/owner/api', api.provider);
+
+    const uri = vscode.Uri.parse('ghd:/owner/api/discussions/1/Title.md');
+    await router.readFile(uri);
+    await router.writeFile(uri, new Uint8Array(), { create: false, overwrite: true });
+
+    expect(api.provider.readFile).toHaveBeenCalledWith(uri);
+    expect(api.provider.writeFile).toHaveBeenCalled();
+    expect(app.provider.readFile).not.toHaveBeenCalled();
+  });
+
+  it('should serve unprefixed paths with a provider registered at the root', async () => {
+    const single = createProvider();
+    router.register('', single.provider);
+
+    await router.stat(vscode.Uri.parse('ghd:/discussions/1'));
+
+    expect(single.provider.stat).toHaveBeenCalled();
+  });
+
+  it('should list owners and repositories above the repository roots', async () => {
+    router.register('/owner/app', createProvider().provider);
+    router.register('/owner/api', createProvider().provider);
+    router.register('/other/docs', createProvider().provider);
+
+    expect(await router.readDirectory(vscode.Uri.parse('ghd:/'))).toEqual([['owner', vscode.FileType.Directory], ['other', vscode.FileType.Directory]]);
+    expect(await router.readDirectory(vscode.Uri.parse('ghd:/owner'))).toEqual([['app', vscode.FileType.Directory], ['api', vscode.FileType.Directory]]);
+    expect((await router.stat(vscode.Uri.parse('ghd:/other'))).type).toBe(vscode.FileType.Directory);
+    await expect(router.stat(vscode.Uri.parse('ghd:/nobody'))).rejects.toThrow();
+  });
+
+  it('should not move discussions between repositories', () => {
+    router.register('/owner/app', createProvider().provider);
+    router.register('/owner/api', createProvider().provider);
+
+    expect(() => router.rename(
+      vscode.Uri.parse('ghd:/owner/app/discussions/1/Title.md'),
+      vscode.Uri.parse('ghd:/owner/api/discussions/1/Title.md'),
+      { overwrite: false }
+    )).toThrow();
+  });
+
+  it('should forward change events until the registration is disposed', () => {
+    const app = createProvider();
+    const registration = router.register('/owner/app', app.provider);
+    const listener = jest.fn();
+    router.onDidChangeFile(listener);
+
+    const events = [{ type: vscode.FileChangeType.Changed, uri: vscode.Uri.parse('ghd:/owner/app/discussions/1') }];
+    app.fire(events);
+    expect(listener).toHaveBeenCalledWith(events);
+
+    registration.dispose();
+    listener.mockClear();
+    app.fire(events);
+    expect(listener).not.toHaveBeenCalled();
+    expect(() => router.readFile(vscode.Uri.parse('ghd:/owner/app/discussions/1/Title.md'))).toThrow();
+  });
+});
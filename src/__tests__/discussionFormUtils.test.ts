@@ -0,0 +1,235 @@
+/**
+ * Tests for discussionFormUtils
+ * Requirements: 39.1, 39.3, 39.4 - Discussion category form templates, 40.1 - Template validation
+ */
+
+import * as fc from 'fast-check';
+import {
+  applyTitlePrefix,
+  DiscussionForm,
+  DiscussionFormElement,
+  findTemplateCategory,
+  formatFormAnswers,
+  hasFormFields,
+  parseDiscussionForm,
+  validateFormAnswers
+} from '../utils/discussionFormUtils';
+
+describe('discussionFormUtils', () => {
+  const template = [
+    'title: "[Idea] "',
+    'labels: enhancement, needs triage',
+    'body:',
+    '  - type: markdown',
+    '    attributes:',
+    '      value: |',
+    '        Thanks for sharing an idea!',
+    '  - type: input',
+    '    id: summary',
+    '    attributes:',
+    '      label: Summary',
+    '      placeholder: One line',
+    '    validations:',
+    '      required: true',
+    '  - type: textarea',
+    '    attributes:',
+    '      label: Logs',
+    '      render: shell',
+    '  - type: dropdown',
+    '    attributes:',
+    '      label: Area',
+    '      multiple: true',
+    '      options: [CLI, Editor]',
+    '      default: 0',
+    '  - type: checkboxes',
+    '    attributes:',
+    '      label: Checks',
+    '      options:',
+    '        - label: I searched existing discussions',
+    '          required: true',
+    '        - label: I want to help'
+  ].join('\n');
+
+  const element = (overrides: Partial<DiscussionFormElement>): DiscussionFormElement => ({
+    type: 'input',
+    line: 0,
+    label: 'Field',
+    multiple: false,
+    options: [],
+    required: false,
+    ...overrides
+  });
+
+  describe('parseDiscussionForm', () => {
+    it('タイトル、ラベル、本文の要素を読み取る', () => {
+      const { form, errors } = parseDiscussionForm(template);
+
+      expect(errors).toEqual([]);
+      expect(form?.title).toBe('[Idea] ');
+      expect(form?.labels).toEqual(['enhancement', 'needs triage']);
+      expect(form?.body.map(e => e.type)).toEqual(['markdown', 'input', 'textarea', 'dropdown', 'checkboxes']);
+      expect(form?.body[0].value).toBe('Thanks for sharing an idea!\n');
+      expect(form?.body[1]).toMatchObject({ id: 'summary', line: 7, label: 'Summary', placeholder: 'One line', required: true });
+      expect(form?.body[2]).toMatchObject({ render: 'shell', required: false });
+      expect(form?.body[3]).toMatchObject({
+        multiple: true,
+        defaultOption: 0,
+        options: [{ label: 'CLI', required: false }, { label: 'Editor', required: false }]
+      });
+      expect(form?.body[4].options).toEqual([
+        { label: 'I searched existing discussions', required: true },
+        { label: 'I want to help', required: false }
+      ]);
+    });
+
+    it('ラベルのリスト形式を読み取る', () => {
+      expect(parseDiscussionForm('labels: [a, b]\nbody: []').form?.labels).toEqual(['a', 'b']);
+    });
+
+    it('不明な要素の種類をスキップしてエラーを報告する', () => {
+      const { form, errors } = parseDiscussionForm('body:\n  - type: slider\n  - attributes: {}\n  - type: input\n    attributes: {label: Name}');
+
+      expect(form?.body.map(e => e.type)).toEqual(['input']);
+      expect(errors).toEqual([
+        { line: 1, message: 'Unknown element type "slider" (expected one of markdown, input, textarea, dropdown, checkboxes)' },
+        { line: 2, message: 'Body element 2 is missing "type"' }
+      ]);
+    });
+
+    it('スキーマの規則に反する要素を行番号付きで報告する', () => {
+      const { form, errors } = parseDiscussionForm([
+        'body:',
+        '  - type: markdown',
+        '    attributes: {}',
+        '  - type: input',
+        '    id: name',
+        '  - type: textarea',
+        '    id: name',
+        '    attributes:',
+        '      label: Details',
+        '  - type: dropdown',
+        '    attributes:',
+        '      label: Area',
+        '      options: []'
+      ].join('\n'));
+
+      expect(form?.body).toHaveLength(4);
+      expect(errors).toEqual([
+        { line: 2, message: 'Body element 1 (markdown) is missing "attributes.value"' },
+        { line: 3, message: 'Body element 2 (input) is missing "attributes.label"' },
+        { line: 6, message: 'Duplicate id "name" (also used by body element 2)' },
+        { line: 12, message: 'Body element 4 (dropdown) has no options' }
+      ]);
+    });
+
+    it('本文がないテンプレートと YAML の構文エラーを報告する', () => {
+      expect(parseDiscussionForm('title: x')).toEqual({ errors: [{ line: 0, message: 'A form template must have a "body"' }] });
+      expect(parseDiscussionForm('body: |\n  text')).toEqual({ errors: [{ line: 0, message: '"body" must be a list of form elements' }] });
+      expect(parseDiscussionForm('body:\n  - type: input\n    id: "a\n').errors).toEqual([
+        { line: 3, column: 0, message: 'Invalid YAML: Missing closing "quote' }
+      ]);
+    });
+  });
+
+  describe('validateFormAnswers', () => {
+    it('未入力の必須項目を報告する', () => {
+      const { form } = parseDiscussionForm(template);
+      const errors = validateFormAnswers(form!, [undefined as never, '  ', '', [], ['I want to help']]);
+
+      expect(errors).toEqual([
+        { index: 1, message: '"Summary" is required' },
+        { index: 4, message: 'Check "I searched existing discussions"' }
+      ]);
+    });
+
+    it('必須のドロップダウンが未選択の場合を報告する', () => {
+      const form: DiscussionForm = { labels: [], body: [element({ type: 'dropdown', label: 'Area', required: true })] };
+      expect(validateFormAnswers(form, [[]])).toEqual([{ index: 0, message: 'Select an option for "Area"' }]);
+      expect(validateFormAnswers(form, [['CLI']])).toEqual([]);
+    });
+  });
+
+  describe('formatFormAnswers', () => {
+    it('GitHub と同じ形式で回答を出力する', () => {
+      const { form } = parseDiscussionForm(template);
+      const body = formatFormAnswers(form!, ['', ' New command ', 'npm test', ['CLI', 'Editor'], ['I searched existing discussions']]);
+
+      expect(body).toBe([
+        '### Summary',
+        '',
+        'New command',
+        '',
+        '### Logs',
+        '',
+        '```shell',
+        'npm test',
+        '```',
+        '',
+        '### Area',
+        '',
+        'CLI, Editor',
+        '',
+        '### Checks',
+        '',
+        '- [X] I searched existing discussions',
+        '- [ ] I want to help'
+      ].join('\n'));
+    });
+
+    it('未回答の項目は _No response_ と出力する', () => {
+      const form: DiscussionForm = {
+        labels: [],
+        body: [element({ label: 'A' }), element({ type: 'textarea', label: 'B', render: 'js' }), element({ type: 'dropdown', label: 'C' })]
+      };
+      expect(formatFormAnswers(form, [])).toBe('### A\n\n_No response_\n\n### B\n\n_No response_\n\n### C\n\n_No response_');
+    });
+  });
+
+  describe('applyTitlePrefix', () => {
+    const form: DiscussionForm = { title: '[Idea] ', labels: [], body: [] };
+
+    it('タイトルの先頭にプレフィックスを付ける', () => {
+      expect(applyTitlePrefix(form, ' Dark mode ')).toBe('[Idea] Dark mode');
+    });
+
+    it('プレフィックスが既にある場合は付けない', () => {
+      expect(applyTitlePrefix(form, '[Idea] Dark mode')).toBe('[Idea] Dark mode');
+      expect(applyTitlePrefix({ labels: [], body: [] }, 'Dark mode')).toBe('Dark mode');
+    });
+  });
+
+  describe('findTemplateCategory', () => {
+    it('ファイル名と一致するスラッグのカテゴリを返す', () => {
+      const categories = [{ name: 'Q&A', slug: 'q-a' }, { name: 'Ideas', slug: 'ideas' }];
+      expect(findTemplateCategory('ideas.yml', categories)?.name).toBe('Ideas');
+      expect(findTemplateCategory('q-a.yaml', categories)?.name).toBe('Q&A');
+      expect(findTemplateCategory('Ideas.yml', categories)).toBeUndefined();
+    });
+  });
+
+  describe('hasFormFields', () => {
+    it('markdown のみのフォームは入力項目がないと判定する', () => {
+      expect(hasFormFields({ labels: [], body: [element({ type: 'markdown', label: '' })] })).toBe(false);
+      expect(hasFormFields({ labels: [], body: [element({})] })).toBe(true);
+    });
+  });
+
+  describe('Property-Based Tests', () => {
+    it('入力項目ごとに1つのセクションを出力する', () => {
+      const lineArbitrary = fc.string({ minLength: 1, maxLength: 20 }).filter(s => !/[\r\n#]/.test(s) && s.trim() === s);
+      fc.assert(
+        fc.property(
+          fc.array(fc.tuple(lineArbitrary, fc.string({ maxLength: 20 }).filter(s => !/[\r\n#]/.test(s))), { maxLength: 6 }),
+          (fields) => {
+            const form: DiscussionForm = { labels: [], body: fields.map(([label]) => element({ label })) };
+            const body = formatFormAnswers(form, fields.map(([, answer]) => answer));
+            const headings = body.split('\n').filter(line => line.startsWith('### '));
+
+            expect(headings).toEqual(fields.map(([label]) => `### ${label}`));
+            expect(validateFormAnswers(form, fields.map(([, answer]) => answer))).toEqual([]);
+          }
+        )
+      );
+    });
+  });
+});
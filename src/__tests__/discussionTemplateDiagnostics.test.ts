@@ -0,0 +1,113 @@
+/**
+ * Discussion Template Diagnostics Tests
+ * Requirements: 40.1, 40.2 - Template validation, 45.2 - Multiple repositories
+ */
+
+import * as vscode from 'vscode';
+import { DiscussionTemplateDiagnostics } from '../providers/discussionTemplateDiagnostics';
+import { GitHubService } from '../services/githubService';
+import { DiscussionCategory } from '../models';
+
+describe('DiscussionTemplateDiagnostics', () => {
+  let diagnostics: DiscussionTemplateDiagnostics;
+  let mockGitHubService: jest.Mocked<GitHubService>;
+
+  const categories: DiscussionCategory[] = [
+    { id: 'C_1', name: 'Ideas', description: 'Ideas', emoji: ':bulb:', isAnswerable: false, slug: 'ideas' },
+    { id: 'C_2', name: 'Q&A', description: 'Questions', emoji: ':pray:', isAnswerable: true, slug: 'q-a' }
+  ];
+
+  const document = (path: string, text: string) => ({
+    uri: vscode.Uri.parse(`file:${path}`),
+    getText: () => text
+  }) as unknown as vscode.TextDocument;
+
+  const getCollection = () =>
+    (vscode.languages.createDiagnosticCollection as jest.Mock).mock.results[0].value;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGitHubService = {
+      getDiscussionCategories: jest.fn().mockResolvedValue(categories)
+    } as unknown as jest.Mocked<GitHubService>;
+    diagnostics = new DiscussionTemplateDiagnostics(mockGitHubService);
+  });
+
+  afterEach(() => {
+    diagnostics.dispose();
+  });
+
+  it('should recognize template files only in .github/DISCUSSION_TEMPLATE', () => {
+    expect(DiscussionTemplateDiagnostics.isTemplate(vscode.Uri.parse('file:/repo/.github/DISCUSSION_TEMPLATE/ideas.yml'))).toBe(true);
+    expect(DiscussionTemplateDiagnostics.isTemplate(vscode.Uri.parse('file:/repo/.github/DISCUSSION_TEMPLATE/q-a.yaml'))).toBe(true);
+    expect(DiscussionTemplateDiagnostics.isTemplate(vscode.Uri.parse('file:/repo/.github/ISSUE_TEMPLATE/bug.yml'))).toBe(false);
+  });
+
+  it('should report schema errors on their lines (Requirement 40.1)', async () => {
+    await diagnostics.validateDocument(document('/repo/.github/DISCUSSION_TEMPLATE/ideas.yml', [
+      'body:',
+      '  - type: slider',
+      '  - type: dropdown',
+      '    attributes:',
+      '      label: Area'
+    ].join('\n')));
+
+    const [, reported] = getCollection().set.mock.calls[0];
+    expect(reported.map((d: vscode.Diagnostic) => d.message)).toEqual([
+      'Unknown element type "slider" (expected one of markdown, input, textarea, dropdown, checkboxes)',
+      'Body element 2 (dropdown) has no options'
+    ]);
+    expect(reported.map((d: { range: { startLine: number } }) => d.range.startLine)).toEqual([1, 3]);
+    expect(reported[0].severity).toBe(vscode.DiagnosticSeverity.Error);
+  });
+
+  it('should report YAML syntax errors from their column', async () => {
+    await diagnostics.validateDocument(document('/repo/.github/DISCUSSION_TEMPLATE/ideas.yml', 'body: []\nlabels: [a, b]]'));
+
+    const [, [reported]] = getCollection().set.mock.calls[0];
+    expect(reported.message).toMatch(/^Invalid YAML: /);
+    expect(reported.range).toMatchObject({ startLine: 1, startCharacter: 14, endCharacter: 15 });
+  });
+
+  it('should warn when the file name matches no category slug (Requirement 40.2)', async () => {
+    await diagnostics.validateDocument(document('/repo/.github/DISCUSSION_TEMPLATE/questions.yml', 'body:\n  - type: input\n    attributes:\n      label: Question'));
+
+    const [, reported] = getCollection().set.mock.calls[0];
+    expect(reported).toHaveLength(1);
+    expect(reported[0].message).toBe('"questions.yml" does not match any discussion category slug (available: ideas, q-a)');
+    expect(reported[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+  });
+
+  it('should skip the slug check until categories can be read', async () => {
+    mockGitHubService.getDiscussionCategories.mockResolvedValueOnce([]);
+
+    await diagnostics.validateDocument(document('/repo/.github/DISCUSSION_TEMPLATE/questions.yml', 'body: []'));
+    await diagnostics.validateDocument(document('/repo/.github/DISCUSSION_TEMPLATE/questions.yml', 'body: []'));
+
+    expect(getCollection().set.mock.calls[0][1]).toEqual([]);
+    expect(getCollection().set.mock.calls[1][1]).toHaveLength(1);
+    expect(mockGitHubService.getDiscussionCategories).toHaveBeenCalledTimes(2);
+  });
+
+  it('should check file names against the repository of the template (Requirement 45.2)', async () => {
+    diagnostics.dispose();
+    const apiService = {
+      getDiscussionCategories: jest.fn().mockResolvedValue([{ ...categories[0], id: 'C_3', name: 'Questions', slug: 'questions' }])
+    } as unknown as jest.Mocked<GitHubService>;
+    diagnostics = new DiscussionTemplateDiagnostics(uri => uri.path.startsWith('/api/') ? apiService : undefined);
+
+    await diagnostics.validateDocument(document('/api/.github/DISCUSSION_TEMPLATE/questions.yml', 'body: []'));
+    await diagnostics.validateDocument(document('/notes/.github/DISCUSSION_TEMPLATE/questions.yml', 'body: []'));
+
+    const collection = (vscode.languages.createDiagnosticCollection as jest.Mock).mock.results[1].value;
+    expect(collection.set.mock.calls[0][1]).toEqual([]);
+    expect(collection.set.mock.calls[1][1]).toEqual([]);
+    expect(apiService.getDiscussionCategories).toHaveBeenCalledTimes(1);
+    expect(mockGitHubService.getDiscussionCategories).not.toHaveBeenCalled();
+  });
+
+  it('should ignore other documents', async () => {
+    await diagnostics.validateDocument(document('/repo/README.md', '# Readme'));
+    expect(getCollection().set).not.toHaveBeenCalled();
+  });
+});
@@ -23,6 +23,9 @@ describe('DiscussionsProvider', () => {
     avatarUrl: 'https://github.com/testuser.png'
   };
 
+  /** Category nodes at the root, without the smart views listed after them */
+  const categoriesOf = (items: DiscussionTreeItem[] | undefined) => items!.filter(item => item.itemType === 'category');
+
   const mockCategories: DiscussionCategory[] = [
     {
       id: 'C_1',
@@ -129,6 +132,11 @@ describe('DiscussionsProvider', () => {
       getDiscussionSummaries: getDiscussionSummariesMock,
       getDiscussion: jest.fn().mockResolvedValue(mockDiscussionSummaries[0]),
       getDiscussionCategories: jest.fn().mockResolvedValue(mockCategories),
+      getPinnedDiscussions: jest.fn().mockResolvedValue([]),
+      searchDiscussionSummaries: jest.fn().mockResolvedValue({
+        discussions: [],
+        pageInfo: { hasNextPage: false, endCursor: null }
+      }),
       createDiscussion: jest.fn(),
       updateDiscussion: jest.fn(),
       addComment: jest.fn(),
@@ -359,7 +367,7 @@ describe('DiscussionsProvider', () => {
       it('should return empty results for non-matching query', async () => {
         provider.setSearchQuery('nonexistent');
 
-        const rootChildren = await provider.getChildren();
+        const rootChildren = categoriesOf(await provider.getChildren());
         // All categories should show empty message
         for (const category of rootChildren!) {
           const discussions = await provider.getChildren(category);
@@ -384,7 +392,7 @@ describe('DiscussionsProvider', () => {
       it('should filter by single category', async () => {
         provider.setCategoryFilter(['C_1']); // General only
 
-        const rootChildren = await provider.getChildren();
+        const rootChildren = categoriesOf(await provider.getChildren());
 
         expect(rootChildren!.length).toBe(1);
         expect(rootChildren![0].label).toBe('General');
@@ -393,7 +401,7 @@ describe('DiscussionsProvider', () => {
       it('should filter by multiple categories', async () => {
         provider.setCategoryFilter(['C_1', 'C_2']); // General and Q&A
 
-        const rootChildren = await provider.getChildren();
+        const rootChildren = categoriesOf(await provider.getChildren());
 
         expect(rootChildren!.length).toBe(2);
         const names = rootChildren!.map(item => item.label);
@@ -405,7 +413,7 @@ describe('DiscussionsProvider', () => {
       it('should show all categories when filter is empty', async () => {
         provider.setCategoryFilter([]);
 
-        const rootChildren = await provider.getChildren();
+        const rootChildren = categoriesOf(await provider.getChildren());
 
         expect(rootChildren!.length).toBe(3);
       });
@@ -414,7 +422,7 @@ describe('DiscussionsProvider', () => {
         provider.setCategoryFilter(['C_1']);
         provider.clearFilters();
 
-        const rootChildren = await provider.getChildren();
+        const rootChildren = categoriesOf(await provider.getChildren());
 
         expect(rootChildren!.length).toBe(3);
       });
@@ -445,7 +453,7 @@ describe('DiscussionsProvider', () => {
       it('should show all when filter is "all"', async () => {
         provider.setAnsweredFilter('all');
 
-        const rootChildren = await provider.getChildren();
+        const rootChildren = categoriesOf(await provider.getChildren());
         let totalDiscussions = 0;
         for (const category of rootChildren!) {
           const discussions = await provider.getChildren(category);
@@ -461,7 +469,7 @@ describe('DiscussionsProvider', () => {
         provider.setSearchQuery('Discussion');
         provider.setCategoryFilter(['C_1']);
 
-        const rootChildren = await provider.getChildren();
+        const rootChildren = categoriesOf(await provider.getChildren());
         expect(rootChildren!.length).toBe(1); // Only General
 
         const discussions = await provider.getChildren(rootChildren![0]);
@@ -482,6 +490,117 @@ describe('DiscussionsProvider', () => {
     });
   });
 
+  describe('Filter state (Requirement 35)', () => {
+    let mockStorageService: { getData: jest.Mock; storeData: jest.Mock };
+
+    beforeEach(() => {
+      mockStorageService = {
+        getData: jest.fn().mockResolvedValue(undefined),
+        storeData: jest.fn().mockResolvedValue(undefined)
+      };
+      provider = new DiscussionsProvider(mockGitHubService, mockAuthService, mockStorageService as any);
+    });
+
+    it('should describe active filters and fire filter events (Requirement 35.2)', async () => {
+      const listener = jest.fn();
+      provider.onDidChangeFilters(listener);
+      expect(provider.describeFilters()).toBeUndefined();
+      expect(provider.hasActiveFilters()).toBe(false);
+
+      provider.setSearchQuery(' API ');
+      provider.setCategoryFilter(['C_1', 'C_2']);
+      provider.setLabelFilter(['L_1']);
+      provider.setAnsweredFilter('unanswered');
+
+      expect(listener).toHaveBeenLastCalledWith({
+        searchQuery: 'API',
+        categoryIds: ['C_1', 'C_2'],
+        labelIds: ['L_1'],
+        answered: 'unanswered'
+      });
+      expect(provider.hasActiveFilters()).toBe(true);
+      expect(provider.describeFilters()).toBe('Filtered: "API" · 2 categories · 1 label · Unanswered');
+
+      // Category names are used once categories are loaded
+      await provider.getChildren();
+      expect(provider.describeFilters()).toBe('Filtered: "API" · General, Q&A · 1 label · Unanswered');
+    });
+
+    it('should save filters whenever they change (Requirement 35.3)', () => {
+      provider.setAnsweredFilter('answered');
+      provider.clearFilters();
+
+      expect(mockStorageService.storeData).toHaveBeenNthCalledWith(1, 'discussion-filters', expect.objectContaining({ answered: 'answered' }));
+      expect(mockStorageService.storeData).toHaveBeenLastCalledWith('discussion-filters', {
+        searchQuery: '',
+        categoryIds: [],
+        labelIds: [],
+        answered: 'all'
+      });
+      expect(provider.hasActiveFilters()).toBe(false);
+    });
+
+    it('should scope saved filters to the workspace folder', () => {
+      const workspace = vscode.workspace as { workspaceFolders: unknown };
+      const originalFolders = workspace.workspaceFolders;
+      workspace.workspaceFolders = [{ uri: vscode.Uri.parse('file:///work/repo'), name: 'repo', index: 0 }];
+
+      try {
+        provider.setSearchQuery('api');
+        expect(mockStorageService.storeData.mock.calls[0][0]).toMatch(/^discussion-filters:.*repo/);
+      } finally {
+        workspace.workspaceFolders = originalFolders;
+      }
+    });
+
+    it('should move the state stored before it was kept per repository once (Requirement 45.3)', async () => {
+      const stored = new Map<string, unknown>([
+        ['discussion-filters', { searchQuery: 'api' }],
+        ['group-by', 'author'],
+        ['group-by:owner/api', 'label']
+      ]);
+      const storageService = {
+        getData: jest.fn(async (key: string) => stored.get(key)),
+        storeData: jest.fn(async (key: string, data: unknown) => { stored.set(key, data); }),
+        clearData: jest.fn(async (key: string) => { stored.delete(key); })
+      };
+      const repositoryProvider = new DiscussionsProvider(mockGitHubService, mockAuthService, storageService as any, { owner: 'owner', name: 'api' });
+
+      await repositoryProvider.migrateUnscopedState();
+
+      // State already kept for the repository is not replaced
+      expect([...stored.entries()]).toEqual([
+        ['group-by:owner/api', 'label'],
+        ['discussion-filters:owner/api', { searchQuery: 'api' }]
+      ]);
+      repositoryProvider.dispose();
+    });
+
+    it('should keep the filters of each repository apart (Requirement 45.3)', () => {
+      const repositoryProvider = new DiscussionsProvider(mockGitHubService, mockAuthService, mockStorageService as any, { owner: 'owner', name: 'api' });
+
+      repositoryProvider.setSearchQuery('api');
+
+      expect(mockStorageService.storeData.mock.calls[0][0]).toBe('discussion-filters:owner/api');
+      repositoryProvider.dispose();
+    });
+
+    it('should restore saved filters and apply them to the tree (Requirement 35.3)', async () => {
+      mockStorageService.getData.mockResolvedValue({ searchQuery: 'first', categoryIds: ['C_1'], labelIds: [], answered: 'all' });
+      const listener = jest.fn();
+      provider.onDidChangeFilters(listener);
+
+      await provider.restoreFilters();
+
+      expect(listener).toHaveBeenCalled();
+      const rootChildren = categoriesOf(await provider.getChildren());
+      expect(rootChildren!.map(item => item.label)).toEqual(['General']);
+      const discussions = await provider.getChildren(rootChildren![0]);
+      expect(discussions!.map(d => d.discussionSummary?.id)).toEqual(['D_1']);
+      expect(mockStorageService.storeData).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Property-Based Tests', () => {
     /**
      * Property 10: Search filter correctness
@@ -530,7 +649,7 @@ describe('DiscussionsProvider', () => {
           const testProvider = new DiscussionsProvider(mockGitHubService, mockAuthService);
 
           testProvider.setCategoryFilter([categoryId]);
-          const rootChildren = await testProvider.getChildren();
+          const rootChildren = categoriesOf(await testProvider.getChildren());
 
           for (const child of rootChildren!) {
             const treeItem = testProvider.getTreeItem(child);
@@ -684,7 +803,7 @@ describe('DiscussionsProvider', () => {
         const loadMoreItem = children!.find(item => item.contextValue === 'loadMore');
         expect(loadMoreItem!.command).toBeDefined();
         expect(loadMoreItem!.command!.command).toBe('github-discussions.loadMoreDiscussions');
-        expect(loadMoreItem!.command!.arguments).toEqual(['C_1']); // General category ID
+        expect(loadMoreItem!.command!.arguments).toEqual(['C_1', loadMoreItem]); // General category ID and the item, whose repository loads more
 
         testProvider.dispose();
       });
@@ -914,7 +1033,7 @@ describe('DiscussionsProvider', () => {
         const testProvider = new DiscussionsProvider(mockGitHubService, mockAuthService);
 
         // Get root children (categories)
-        const rootChildren = await testProvider.getChildren();
+        const rootChildren = categoriesOf(await testProvider.getChildren());
 
         // Should have fetched categories
         expect(mockGitHubService.getDiscussionCategories).toHaveBeenCalledTimes(1);
@@ -932,7 +1051,7 @@ describe('DiscussionsProvider', () => {
       it('should show categories with collapsed state', async () => {
         const testProvider = new DiscussionsProvider(mockGitHubService, mockAuthService);
 
-        const rootChildren = await testProvider.getChildren();
+        const rootChildren = categoriesOf(await testProvider.getChildren());
 
         for (const category of rootChildren!) {
           expect(category.collapsibleState).toBe(vscode.TreeItemCollapsibleState.Collapsed);
@@ -1282,4 +1401,823 @@ describe('DiscussionsProvider', () => {
       });
     });
   });
+
+  describe('Answer state updates (Requirement 23)', () => {
+    it('should update answered icon without reloading discussions (Requirement 23.5)', async () => {
+      const rootChildren = await provider.getChildren();
+      const qaCategory = rootChildren!.find(item => item.label === 'Q&A');
+      await provider.getChildren(qaCategory);
+      mockGitHubService.getDiscussionSummaries.mockClear();
+
+      const listener = jest.fn();
+      provider.onDidChangeTreeData(listener);
+
+      provider.setDiscussionAnswered('D_3', false);
+
+      const discussions = await provider.getChildren(qaCategory);
+      const question = discussions!.find(d => d.discussionSummary?.id === 'D_3');
+      expect(question!.discussionSummary!.isAnswered).toBe(false);
+      expect((question!.iconPath as any).id).toBe('question');
+      expect(listener).toHaveBeenCalled();
+      expect(mockGitHubService.getDiscussionSummaries).not.toHaveBeenCalled();
+    });
+
+    it('should not fire change event when state is unchanged', async () => {
+      const rootChildren = await provider.getChildren();
+      const qaCategory = rootChildren!.find(item => item.label === 'Q&A');
+      await provider.getChildren(qaCategory);
+
+      const listener = jest.fn();
+      provider.onDidChangeTreeData(listener);
+
+      provider.setDiscussionAnswered('D_3', true);
+      provider.setDiscussionAnswered('D_unknown', true);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Closed and locked discussions (Requirement 24)', () => {
+    it('should request only open discussions by default (Requirement 24.4)', async () => {
+      const rootChildren = await provider.getChildren();
+      await provider.getChildren(rootChildren![0]);
+
+      expect(mockGitHubService.getDiscussionSummaries).toHaveBeenCalledWith(
+        expect.objectContaining({ categoryId: 'C_1', states: ['OPEN'] })
+      );
+      expect(provider.isShowingClosed()).toBe(false);
+    });
+
+    it('should reload categories with closed states when toggled on (Requirement 24.4)', async () => {
+      const rootChildren = await provider.getChildren();
+      await provider.getChildren(rootChildren![0]);
+      mockGitHubService.getDiscussionSummaries.mockClear();
+
+      const listener = jest.fn();
+      provider.onDidChangeTreeData(listener);
+
+      provider.setShowClosed(true);
+      expect(listener).toHaveBeenCalled();
+      expect(provider.getCategoryLoadState('C_1')).toBe('not_loaded');
+
+      await provider.getChildren(rootChildren![0]);
+      expect(mockGitHubService.getDiscussionSummaries).toHaveBeenCalledWith(
+        expect.objectContaining({ categoryId: 'C_1', states: ['OPEN', 'CLOSED'] })
+      );
+    });
+
+    it('should not fire change event when toggle value is unchanged', () => {
+      const listener = jest.fn();
+      provider.onDidChangeTreeData(listener);
+
+      provider.setShowClosed(false);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should show distinct icon, label and contextValue for closed and locked items (Requirement 24.5)', () => {
+      const closedLocked = new DiscussionTreeItem(
+        'Closed',
+        vscode.TreeItemCollapsibleState.None,
+        'discussion',
+        { ...mockDiscussionSummaries[0], closed: true, locked: true }
+      );
+      expect(closedLocked.contextValue).toBe('discussion.closed.locked');
+      expect(closedLocked.description).toBe('#1 · Closed · Locked');
+      expect((closedLocked.iconPath as any).id).toBe('issue-closed');
+
+      const locked = new DiscussionTreeItem(
+        'Locked',
+        vscode.TreeItemCollapsibleState.None,
+        'discussion',
+        { ...mockDiscussionSummaries[0], locked: true }
+      );
+      expect(locked.contextValue).toBe('discussion.locked');
+      expect(locked.description).toBe('#1 · Locked');
+      expect((locked.iconPath as any).id).toBe('lock');
+    });
+
+    it('should remove a closed discussion when closed discussions are hidden (Requirement 24.5)', async () => {
+      const rootChildren = await provider.getChildren();
+      await provider.getChildren(rootChildren![0]);
+
+      provider.setDiscussionState('D_1', { closed: true, locked: false });
+
+      const discussions = await provider.getChildren(rootChildren![0]);
+      expect(discussions!.map(d => d.discussionSummary?.id)).toEqual(['D_2']);
+    });
+
+    it('should update a closed discussion in place when closed discussions are shown', async () => {
+      provider.setShowClosed(true);
+      const rootChildren = await provider.getChildren();
+      await provider.getChildren(rootChildren![0]);
+
+      provider.setDiscussionState('D_1', { closed: true, locked: true });
+
+      const discussions = await provider.getChildren(rootChildren![0]);
+      const closed = discussions!.find(d => d.discussionSummary?.id === 'D_1');
+      expect(closed!.contextValue).toBe('discussion.closed.locked');
+    });
+  });
+
+  describe('Poll discussions (Requirement 41)', () => {
+    it('should show a poll icon and tooltip line for discussions with a poll (Requirement 41.4)', () => {
+      const poll = new DiscussionTreeItem(
+        'Poll',
+        vscode.TreeItemCollapsibleState.None,
+        'discussion',
+        { ...mockDiscussionSummaries[0], hasPoll: true }
+      );
+      expect((poll.iconPath as any).id).toBe('graph');
+      expect(poll.tooltip).toContain('\nPoll');
+
+      const closedPoll = new DiscussionTreeItem(
+        'Closed poll',
+        vscode.TreeItemCollapsibleState.None,
+        'discussion',
+        { ...mockDiscussionSummaries[0], hasPoll: true, closed: true }
+      );
+      expect((closedPoll.iconPath as any).id).toBe('issue-closed');
+    });
+  });
+
+  describe('Deleted discussions (Requirement 25)', () => {
+    it('should remove a deleted discussion without reloading (Requirement 25.4)', async () => {
+      const rootChildren = await provider.getChildren();
+      await provider.getChildren(rootChildren![0]);
+      mockGitHubService.getDiscussionSummaries.mockClear();
+
+      provider.removeDiscussion('D_2');
+
+      const discussions = await provider.getChildren(rootChildren![0]);
+      expect(discussions!.map(d => d.discussionSummary?.id)).toEqual(['D_1']);
+      expect(mockGitHubService.getDiscussionSummaries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Category changes (Requirement 27)', () => {
+    it('should move a discussion between loaded categories without reloading (Requirement 27.3)', async () => {
+      const rootChildren = await provider.getChildren();
+      const general = rootChildren!.find(item => item.label === 'General');
+      const qa = rootChildren!.find(item => item.label === 'Q&A');
+      await provider.getChildren(general);
+      await provider.getChildren(qa);
+      mockGitHubService.getDiscussionSummaries.mockClear();
+
+      provider.moveDiscussion('D_1', mockCategories[1], false);
+
+      const generalItems = await provider.getChildren(general);
+      const qaItems = await provider.getChildren(qa);
+      expect(generalItems!.map(d => d.discussionSummary?.id)).toEqual(['D_2']);
+      expect(qaItems!.map(d => d.discussionSummary?.id)).toEqual(['D_1', 'D_3']);
+      expect(mockGitHubService.getDiscussionSummaries).not.toHaveBeenCalled();
+    });
+
+    it('should refresh the answered icon for the new category (Requirement 27.4)', async () => {
+      const rootChildren = await provider.getChildren();
+      const general = rootChildren!.find(item => item.label === 'General');
+      const qa = rootChildren!.find(item => item.label === 'Q&A');
+      await provider.getChildren(general);
+      await provider.getChildren(qa);
+
+      provider.moveDiscussion('D_1', mockCategories[1], false);
+
+      const qaItems = await provider.getChildren(qa);
+      const moved = qaItems!.find(d => d.discussionSummary?.id === 'D_1');
+      expect((moved!.iconPath as any).id).toBe('question');
+    });
+
+    it('should leave an unloaded target category to be fetched on expand', async () => {
+      const rootChildren = await provider.getChildren();
+      const general = rootChildren!.find(item => item.label === 'General');
+      await provider.getChildren(general);
+
+      provider.moveDiscussion('D_1', mockCategories[2], false);
+
+      expect(provider.getCategoryLoadState('C_3')).toBe('not_loaded');
+      const generalItems = await provider.getChildren(general);
+      expect(generalItems!.map(d => d.discussionSummary?.id)).toEqual(['D_2']);
+    });
+  });
+
+  describe('Labels (Requirement 34)', () => {
+    const needsDesign = { id: 'L_1', name: 'needs-design', color: 'a2eeef' };
+    const blocked = { id: 'L_2', name: 'blocked', color: 'b60205' };
+
+    beforeEach(() => {
+      mockGitHubService.getDiscussionSummaries.mockImplementation(async (options?: { categoryId?: string }) => ({
+        discussions: mockDiscussionSummaries
+          .filter(d => d.category.id === options?.categoryId)
+          .map(d => d.id === 'D_1' ? { ...d, labels: [needsDesign, blocked] } : { ...d, labels: [] }),
+        pageInfo: { hasNextPage: false, endCursor: null }
+      }));
+    });
+
+    it('should show label names in the description and tooltip (Requirement 34.3)', () => {
+      const item = new DiscussionTreeItem(
+        'Labeled',
+        vscode.TreeItemCollapsibleState.None,
+        'discussion',
+        { ...mockDiscussionSummaries[0], closed: true, labels: [needsDesign, blocked] }
+      );
+
+      expect(item.description).toBe('#1 · Closed · needs-design · blocked');
+      expect(item.tooltip).toContain('Labels: needs-design, blocked');
+    });
+
+    it('should show only discussions with any of the filtered labels (Requirement 34.4)', async () => {
+      provider.setLabelFilter(['L_2', 'L_3']);
+
+      const rootChildren = await provider.getChildren();
+      const discussions = await provider.getChildren(rootChildren![0]);
+
+      expect(discussions!.map(d => d.discussionSummary?.id)).toEqual(['D_1']);
+      expect(provider.getLabelFilter()).toEqual(['L_2', 'L_3']);
+    });
+
+    it('should clear the label filter with the other filters', async () => {
+      provider.setLabelFilter(['L_2']);
+      provider.clearFilters();
+
+      const rootChildren = await provider.getChildren();
+      const discussions = await provider.getChildren(rootChildren![0]);
+
+      expect(discussions!.map(d => d.discussionSummary?.id)).toEqual(['D_1', 'D_2']);
+      expect(provider.getLabelFilter()).toEqual([]);
+    });
+
+    it('should update labels of a loaded discussion without reloading (Requirement 34.5)', async () => {
+      const rootChildren = await provider.getChildren();
+      await provider.getChildren(rootChildren![0]);
+      mockGitHubService.getDiscussionSummaries.mockClear();
+
+      provider.setDiscussionLabels('D_2', [blocked]);
+      provider.setLabelFilter(['L_2']);
+
+      const discussions = await provider.getChildren(rootChildren![0]);
+      expect(discussions!.map(d => d.discussionSummary?.id)).toEqual(['D_1', 'D_2']);
+      expect(discussions![1].description).toBe('#2 · blocked');
+      expect(mockGitHubService.getDiscussionSummaries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Pinned discussions (Requirement 42)', () => {
+    const pinnedDiscussions = [
+      {
+        discussion: { ...mockDiscussionSummaries[3], pinned: true },
+        pattern: 'ZAP' as const,
+        gradientStopColors: [],
+        preconfiguredGradient: 'RED_ORANGE' as const
+      },
+      {
+        discussion: { ...mockDiscussionSummaries[0], pinned: true },
+        pattern: 'HEART_FILL' as const,
+        gradientStopColors: ['#3b82f6', '#22c55e']
+      }
+    ];
+
+    beforeEach(() => {
+      mockGitHubService.getPinnedDiscussions.mockResolvedValue(pinnedDiscussions);
+    });
+
+    it('should show a Pinned section above the categories (Requirement 42.1)', async () => {
+      const rootChildren = await provider.getChildren();
+
+      expect(rootChildren!.map(item => item.itemType).slice(0, 4)).toEqual(['pinned', 'category', 'category', 'category']);
+      expect(rootChildren![0].label).toBe('📌 Pinned');
+      expect(rootChildren![0].description).toBe('2');
+      expect(rootChildren![0].collapsibleState).toBe(vscode.TreeItemCollapsibleState.Expanded);
+    });
+
+    it('should list pinned discussions in order with their pin pattern and color (Requirement 42.2)', async () => {
+      const [section] = await provider.getChildren();
+      const pinned = await provider.getChildren(section);
+
+      expect(pinned!.map(item => item.discussionSummary?.id)).toEqual(['D_4', 'D_1']);
+      expect(pinned![0].iconPath).toEqual(new vscode.ThemeIcon('zap', new vscode.ThemeColor('charts.orange')));
+      expect(pinned![1].iconPath).toEqual(new vscode.ThemeIcon('heart-filled', new vscode.ThemeColor('charts.blue')));
+      expect(pinned![0].contextValue).toBe('discussion.pinned');
+    });
+
+    it('should mark pinned discussions in their category for the Unpin menu (Requirement 42.3)', async () => {
+      const rootChildren = await provider.getChildren();
+      const general = await provider.getChildren(rootChildren![1]);
+
+      expect(general!.map(item => item.contextValue)).toEqual(['discussion.pinned', 'discussion']);
+    });
+
+    it('should apply the closed toggle and filters to the Pinned section', async () => {
+      await provider.getChildren();
+      provider.setDiscussionState('D_4', { closed: true, locked: false });
+      provider.setSearchQuery('nothing matches');
+
+      const rootChildren = await provider.getChildren();
+      expect(rootChildren!.map(item => item.itemType)).not.toContain('pinned');
+
+      provider.setSearchQuery('');
+      const [section] = await provider.getChildren();
+      expect((await provider.getChildren(section))!.map(item => item.discussionSummary?.id)).toEqual(['D_1']);
+    });
+
+    it('should leave the section out when pinned discussions cannot be loaded', async () => {
+      mockGitHubService.getPinnedDiscussions.mockRejectedValue(new Error('API error'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const rootChildren = await provider.getChildren();
+
+      expect(rootChildren!.map(item => item.itemType)).not.toContain('pinned');
+      expect(categoriesOf(rootChildren)).toHaveLength(3);
+    });
+  });
+
+  describe('Smart views (Requirement 43)', () => {
+    let mockStorageService: { getData: jest.Mock; storeData: jest.Mock };
+
+    const smartViewsOf = async (target: DiscussionsProvider) =>
+      (await target.getChildren())!.filter(item => item.itemType === 'smartView' || item.itemType === 'savedSearch');
+
+    beforeEach(() => {
+      mockStorageService = {
+        getData: jest.fn().mockResolvedValue(undefined),
+        storeData: jest.fn().mockResolvedValue(undefined)
+      };
+      provider = new DiscussionsProvider(mockGitHubService, mockAuthService, mockStorageService as any);
+    });
+
+    it('should list the built-in smart views after the categories (Requirement 43.1)', async () => {
+      const rootChildren = await provider.getChildren();
+
+      expect(rootChildren!.map(item => item.itemType)).toEqual([
+        'category', 'category', 'category', 'smartView', 'smartView', 'smartView', 'smartView'
+      ]);
+      expect(rootChildren!.slice(3).map(item => item.label)).toEqual([
+        'Created by me', 'Participating', 'Mentioning me', 'Unanswered, opened > 7 days ago'
+      ]);
+      expect(mockGitHubService.searchDiscussionSummaries).not.toHaveBeenCalled();
+    });
+
+    it('should search for the current user when a smart view is expanded (Requirement 43.2)', async () => {
+      mockGitHubService.searchDiscussionSummaries.mockResolvedValueOnce({
+        discussions: [mockDiscussionSummaries[0]],
+        pageInfo: { hasNextPage: true, endCursor: 'cursor1' }
+      });
+      const [created, participating, mentioning, unanswered] = await smartViewsOf(provider);
+
+      const discussions = await provider.getChildren(created);
+      await provider.getChildren(participating);
+      await provider.getChildren(mentioning);
+      await provider.getChildren(unanswered);
+
+      expect(discussions!.map(d => d.discussionSummary?.id ?? d.itemType)).toEqual(['D_1', 'loadMore']);
+      expect(mockGitHubService.searchDiscussionSummaries.mock.calls.map(call => call[0])).toEqual([
+        'author:testuser is:open sort:created',
+        'involves:testuser is:open sort:created',
+        'mentions:testuser is:open sort:created',
+        expect.stringMatching(/^is:unanswered created:<\d{4}-\d{2}-\d{2} is:open sort:created$/)
+      ]);
+      expect((await smartViewsOf(provider))[0].description).toBe('1+');
+    });
+
+    it('should load more smart view results through the Load more item (Requirement 43.3)', async () => {
+      mockGitHubService.searchDiscussionSummaries
+        .mockResolvedValueOnce({ discussions: [mockDiscussionSummaries[0]], pageInfo: { hasNextPage: true, endCursor: 'cursor1' } })
+        .mockResolvedValueOnce({ discussions: [mockDiscussionSummaries[2]], pageInfo: { hasNextPage: false, endCursor: null } });
+      const [created] = await smartViewsOf(provider);
+      const [, loadMore] = (await provider.getChildren(created))!;
+
+      await provider.loadMoreForCategory(loadMore.categoryId!);
+
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenLastCalledWith(
+        'author:testuser is:open sort:created',
+        expect.objectContaining({ after: 'cursor1' })
+      );
+      const discussions = await provider.getChildren(created);
+      expect(discussions!.map(d => d.discussionSummary?.id)).toEqual(['D_1', 'D_3']);
+      expect(mockGitHubService.getDiscussionSummaries).not.toHaveBeenCalled();
+    });
+
+    it('should reload smart views in the new order when the sort mode changes (Requirement 37.3)', async () => {
+      await provider.saveSearch({ name: 'Top bugs', query: 'label:bug sort:reactions' });
+      const views = await smartViewsOf(provider);
+      await provider.getChildren(views[0]);
+
+      provider.setSortMode('comments');
+      await provider.getChildren(views[0]);
+      await provider.getChildren(views[views.length - 1]);
+
+      expect(mockGitHubService.searchDiscussionSummaries.mock.calls.map(call => call[0])).toEqual([
+        'author:testuser is:open sort:created',
+        'author:testuser is:open sort:comments',
+        'label:bug sort:reactions'
+      ]);
+    });
+
+    it('should include closed discussions when they are shown', async () => {
+      provider.setShowClosed(true);
+      const [created] = await smartViewsOf(provider);
+
+      await provider.getChildren(created);
+
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenCalledWith('author:testuser sort:created', expect.anything());
+    });
+
+    it('should save, run and remove saved searches in workspace state (Requirement 43.4)', async () => {
+      await provider.saveSearch({ name: 'Bugs', query: 'label:bug is:open' });
+
+      expect(mockStorageService.storeData).toHaveBeenLastCalledWith('saved-searches', [{ name: 'Bugs', query: 'label:bug is:open' }]);
+      const saved = (await smartViewsOf(provider)).pop()!;
+      expect(saved.itemType).toBe('savedSearch');
+      expect(saved.label).toBe('Bugs');
+      await provider.getChildren(saved);
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenCalledWith('label:bug is:open sort:created', expect.anything());
+
+      await provider.saveSearch({ name: 'Bugs', query: 'label:bug' });
+      expect(provider.getSavedSearches()).toEqual([{ name: 'Bugs', query: 'label:bug' }]);
+
+      await provider.removeSavedSearch('Bugs');
+      expect(provider.getSavedSearches()).toEqual([]);
+      expect(mockStorageService.storeData).toHaveBeenLastCalledWith('saved-searches', []);
+    });
+
+    it('should restore saved searches', async () => {
+      mockStorageService.getData.mockResolvedValue([{ name: 'Docs', query: 'label:docs' }]);
+
+      await provider.restoreSavedSearches();
+
+      expect(mockStorageService.getData).toHaveBeenCalledWith('saved-searches');
+      expect((await smartViewsOf(provider)).map(item => item.label)).toContain('Docs');
+    });
+  });
+
+  describe('Grouping modes (Requirement 44)', () => {
+    const octocat: User = { id: '456', login: 'Octocat', name: 'Octocat', avatarUrl: 'https://github.com/octocat.png' };
+    const bug = { id: 'L_1', name: 'bug', color: 'd73a4a' };
+    const docs = { id: 'L_2', name: 'docs', color: '0075ca' };
+    const allDiscussions: DiscussionSummary[] = [
+      { ...mockDiscussionSummaries[0], labels: [bug, docs] },
+      { ...mockDiscussionSummaries[1], author: octocat, updatedAt: new Date('2024-02-10T00:00:00Z') },
+      { ...mockDiscussionSummaries[2], labels: [docs] },
+      { ...mockDiscussionSummaries[3], author: octocat }
+    ];
+
+    const groupsOf = async () => {
+      const rootChildren = await provider.getChildren();
+      return rootChildren!.filter(item => item.itemType === 'group');
+    };
+    const searchReturns = (discussions: DiscussionSummary[], endCursor: string | null = null) =>
+      mockGitHubService.searchDiscussionSummaries.mockResolvedValueOnce({
+        discussions,
+        pageInfo: { hasNextPage: endCursor !== null, endCursor }
+      });
+    const idsOf = (items: DiscussionTreeItem[] | undefined) =>
+      items!.filter(item => item.itemType === 'discussion').map(d => d.discussionSummary?.id);
+
+    beforeEach(() => {
+      mockGitHubService.getDiscussionSummaries.mockResolvedValue({
+        discussions: allDiscussions,
+        pageInfo: { hasNextPage: false, endCursor: null }
+      });
+    });
+
+    it('should group by category by default without loading the repository list', async () => {
+      await provider.getChildren();
+
+      expect(provider.getGroupBy()).toBe('category');
+      expect(mockGitHubService.getDiscussionSummaries).not.toHaveBeenCalled();
+    });
+
+    it('should group loaded discussions by author (Requirement 44.1, 44.2)', async () => {
+      provider.setGroupBy('author');
+
+      const groups = await groupsOf();
+
+      expect(mockGitHubService.getDiscussionSummaries).toHaveBeenCalledWith(
+        expect.objectContaining({ categoryId: undefined, states: ['OPEN'] })
+      );
+      expect(groups.map(g => [g.label, g.description])).toEqual([['Octocat', undefined], ['testuser', undefined]]);
+      searchReturns([allDiscussions[1], allDiscussions[3]], 'cursor-1');
+      const discussions = await provider.getChildren(groups[0]);
+      expect(idsOf(discussions)).toEqual(['D_2', 'D_4']);
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenLastCalledWith(
+        'author:Octocat is:open sort:created',
+        expect.objectContaining({ after: undefined })
+      );
+      expect((await groupsOf())[0].description).toBe('2+');
+    });
+
+    it('should page each group through its own search (Requirement 44.3)', async () => {
+      provider.setGroupBy('author');
+      const [octocat] = await groupsOf();
+      searchReturns([allDiscussions[1]], 'cursor-1');
+      expect((await provider.getChildren(octocat))!.map(item => item.itemType)).toEqual(['discussion', 'loadMore']);
+
+      searchReturns([allDiscussions[3]]);
+      await provider.loadMoreForCategory(octocat.categoryId!);
+
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenLastCalledWith(
+        'author:Octocat is:open sort:created',
+        expect.objectContaining({ after: 'cursor-1' })
+      );
+      expect(idsOf(await provider.getChildren(octocat))).toEqual(['D_2', 'D_4']);
+      expect((await groupsOf())[0].description).toBe('2');
+      // The repository-wide list is not paged by the group
+      expect(mockGitHubService.getDiscussionSummaries).toHaveBeenCalledTimes(1);
+    });
+
+    it('should offer the next page when a group filters out the whole page (Requirement 44.3)', async () => {
+      provider.setGroupBy('answered');
+      const [, notAnswerable] = await groupsOf();
+      searchReturns([{ ...allDiscussions[2], isAnswered: false }], 'cursor-1');
+
+      const items = await provider.getChildren(notAnswerable);
+
+      expect(items!.map(item => item.itemType)).toEqual(['empty', 'loadMore']);
+    });
+
+    it('should list discussions under each of their labels and others under "No label"', async () => {
+      provider.setGroupBy('label');
+
+      const groups = await groupsOf();
+
+      expect(groups.map(g => g.label)).toEqual(['bug', 'docs', 'No label']);
+      searchReturns([allDiscussions[0], allDiscussions[2]]);
+      expect(idsOf(await provider.getChildren(groups[1]))).toEqual(['D_1', 'D_3']);
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenLastCalledWith('label:"docs" is:open sort:created', expect.anything());
+      searchReturns([allDiscussions[1]]);
+      await provider.getChildren(groups[2]);
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenLastCalledWith('no:label is:open sort:created', expect.anything());
+    });
+
+    it('should group by answered state and by month of last activity', async () => {
+      provider.setGroupBy('answered');
+      const answered = await groupsOf();
+      expect(answered.map(g => g.label)).toEqual(['Answered', 'Not answerable']);
+      // Search cannot tell the categories apart, so answerable ones are left out of "Not answerable"
+      searchReturns([{ ...allDiscussions[2], isAnswered: false }, allDiscussions[3]]);
+      expect(idsOf(await provider.getChildren(answered[1]))).toEqual(['D_4']);
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenLastCalledWith('is:unanswered is:open sort:created', expect.anything());
+
+      provider.setGroupBy('month');
+      const months = await groupsOf();
+      expect(months.map(g => g.label)).toEqual(['February 2024', 'January 2024']);
+      searchReturns([allDiscussions[1]]);
+      await provider.getChildren(months[0]);
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenLastCalledWith(
+        'updated:2024-02-01..2024-02-29 is:open sort:created',
+        expect.anything()
+      );
+
+      // Every mode other than category shares the loaded list
+      expect(mockGitHubService.getDiscussionSummaries).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply the category filter and other filters before grouping', async () => {
+      provider.setGroupBy('author');
+      provider.setCategoryFilter(['C_1']);
+      provider.setSearchQuery('second');
+
+      const groups = await groupsOf();
+
+      expect(groups.map(g => g.label)).toEqual(['Octocat']);
+      searchReturns([allDiscussions[1], allDiscussions[3]]);
+      expect(idsOf(await provider.getChildren(groups[0]))).toEqual(['D_2']);
+      expect((await groupsOf())[0].description).toBe('1');
+    });
+
+    it('should list discussions flat and load more through the Load more item (Requirement 44.3)', async () => {
+      mockGitHubService.getDiscussionSummaries
+        .mockResolvedValueOnce({ discussions: allDiscussions.slice(0, 2), pageInfo: { hasNextPage: true, endCursor: 'cursor1' } })
+        .mockResolvedValueOnce({ discussions: allDiscussions.slice(2), pageInfo: { hasNextPage: false, endCursor: null } });
+      provider.setGroupBy('flat');
+
+      let rootChildren = await provider.getChildren();
+      const loadMore = rootChildren!.find(item => item.itemType === 'loadMore')!;
+      expect(categoriesOf(rootChildren)).toEqual([]);
+      expect(rootChildren!.filter(item => item.itemType === 'discussion').map(d => d.discussionSummary?.id)).toEqual(['D_1', 'D_2']);
+
+      await provider.loadMoreForCategory(loadMore.categoryId!);
+
+      expect(mockGitHubService.getDiscussionSummaries).toHaveBeenLastCalledWith(expect.objectContaining({ after: 'cursor1' }));
+      rootChildren = await provider.getChildren();
+      expect(rootChildren!.filter(item => item.itemType === 'discussion').map(d => d.discussionSummary?.id)).toEqual(['D_1', 'D_2', 'D_3', 'D_4']);
+      expect(rootChildren!.map(item => item.itemType)).not.toContain('loadMore');
+    });
+
+    it('should keep grouped discussions in sync with tree updates', async () => {
+      provider.setGroupBy('answered');
+      await groupsOf();
+
+      provider.setDiscussionAnswered('D_3', false);
+      provider.setDiscussionState('D_1', { closed: true, locked: false });
+
+      expect((await groupsOf()).map(g => g.label)).toEqual(['Unanswered', 'Not answerable']);
+    });
+
+    it('should save and restore the grouping mode per workspace (Requirement 44.4)', async () => {
+      const mockStorageService = {
+        getData: jest.fn().mockResolvedValue('month'),
+        storeData: jest.fn().mockResolvedValue(undefined)
+      };
+      provider = new DiscussionsProvider(mockGitHubService, mockAuthService, mockStorageService as any);
+
+      await provider.restoreGroupBy();
+      expect(mockStorageService.getData).toHaveBeenCalledWith('group-by');
+      expect(provider.getGroupBy()).toBe('month');
+
+      provider.setGroupBy('category');
+      expect(mockStorageService.storeData).toHaveBeenCalledWith('group-by', 'category');
+      expect(categoriesOf(await provider.getChildren())).toHaveLength(3);
+    });
+  });
+
+  describe('Search Results (Requirement 36)', () => {
+    const searchResult = {
+      discussion: mockDiscussionSummaries[2],
+      textMatches: [{
+        property: 'body',
+        fragment: 'We chose\nGraphQL here',
+        highlights: [{ start: 9, end: 16 }]
+      }]
+    };
+
+    beforeEach(() => {
+      (mockGitHubService as any).searchDiscussions = jest.fn().mockResolvedValue({
+        totalCount: 1,
+        results: [searchResult],
+        pageInfo: { hasNextPage: false, endCursor: null }
+      });
+    });
+
+    it('should show a Search Results section above the categories (Requirement 36.3)', async () => {
+      await provider.searchDiscussions('GraphQL is:answered');
+
+      expect(mockGitHubService.searchDiscussions).toHaveBeenCalledWith('GraphQL is:answered', expect.anything());
+      const rootChildren = await provider.getChildren();
+      expect(rootChildren!.map(item => item.itemType).slice(0, 4)).toEqual(['searchResults', 'category', 'category', 'category']);
+      expect(rootChildren![0].description).toBe('"GraphQL is:answered" · 1');
+      expect(rootChildren![0].collapsibleState).toBe(vscode.TreeItemCollapsibleState.Expanded);
+      expect(provider.getSearchResultsQuery()).toBe('GraphQL is:answered');
+    });
+
+    it('should list results with highlighted snippets as children', async () => {
+      await provider.searchDiscussions('GraphQL');
+      const [section] = await provider.getChildren();
+
+      const results = await provider.getChildren(section);
+      expect(results!.map(r => r.discussionSummary?.id)).toEqual(['D_3']);
+      expect(results![0].collapsibleState).toBe(vscode.TreeItemCollapsibleState.Collapsed);
+
+      const matches = await provider.getChildren(results![0]);
+      expect(matches![0].itemType).toBe('searchMatch');
+      expect(matches![0].label).toEqual({ label: 'We chose GraphQL here', highlights: [[9, 16]] });
+      expect(matches![0].command?.command).toBe('github-discussions.editDiscussion');
+    });
+
+    it('should show empty and error states', async () => {
+      mockGitHubService.searchDiscussions
+        .mockResolvedValueOnce({ totalCount: 0, results: [], pageInfo: { hasNextPage: false, endCursor: null } })
+        .mockRejectedValueOnce(new Error('Search failed'));
+
+      await provider.searchDiscussions('nothing');
+      let [section] = await provider.getChildren();
+      expect((await provider.getChildren(section))!.map(i => i.label)).toEqual(['No matching discussions']);
+
+      await provider.searchDiscussions('broken');
+      [section] = await provider.getChildren();
+      expect((await provider.getChildren(section))![0].itemType).toBe('error');
+    });
+
+    it('should load more results from the end cursor (Requirement 14.3)', async () => {
+      const nextResult = { discussion: mockDiscussionSummaries[0], textMatches: [] };
+      mockGitHubService.searchDiscussions
+        .mockResolvedValueOnce({ totalCount: 2, results: [searchResult], pageInfo: { hasNextPage: true, endCursor: 'cursor-1' } })
+        .mockResolvedValueOnce({ totalCount: 2, results: [nextResult], pageInfo: { hasNextPage: false, endCursor: 'cursor-2' } });
+
+      await provider.searchDiscussions('many');
+      let [section] = await provider.getChildren();
+      const items = await provider.getChildren(section);
+      const loadMore = items![1];
+      expect(loadMore.itemType).toBe('loadMore');
+      expect(loadMore.command?.arguments?.[0]).toBeDefined();
+
+      await provider.loadMoreForCategory(loadMore.command!.arguments![0]);
+
+      expect(mockGitHubService.searchDiscussions).toHaveBeenLastCalledWith('many', expect.objectContaining({ after: 'cursor-1' }));
+      [section] = await provider.getChildren();
+      const results = await provider.getChildren(section);
+      expect(results!.map(r => r.discussionSummary?.id)).toEqual(['D_3', 'D_1']);
+    });
+
+    it('should keep results in sync with tree updates and clear them', async () => {
+      await provider.searchDiscussions('GraphQL');
+
+      provider.setDiscussionLabels('D_3', [{ id: 'L_1', name: 'blocked', color: 'b60205' }]);
+      let [section] = await provider.getChildren();
+      let results = await provider.getChildren(section);
+      expect(results![0].description).toBe('#3 · blocked');
+
+      provider.removeDiscussion('D_3');
+      [section] = await provider.getChildren();
+      results = await provider.getChildren(section);
+      expect(results!.map(i => i.label)).toEqual(['No matching discussions']);
+
+      provider.clearSearchResults();
+      const rootChildren = await provider.getChildren();
+      expect(rootChildren!.map(item => item.itemType)).not.toContain('searchResults');
+      expect(provider.getSearchResultsQuery()).toBeUndefined();
+    });
+
+    it('should re-run the search on refresh', async () => {
+      await provider.searchDiscussions('GraphQL');
+
+      provider.refresh();
+
+      expect(mockGitHubService.searchDiscussions).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Sort modes (Requirement 37)', () => {
+    it('should request newest first by default (Requirement 37.2)', async () => {
+      const rootChildren = await provider.getChildren();
+      await provider.getChildren(rootChildren![0]);
+
+      expect(provider.getSortMode()).toBe('newest');
+      expect(mockGitHubService.getDiscussionSummaries).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: { field: 'CREATED_AT', direction: 'DESC' } })
+      );
+    });
+
+    it('should reset loaded categories and reload with the new order (Requirement 37.3)', async () => {
+      const rootChildren = await provider.getChildren();
+      await provider.getChildren(rootChildren![0]);
+      mockGitHubService.getDiscussionSummaries.mockClear();
+      const listener = jest.fn();
+      provider.onDidChangeTreeData(listener);
+
+      provider.setSortMode('oldest');
+
+      expect(listener).toHaveBeenCalled();
+      expect(provider.getCategoryLoadState('C_1')).toBe('not_loaded');
+      await provider.getChildren(rootChildren![0]);
+      expect(mockGitHubService.getDiscussionSummaries).toHaveBeenCalledWith(
+        expect.objectContaining({ categoryId: 'C_1', orderBy: { field: 'CREATED_AT', direction: 'ASC' } })
+      );
+    });
+
+    it('should not reset categories when the sort mode is unchanged', async () => {
+      const rootChildren = await provider.getChildren();
+      await provider.getChildren(rootChildren![0]);
+
+      provider.setSortMode('newest');
+
+      expect(provider.getCategoryLoadState('C_1')).toBe('loaded');
+    });
+
+    it('should fetch most commented and top discussions through search in that order (Requirement 37.2)', async () => {
+      mockGitHubService.searchDiscussionSummaries.mockResolvedValue({
+        discussions: [mockDiscussionSummaries[1], mockDiscussionSummaries[0]],
+        pageInfo: { hasNextPage: true, endCursor: 'cursor-1' }
+      });
+      const rootChildren = await provider.getChildren();
+      const general = categoriesOf(rootChildren)[0];
+
+      provider.setSortMode('comments');
+      const discussions = await provider.getChildren(general);
+      expect(discussions!.filter(d => d.itemType === 'discussion').map(d => d.discussionSummary?.id)).toEqual(['D_2', 'D_1']);
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenLastCalledWith(
+        'category:"General" is:open sort:comments',
+        expect.objectContaining({ after: undefined })
+      );
+
+      await provider.loadMoreForCategory('C_1');
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenLastCalledWith(
+        'category:"General" is:open sort:comments',
+        expect.objectContaining({ after: 'cursor-1' })
+      );
+
+      provider.setShowClosed(true);
+      provider.setSortMode('top');
+      await provider.getChildren(general);
+      expect(mockGitHubService.searchDiscussionSummaries).toHaveBeenLastCalledWith(
+        'category:"General" sort:reactions-+1',
+        expect.anything()
+      );
+    });
+
+    it('should order top discussions by upvotes (Requirement 37.2)', async () => {
+      mockGitHubService.searchDiscussionSummaries.mockResolvedValue({
+        discussions: [
+          { ...mockDiscussionSummaries[0], upvoteCount: 1 },
+          { ...mockDiscussionSummaries[1], upvoteCount: 5 }
+        ],
+        pageInfo: { hasNextPage: false, endCursor: null }
+      });
+      const rootChildren = await provider.getChildren();
+
+      provider.setSortMode('top');
+      const discussions = await provider.getChildren(categoriesOf(rootChildren)[0]);
+
+      expect(discussions!.map(d => d.discussionSummary?.id)).toEqual(['D_2', 'D_1']);
+    });
+  });
 });
@@ -4,6 +4,8 @@
 
 import * as vscode from 'vscode';
 import { activate, deactivate } from '../extension';
+import { GitHubService } from '../services/githubService';
+import { DiscussionsProvider } from '../providers/discussionsProvider';
 
 describe('Extension', () => {
   let mockContext: vscode.ExtensionContext;
@@ -100,6 +102,54 @@ describe('Extension', () => {
     });
   });
 
+  describe('editLabels command (Requirement 34.5)', () => {
+    const bug = { id: 'L_1', name: 'bug', color: 'd73a4a' };
+    const docs = { id: 'L_2', name: 'docs', color: '0075ca' };
+
+    const editLabels = async () => {
+      await activate(mockContext);
+      const [, command] = (vscode.commands.registerCommand as jest.Mock).mock.calls
+        .find(([id]) => id === 'github-discussions.editLabels');
+      // bug is replaced with docs
+      (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([{ labelModel: docs }]);
+      await command({ discussionSummary: { id: 'D_1', number: 1, labels: [bug] } });
+    };
+
+    beforeEach(() => {
+      jest.spyOn(GitHubService.prototype, 'getRepositoryLabels').mockResolvedValue([bug, docs]);
+      jest.spyOn(GitHubService.prototype, 'addLabelsToDiscussion').mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should add and remove the changed labels', async () => {
+      jest.spyOn(GitHubService.prototype, 'removeLabelsFromDiscussion').mockResolvedValue(undefined);
+      const setLabels = jest.spyOn(DiscussionsProvider.prototype, 'setDiscussionLabels');
+
+      await editLabels();
+
+      expect(GitHubService.prototype.addLabelsToDiscussion).toHaveBeenCalledWith('D_1', ['L_2']);
+      expect(GitHubService.prototype.removeLabelsFromDiscussion).toHaveBeenCalledWith('D_1', ['L_1']);
+      expect(setLabels).toHaveBeenCalledWith('D_1', [docs]);
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Updated labels of discussion #1');
+    });
+
+    it('should report the failed step and show the labels that were added', async () => {
+      jest.spyOn(GitHubService.prototype, 'removeLabelsFromDiscussion').mockRejectedValue(new Error('Forbidden'));
+      const setLabels = jest.spyOn(DiscussionsProvider.prototype, 'setDiscussionLabels');
+
+      await editLabels();
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        'Failed to remove labels of discussion #1 after adding the new ones: Forbidden'
+      );
+      expect(setLabels).toHaveBeenCalledWith('D_1', [bug, docs]);
+      expect(vscode.window.showInformationMessage).not.toHaveBeenCalledWith('Updated labels of discussion #1');
+    });
+  });
+
   describe('deactivate', () => {
     it('should deactivate without errors', () => {
       expect(() => deactivate()).not.toThrow();
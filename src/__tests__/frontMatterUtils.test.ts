@@ -0,0 +1,129 @@
+/**
+ * Tests for frontMatterUtils
+ * Requirements: 32.1, 32.5 - Discussion metadata as front matter
+ */
+
+import * as fc from 'fast-check';
+import { formatFrontMatter, parseFrontMatter, DiscussionFrontMatter } from '../utils/frontMatterUtils';
+
+describe('frontMatterUtils', () => {
+  const frontMatter: DiscussionFrontMatter = {
+    title: 'RFC: New API',
+    category: 'Ideas',
+    labels: ['needs-design', 'good first issue'],
+    state: 'open',
+    locked: false
+  };
+
+  describe('formatFrontMatter', () => {
+    it('フロントマターと本文を出力する', () => {
+      expect(formatFrontMatter(frontMatter, '# Body')).toBe([
+        '---',
+        'title: "RFC: New API"',
+        'category: Ideas',
+        'labels: [needs-design, good first issue]',
+        'state: open',
+        'locked: false',
+        '---',
+        '',
+        '# Body'
+      ].join('\n'));
+    });
+
+    it('誤読される可能性のある値を引用符で囲む', () => {
+      const text = formatFrontMatter({ ...frontMatter, title: 'true', labels: ['a, b', '#1'] }, '');
+      expect(text).toContain('title: "true"');
+      expect(text).toContain('labels: ["a, b", "#1"]');
+    });
+  });
+
+  describe('parseFrontMatter', () => {
+    it('フロントマターがない場合は全体を本文として返す', () => {
+      expect(parseFrontMatter('# Title\n\nBody')).toEqual({ lines: {}, body: '# Title\n\nBody', errors: [] });
+    });
+
+    it('各フィールドと行番号を読み取る', () => {
+      const parsed = parseFrontMatter(formatFrontMatter(frontMatter, 'Body'));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.frontMatter).toEqual(frontMatter);
+      expect(parsed.lines).toEqual({ title: 1, category: 2, labels: 3, state: 4, locked: 5 });
+      expect(parsed.body).toBe('\nBody');
+    });
+
+    it('ブロック形式のラベルと引用符付きの値を読み取る', () => {
+      const parsed = parseFrontMatter([
+        '---',
+        "title: 'It''s done' # comment",
+        'labels:',
+        '  - bug',
+        '  - "needs design"',
+        'state: Closed',
+        '---',
+        'Body'
+      ].join('\n'));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.frontMatter).toEqual({ title: "It's done", labels: ['bug', 'needs design'], state: 'closed' });
+    });
+
+    it('空のラベル一覧を読み取る', () => {
+      expect(parseFrontMatter('---\nlabels: []\n---\n').frontMatter).toEqual({ labels: [] });
+    });
+
+    it('不正な値を該当する行のエラーとして報告する', () => {
+      const parsed = parseFrontMatter([
+        '---',
+        'title: Valid',
+        'state: archived',
+        'locked: maybe',
+        'owner: me',
+        'title: Again',
+        'not a field',
+        '---'
+      ].join('\n'));
+
+      expect(parsed.errors).toEqual([
+        { line: 2, message: '"state" must be "open" or "closed", got "archived"' },
+        { line: 3, message: '"locked" must be true or false, got "maybe"' },
+        { line: 4, message: 'Unknown field "owner" (expected one of title, category, labels, state, locked)' },
+        { line: 5, message: 'Map keys must be unique' },
+        { line: 6, message: 'Implicit map keys need to be followed by map values' }
+      ]);
+    });
+
+    it('閉じられていないフロントマターを報告する', () => {
+      expect(parseFrontMatter('---\ntitle: Open').errors).toEqual([
+        { line: 0, message: 'Front matter is not closed with "---"' }
+      ]);
+    });
+
+    it('空のタイトルと閉じられていないラベル一覧を報告する', () => {
+      const parsed = parseFrontMatter('---\ntitle: ""\nlabels: [bug\n---\n');
+      expect(parsed.errors.map(e => e.line)).toEqual([1, 2]);
+    });
+  });
+
+  describe('Property-Based Tests', () => {
+    const textArbitrary = fc.string({ minLength: 1, maxLength: 30 }).filter(s => s.trim() === s && s.length > 0 && !/[\r\n]/.test(s));
+
+    it('出力したフロントマターは同じ値として読み戻せる', () => {
+      fc.assert(
+        fc.property(
+          textArbitrary,
+          textArbitrary,
+          fc.array(textArbitrary, { maxLength: 5 }),
+          fc.constantFrom<'open' | 'closed'>('open', 'closed'),
+          fc.boolean(),
+          (title, category, labels, state, locked) => {
+            const original: DiscussionFrontMatter = { title, category, labels, state, locked };
+            const parsed = parseFrontMatter(formatFrontMatter(original, 'Body'));
+
+            expect(parsed.errors).toEqual([]);
+            expect(parsed.frontMatter).toEqual(original);
+          }
+        )
+      );
+    });
+  });
+});
@@ -1,10 +1,10 @@
 /**
  * Git Remote Parser Tests
- * Requirements: 9.5 - Infrastructure layer extraction
+ * Requirements: 9.5 - Infrastructure layer extraction, 45.1, 45.2 - Multiple repositories
  */
 
 import * as fc from 'fast-check';
-import { GitRemoteParser } from '../infrastructure/gitRemoteParser';
+import { discoverRepositories, GitRemoteParser, parseRepositoryName } from '../infrastructure/gitRemoteParser';
 
 // Mock child_process
 jest.mock('child_process');
@@ -70,6 +70,58 @@ describe('GitRemoteParser', () => {
 
       expect(() => parser.parseGitRemote()).toThrow('GitHub remote not found');
     });
+
+    it('should read the remotes of the given workspace folder (Requirement 45.2)', () => {
+      const { execSync } = require('child_process');
+      execSync.mockReturnValue('origin\tgit@github.com:owner/other.git (fetch)\n');
+
+      const result = new GitRemoteParser({ uri: { fsPath: '/test/other' }, name: 'other', index: 1 } as any).parseGitRemote();
+
+      expect(result).toEqual({ owner: 'owner', name: 'other' });
+      expect(execSync).toHaveBeenCalledWith('git remote -v', expect.objectContaining({ cwd: '/test/other' }));
+    });
+  });
+
+  describe('parseRepositoryName (Requirement 45.1)', () => {
+    it('should parse owner/name pairs', () => {
+      expect(parseRepositoryName('owner/repo')).toEqual({ owner: 'owner', name: 'repo' });
+      expect(parseRepositoryName(' owner/my.repo.git ')).toEqual({ owner: 'owner', name: 'my.repo' });
+    });
+
+    it('should reject other values', () => {
+      expect(parseRepositoryName('repo')).toBeUndefined();
+      expect(parseRepositoryName('owner/repo/extra')).toBeUndefined();
+      expect(parseRepositoryName('owner/')).toBeUndefined();
+    });
+  });
+
+  describe('discoverRepositories (Requirements 45.1, 45.2)', () => {
+    it('should list the repository of every workspace folder, then configured repositories', () => {
+      const { execSync } = require('child_process');
+      mockVscode.workspace.workspaceFolders = [
+        { uri: { fsPath: '/test/app' }, name: 'app', index: 0 },
+        { uri: { fsPath: '/test/docs' }, name: 'docs', index: 1 },
+        { uri: { fsPath: '/test/notes' }, name: 'notes', index: 2 }
+      ];
+      execSync.mockImplementation((_command: string, options: { cwd: string }) => {
+        if (options.cwd === '/test/notes') {
+          throw new Error('fatal: not a git repository');
+        }
+        return `origin\tgit@github.com:owner/${options.cwd.split('/').pop()}.git (fetch)\n`;
+      });
+
+      const repositories = discoverRepositories(['owner/api', 'Owner/App', 'invalid']);
+
+      expect(repositories.map(r => `${r.owner}/${r.name}`)).toEqual(['owner/app', 'owner/docs', 'owner/api']);
+      expect(repositories[1].workspaceFolder?.name).toBe('docs');
+      expect(repositories[2].workspaceFolder).toBeUndefined();
+    });
+
+    it('should return configured repositories without a workspace', () => {
+      mockVscode.workspace.workspaceFolders = undefined;
+
+      expect(discoverRepositories(['owner/api'])).toEqual([{ owner: 'owner', name: 'api' }]);
+    });
   });
 
   describe('Property-Based Tests', () => {
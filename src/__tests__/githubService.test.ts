@@ -6,6 +6,7 @@ import * as vscode from 'vscode';
 import * as fc from 'fast-check';
 import { GitHubService } from '../services/githubService';
 import { AuthenticationService } from '../services/authenticationService';
+import { FixedRemoteParser } from '../infrastructure/gitRemoteParser';
 import { RepositoryInfo, Discussion, DiscussionCategory, MentionSource } from '../models';
 
 // Mock child_process for git operations
@@ -169,6 +170,7 @@ describe('GitHubService', () => {
                     createdAt: '2024-01-01T00:00:00Z',
                     updatedAt: '2024-01-02T00:00:00Z',
                     isAnswered: false,
+                    labels: { nodes: [{ id: 'L_1', name: 'needs-design', color: 'a2eeef' }] },
                     comments: { totalCount: 5 }
                   }
                 ],
@@ -206,6 +208,8 @@ describe('GitHubService', () => {
         expect(result.discussions[0].title).toBe('Test Discussion');
         expect(result.discussions[0].number).toBe(1);
         expect(result.discussions[0].commentsCount).toBe(5);
+        // Labels are included for chips and the label filter (Requirement 34.1)
+        expect(result.discussions[0].labels).toEqual([{ id: 'L_1', name: 'needs-design', color: 'a2eeef' }]);
         // Verify body is not present (lazy loading)
         expect((result.discussions[0] as any).body).toBeUndefined();
       });
@@ -247,6 +251,79 @@ describe('GitHubService', () => {
         expect(result.discussions).toEqual([]);
       });
 
+      it('should request OPEN discussions by default and pass requested states (Requirement 24.4)', async () => {
+        const { execSync } = require('child_process');
+        execSync.mockReturnValue('origin\tgit@github.com:owner/repo.git (fetch)\n');
+
+        const repositoryInfo = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              repository: {
+                id: 'R_123',
+                name: 'repo',
+                owner: { login: 'owner' },
+                hasDiscussionsEnabled: true
+              }
+            }
+          })
+        };
+        const emptyDiscussions = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              repository: {
+                discussions: {
+                  nodes: [],
+                  pageInfo: { hasNextPage: false, endCursor: null }
+                }
+              }
+            }
+          })
+        };
+
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce(repositoryInfo)
+          .mockResolvedValueOnce(emptyDiscussions)
+          .mockResolvedValueOnce(repositoryInfo)
+          .mockResolvedValueOnce(emptyDiscussions);
+
+        await githubService.getDiscussionSummaries();
+        await githubService.getDiscussionSummaries({ states: ['OPEN', 'CLOSED'] });
+
+        const defaultRequest = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+        expect(defaultRequest.query).toContain('states: $states');
+        expect(defaultRequest.variables.states).toEqual(['OPEN']);
+
+        const closedRequest = JSON.parse((global.fetch as jest.Mock).mock.calls[3][1].body);
+        expect(closedRequest.variables.states).toEqual(['OPEN', 'CLOSED']);
+      });
+
+      it('should pass orderBy to the query (Requirement 37.2)', async () => {
+        const { execSync } = require('child_process');
+        execSync.mockReturnValue('origin\tgit@github.com:owner/repo.git (fetch)\n');
+
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: { repository: { id: 'R_123', name: 'repo', owner: { login: 'owner' }, hasDiscussionsEnabled: true } }
+            })
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: { repository: { discussions: { nodes: [], pageInfo: { hasNextPage: false, endCursor: null } } } }
+            })
+          });
+
+        await githubService.getDiscussionSummaries({ orderBy: { field: 'CREATED_AT', direction: 'ASC' } });
+
+        const request = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+        expect(request.query).toContain('orderBy: $orderBy');
+        expect(request.variables.orderBy).toEqual({ field: 'CREATED_AT', direction: 'ASC' });
+      });
+
       it('should return empty array when not authenticated', async () => {
         mockAuthService.getSessionSilent.mockResolvedValue(undefined);
 
@@ -402,7 +479,8 @@ describe('GitHubService', () => {
                     name: 'Q&A',
                     description: 'Questions and answers',
                     emoji: ':question:',
-                    isAnswerable: true
+                    isAnswerable: true,
+                    slug: 'q-a'
                   }
                 ]
               }
@@ -434,6 +512,8 @@ describe('GitHubService', () => {
         expect(categories).toHaveLength(2);
         expect(categories[0].name).toBe('General');
         expect(categories[1].isAnswerable).toBe(true);
+        // Slug is used to match the defaultCategory setting (Requirement 38.1)
+        expect(categories[1].slug).toBe('q-a');
       });
     });
 
@@ -500,6 +580,50 @@ describe('GitHubService', () => {
       });
     });
 
+    describe('updateDiscussion', () => {
+      it('should pass categoryId to move a discussion to another category (Requirement 27.1)', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              updateDiscussion: {
+                discussion: {
+                  id: 'D_1',
+                  number: 1,
+                  title: 'Moved Discussion',
+                  body: 'Body',
+                  bodyHTML: '<p>Body</p>',
+                  author: {
+                    login: 'testuser',
+                    avatarUrl: 'https://github.com/testuser.png'
+                  },
+                  category: {
+                    id: 'C_2',
+                    name: 'Q&A',
+                    description: 'Questions and Answers',
+                    emoji: ':question:',
+                    isAnswerable: true
+                  },
+                  createdAt: '2024-01-01T00:00:00Z',
+                  updatedAt: '2024-01-02T00:00:00Z',
+                  isAnswered: false,
+                  reactionGroups: [],
+                  comments: { nodes: [] }
+                }
+              }
+            }
+          })
+        });
+
+        const discussion = await githubService.updateDiscussion('D_1', { categoryId: 'C_2' });
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('categoryId: $categoryId');
+        expect(requestBody.variables).toEqual({ discussionId: 'D_1', categoryId: 'C_2' });
+        expect(discussion.category.id).toBe('C_2');
+      });
+    });
+
     describe('addComment', () => {
       it('should add a comment to a discussion', async () => {
         (global.fetch as jest.Mock).mockResolvedValueOnce({
@@ -858,6 +982,45 @@ describe('GitHubService', () => {
       });
     });
 
+    describe('getComment', () => {
+      const commentNode = (discussionNumber: number) => ({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          data: {
+            node: {
+              id: 'DC_101',
+              body: 'Comment 101',
+              bodyHTML: '<p>Comment 101</p>',
+              author: { login: 'user1', avatarUrl: 'https://github.com/user1.png' },
+              createdAt: '2024-01-01T00:00:00Z',
+              updatedAt: '2024-01-01T00:00:00Z',
+              viewerDidAuthor: true,
+              reactionGroups: [],
+              discussion: { number: discussionNumber }
+            }
+          }
+        })
+      });
+
+      it('should fetch a comment by its node id (Requirement 30.1)', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce(commentNode(1));
+
+        const comment = await githubService.getComment(1, 'DC_101');
+
+        expect(comment).toMatchObject({ id: 'DC_101', body: 'Comment 101', viewerDidAuthor: true, replies: [] });
+        expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).variables).toEqual({ id: 'DC_101' });
+      });
+
+      it('should not return comments of other discussions or other nodes', async () => {
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce(commentNode(2))
+          .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ data: { node: {} } }) });
+
+        await expect(githubService.getComment(1, 'DC_101')).resolves.toBeUndefined();
+        await expect(githubService.getComment(1, 'D_1')).resolves.toBeUndefined();
+      });
+    });
+
     describe('updateComment', () => {
       it('should update a comment', async () => {
         (global.fetch as jest.Mock).mockResolvedValueOnce({
@@ -965,6 +1128,576 @@ describe('GitHubService', () => {
       });
     });
 
+    describe('addReaction', () => {
+      it('should call addReaction mutation with subjectId and content', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              addReaction: {
+                reaction: { content: 'THUMBS_UP' }
+              }
+            }
+          })
+        });
+
+        await githubService.addReaction('DC_1', 'THUMBS_UP');
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('addReaction');
+        expect(requestBody.variables).toEqual({ subjectId: 'DC_1', content: 'THUMBS_UP' });
+      });
+
+      it('should throw error when not authenticated', async () => {
+        mockAuthService.getSession.mockResolvedValue(undefined);
+
+        await expect(
+          githubService.addReaction('DC_1', 'THUMBS_UP')
+        ).rejects.toThrow('Not authenticated');
+      });
+    });
+
+    describe('removeReaction', () => {
+      it('should call removeReaction mutation with subjectId and content', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              removeReaction: {
+                reaction: { content: 'HEART' }
+              }
+            }
+          })
+        });
+
+        await githubService.removeReaction('D_1', 'HEART');
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('removeReaction');
+        expect(requestBody.variables).toEqual({ subjectId: 'D_1', content: 'HEART' });
+      });
+
+      it('should throw error when not authenticated', async () => {
+        mockAuthService.getSession.mockResolvedValue(undefined);
+
+        await expect(
+          githubService.removeReaction('D_1', 'HEART')
+        ).rejects.toThrow('Not authenticated');
+      });
+    });
+
+    describe('markCommentAsAnswer', () => {
+      it('should call markDiscussionCommentAsAnswer mutation with comment id', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              markDiscussionCommentAsAnswer: {
+                discussion: { id: 'D_1', isAnswered: true }
+              }
+            }
+          })
+        });
+
+        await githubService.markCommentAsAnswer('DC_1');
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('markDiscussionCommentAsAnswer');
+        expect(requestBody.variables.commentId).toBe('DC_1');
+      });
+
+      it('should throw error when not authenticated', async () => {
+        mockAuthService.getSession.mockResolvedValue(undefined);
+
+        await expect(githubService.markCommentAsAnswer('DC_1')).rejects.toThrow('Not authenticated');
+      });
+    });
+
+    describe('unmarkCommentAsAnswer', () => {
+      it('should call unmarkDiscussionCommentAsAnswer mutation with comment id', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              unmarkDiscussionCommentAsAnswer: {
+                discussion: { id: 'D_1', isAnswered: false }
+              }
+            }
+          })
+        });
+
+        await githubService.unmarkCommentAsAnswer('DC_1');
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('unmarkDiscussionCommentAsAnswer');
+        expect(requestBody.variables.commentId).toBe('DC_1');
+      });
+    });
+
+    describe('closeDiscussion', () => {
+      it('should call closeDiscussion mutation with discussion id and reason', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              closeDiscussion: {
+                discussion: { id: 'D_1', closed: true }
+              }
+            }
+          })
+        });
+
+        await githubService.closeDiscussion('D_1', 'OUTDATED');
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('closeDiscussion');
+        expect(requestBody.variables).toEqual({ discussionId: 'D_1', reason: 'OUTDATED' });
+      });
+
+      it('should throw when not authenticated', async () => {
+        mockAuthService.getSession.mockResolvedValue(undefined);
+
+        await expect(githubService.closeDiscussion('D_1', 'RESOLVED')).rejects.toThrow('Not authenticated');
+      });
+    });
+
+    describe('reopenDiscussion', () => {
+      it('should call reopenDiscussion mutation with discussion id', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              reopenDiscussion: {
+                discussion: { id: 'D_1', closed: false }
+              }
+            }
+          })
+        });
+
+        await githubService.reopenDiscussion('D_1');
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('reopenDiscussion');
+        expect(requestBody.variables.discussionId).toBe('D_1');
+      });
+    });
+
+    describe('lockDiscussion', () => {
+      it('should call lockLockable mutation with discussion id', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              lockLockable: {
+                lockedRecord: { locked: true }
+              }
+            }
+          })
+        });
+
+        await githubService.lockDiscussion('D_1');
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('lockLockable');
+        expect(requestBody.variables.lockableId).toBe('D_1');
+      });
+    });
+
+    describe('unlockDiscussion', () => {
+      it('should call unlockLockable mutation with discussion id', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              unlockLockable: {
+                unlockedRecord: { locked: false }
+              }
+            }
+          })
+        });
+
+        await githubService.unlockDiscussion('D_1');
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('unlockLockable');
+        expect(requestBody.variables.lockableId).toBe('D_1');
+      });
+    });
+
+    describe('deleteDiscussion', () => {
+      it('should call deleteDiscussion mutation with discussion id', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              deleteDiscussion: {
+                discussion: { id: 'D_1' }
+              }
+            }
+          })
+        });
+
+        await githubService.deleteDiscussion('D_1');
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('deleteDiscussion');
+        expect(requestBody.variables.discussionId).toBe('D_1');
+      });
+    });
+
+    describe('polls (Requirement 41)', () => {
+      const rawPoll = {
+        question: 'Which editor?',
+        totalVoteCount: 3,
+        viewerHasVoted: true,
+        viewerCanVote: true,
+        options: {
+          nodes: [
+            { id: 'PO_1', option: 'VS Code', totalVoteCount: 2 },
+            { id: 'PO_2', option: 'Vim', totalVoteCount: 1 }
+          ]
+        }
+      };
+
+      it('should vote with addDiscussionPollVote and return the updated poll (Requirement 41.3)', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: { addDiscussionPollVote: { pollOption: { poll: rawPoll } } }
+          })
+        });
+
+        const poll = await githubService.addDiscussionPollVote('PO_1');
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('addDiscussionPollVote');
+        expect(requestBody.variables).toEqual({ pollOptionId: 'PO_1' });
+        expect(poll).toEqual({
+          question: 'Which editor?',
+          totalVoteCount: 3,
+          viewerHasVoted: true,
+          viewerCanVote: true,
+          options: [
+            { id: 'PO_1', option: 'VS Code', totalVoteCount: 2 },
+            { id: 'PO_2', option: 'Vim', totalVoteCount: 1 }
+          ]
+        });
+      });
+
+      it('should include the poll when fetching a discussion (Requirement 41.1)', async () => {
+        const { execSync } = require('child_process');
+        execSync.mockReturnValue('origin\tgit@github.com:owner/repo.git (fetch)\n');
+
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: { repository: { id: 'R_123', name: 'repo', owner: { login: 'owner' }, hasDiscussionsEnabled: true } }
+            })
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: {
+                repository: {
+                  discussion: {
+                    id: 'D_1',
+                    number: 1,
+                    title: 'Editors',
+                    body: '',
+                    bodyHTML: '',
+                    author: { login: 'testuser', avatarUrl: 'https://github.com/testuser.png' },
+                    category: { id: 'C_1', name: 'Polls', description: '', emoji: ':bar_chart:', isAnswerable: false },
+                    createdAt: '2024-01-01T00:00:00Z',
+                    updatedAt: '2024-01-01T00:00:00Z',
+                    isAnswered: false,
+                    poll: rawPoll,
+                    reactionGroups: [],
+                    comments: { nodes: [] }
+                  }
+                }
+              }
+            })
+          });
+
+        const discussion = await githubService.getDiscussion(1);
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+        expect(requestBody.query).toContain('viewerCanVote');
+        expect(discussion.poll?.question).toBe('Which editor?');
+        expect(discussion.poll?.options.map(o => o.totalVoteCount)).toEqual([2, 1]);
+      });
+    });
+
+    describe('getPinnedDiscussions (Requirement 42)', () => {
+      it('should return pinned discussions with their pattern and gradient (Requirement 42.1, 42.2)', async () => {
+        const { execSync } = require('child_process');
+        execSync.mockReturnValue('origin\tgit@github.com:owner/repo.git (fetch)\n');
+
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: { repository: { id: 'R_123', name: 'repo', owner: { login: 'owner' }, hasDiscussionsEnabled: true } }
+            })
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: {
+                repository: {
+                  pinnedDiscussions: {
+                    nodes: [{
+                      pattern: 'ZAP',
+                      gradientStopColors: ['#ff0000', '#ff9900'],
+                      preconfiguredGradient: null,
+                      discussion: {
+                        id: 'D_1',
+                        number: 1,
+                        title: 'Welcome',
+                        url: 'https://github.com/owner/repo/discussions/1',
+                        author: { login: 'testuser', avatarUrl: 'https://github.com/testuser.png' },
+                        category: { id: 'C_1', name: 'Announcements', description: '', emoji: ':mega:', isAnswerable: false },
+                        createdAt: '2024-01-01T00:00:00Z',
+                        updatedAt: '2024-01-02T00:00:00Z',
+                        isAnswered: false,
+                        comments: { totalCount: 3 }
+                      }
+                    }]
+                  }
+                }
+              }
+            })
+          });
+
+        const pinned = await githubService.getPinnedDiscussions();
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+        expect(requestBody.query).toContain('pinnedDiscussions');
+        expect(requestBody.variables).toEqual({ owner: 'owner', name: 'repo' });
+        expect(pinned).toHaveLength(1);
+        expect(pinned[0]).toMatchObject({
+          pattern: 'ZAP',
+          gradientStopColors: ['#ff0000', '#ff9900'],
+          preconfiguredGradient: undefined,
+          discussion: { id: 'D_1', title: 'Welcome', commentsCount: 3, pinned: true }
+        });
+      });
+    });
+
+    describe('searchDiscussions (Requirement 36)', () => {
+      it('should scope the search to the repository and return highlighted matches', async () => {
+        const { execSync } = require('child_process');
+        execSync.mockReturnValue('origin\tgit@github.com:owner/repo.git (fetch)\n');
+
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: {
+                repository: {
+                  id: 'R_123',
+                  name: 'repo',
+                  owner: { login: 'owner' },
+                  hasDiscussionsEnabled: true
+                }
+              }
+            })
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: {
+                search: {
+                  discussionCount: 2,
+                  pageInfo: { hasNextPage: true, endCursor: 'cursor-1' },
+                  edges: [
+                    {
+                      textMatches: [{
+                        property: 'body',
+                        fragment: 'use GraphQL',
+                        highlights: [{ beginIndice: 4, endIndice: 11, text: 'GraphQL' }]
+                      }],
+                      node: {
+                        id: 'D_1',
+                        number: 1,
+                        title: 'API decision',
+                        url: 'https://github.com/owner/repo/discussions/1',
+                        author: { login: 'user1', avatarUrl: 'https://github.com/user1.png' },
+                        category: { id: 'C_1', name: 'General', description: '', emoji: '', isAnswerable: false },
+                        createdAt: '2024-01-01T00:00:00Z',
+                        updatedAt: '2024-01-01T00:00:00Z',
+                        isAnswered: false,
+                        comments: { totalCount: 3 }
+                      }
+                    },
+                    { node: {} }
+                  ]
+                }
+              }
+            })
+          });
+
+        const result = await githubService.searchDiscussions(' GraphQL in:comments ', { after: 'cursor-0' });
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+        expect(requestBody.query).toContain('search(type: DISCUSSION');
+        expect(requestBody.variables.query).toBe('repo:owner/repo GraphQL in:comments');
+        expect(requestBody.variables.after).toBe('cursor-0');
+        expect(result.totalCount).toBe(2);
+        expect(result.pageInfo).toEqual({ hasNextPage: true, endCursor: 'cursor-1' });
+        expect(result.results).toHaveLength(1);
+        expect(result.results[0].discussion.commentsCount).toBe(3);
+        expect(result.results[0].textMatches).toEqual([
+          { property: 'body', fragment: 'use GraphQL', highlights: [{ start: 4, end: 11 }] }
+        ]);
+      });
+
+      it('should return no results when not authenticated', async () => {
+        mockAuthService.getSessionSilent.mockResolvedValue(undefined);
+
+        expect(await githubService.searchDiscussions('anything')).toEqual({
+          totalCount: 0,
+          results: [],
+          pageInfo: { hasNextPage: false, endCursor: null }
+        });
+      });
+    });
+
+    describe('searchDiscussionSummaries (Requirement 43)', () => {
+      it('should return a page of repository discussions matching the query', async () => {
+        const { execSync } = require('child_process');
+        execSync.mockReturnValue('origin\tgit@github.com:owner/repo.git (fetch)\n');
+
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: {
+                repository: {
+                  id: 'R_123',
+                  name: 'repo',
+                  owner: { login: 'owner' },
+                  hasDiscussionsEnabled: true
+                }
+              }
+            })
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: {
+                search: {
+                  nodes: [
+                    {
+                      id: 'D_1',
+                      number: 1,
+                      title: 'My question',
+                      url: 'https://github.com/owner/repo/discussions/1',
+                      author: { login: 'testuser', avatarUrl: 'https://github.com/testuser.png' },
+                      category: { id: 'C_1', name: 'Q&A', description: '', emoji: '', isAnswerable: true },
+                      createdAt: '2024-01-01T00:00:00Z',
+                      updatedAt: '2024-01-02T00:00:00Z',
+                      isAnswered: false,
+                      comments: { totalCount: 1, nodes: [] }
+                    },
+                    {}
+                  ],
+                  pageInfo: { hasNextPage: true, endCursor: 'cursor1' }
+                }
+              }
+            })
+          });
+
+        const page = await githubService.searchDiscussionSummaries(' author:testuser is:open ', { first: 10, after: 'cursor0' });
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+        expect(requestBody.query).toContain('search(type: DISCUSSION');
+        expect(requestBody.variables).toEqual({ query: 'repo:owner/repo author:testuser is:open', first: 10, after: 'cursor0' });
+        expect(page.discussions.map(d => d.id)).toEqual(['D_1']);
+        expect(page.discussions[0].commentsCount).toBe(1);
+        expect(page.pageInfo).toEqual({ hasNextPage: true, endCursor: 'cursor1' });
+      });
+
+      it('should return an empty page when not authenticated', async () => {
+        mockAuthService.getSessionSilent.mockResolvedValue(undefined);
+
+        expect(await githubService.searchDiscussionSummaries('author:testuser')).toEqual({
+          discussions: [],
+          pageInfo: { hasNextPage: false, endCursor: null }
+        });
+      });
+    });
+
+    describe('labels (Requirement 32)', () => {
+      it('should fetch repository labels', async () => {
+        const { execSync } = require('child_process');
+        execSync.mockReturnValue('origin\tgit@github.com:owner/repo.git (fetch)\n');
+
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: {
+                repository: {
+                  id: 'R_123',
+                  name: 'repo',
+                  owner: { login: 'owner' },
+                  hasDiscussionsEnabled: true
+                }
+              }
+            })
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: {
+                repository: {
+                  labels: {
+                    nodes: [{ id: 'L_1', name: 'bug', color: 'd73a4a' }]
+                  }
+                }
+              }
+            })
+          });
+
+        const labels = await githubService.getRepositoryLabels();
+
+        expect(labels).toEqual([{ id: 'L_1', name: 'bug', color: 'd73a4a' }]);
+      });
+
+      it('should call addLabelsToLabelable with the discussion id', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: { addLabelsToLabelable: { clientMutationId: null } }
+          })
+        });
+
+        await githubService.addLabelsToDiscussion('D_1', ['L_1', 'L_2']);
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('addLabelsToLabelable');
+        expect(requestBody.variables).toEqual({ labelableId: 'D_1', labelIds: ['L_1', 'L_2'] });
+      });
+
+      it('should call removeLabelsFromLabelable with the discussion id', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: { removeLabelsFromLabelable: { clientMutationId: null } }
+          })
+        });
+
+        await githubService.removeLabelsFromDiscussion('D_1', ['L_1']);
+
+        const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+        expect(requestBody.query).toContain('removeLabelsFromLabelable');
+        expect(requestBody.variables).toEqual({ labelableId: 'D_1', labelIds: ['L_1'] });
+      });
+    });
+
     describe('getMentionableUsers', () => {
       beforeEach(() => {
         const { execSync } = require('child_process');
@@ -1337,6 +2070,124 @@ describe('GitHubService', () => {
         expect(users).toEqual([]);
       });
     });
+
+    describe('organizations (Requirement 46)', () => {
+      it('should list the public repositories of the organization with discussions enabled', async () => {
+        const page = (nodes: object[], endCursor: string | null) => ({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              organization: {
+                communityRepository: null,
+                repositories: { nodes, pageInfo: { hasNextPage: endCursor !== null, endCursor } }
+              }
+            }
+          })
+        });
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ type: 'Organization' }) })
+          .mockResolvedValueOnce(page([
+            { id: 'R_1', name: 'community', owner: { login: 'Acme' }, hasDiscussionsEnabled: true },
+            { id: 'R_2', name: 'website', owner: { login: 'Acme' }, hasDiscussionsEnabled: false }
+          ], 'cursor-1'))
+          .mockResolvedValueOnce(page([
+            { id: 'R_3', name: 'sdk', owner: { login: 'Acme' }, hasDiscussionsEnabled: true }
+          ], null));
+
+        const repositories = await githubService.getOrganizationDiscussionRepositories('acme');
+
+        expect(repositories).toEqual([
+          { id: 'R_1', owner: 'Acme', name: 'community', fullName: 'Acme/community', hasDiscussionsEnabled: true },
+          { id: 'R_3', owner: 'Acme', name: 'sdk', fullName: 'Acme/sdk', hasDiscussionsEnabled: true }
+        ]);
+        expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe('https://api.github.com/users/acme');
+        const requestBodies = (global.fetch as jest.Mock).mock.calls.slice(1).map(call => JSON.parse(call[1].body));
+        expect(requestBodies[0].query).toContain('organization(login: $login)');
+        expect(requestBodies.map(body => body.variables)).toEqual([
+          { login: 'acme', after: null },
+          { login: 'acme', after: 'cursor-1' }
+        ]);
+      });
+
+      it('should use the .github repository when it has discussions enabled', async () => {
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ type: 'Organization' }) })
+          .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            data: {
+              organization: {
+                communityRepository: { id: 'R_0', name: '.github', owner: { login: 'Acme' }, hasDiscussionsEnabled: true },
+                repositories: {
+                  nodes: [{ id: 'R_1', name: 'community', owner: { login: 'Acme' }, hasDiscussionsEnabled: true }],
+                  pageInfo: { hasNextPage: true, endCursor: 'cursor-1' }
+                }
+              }
+            }
+          })
+        });
+
+        const repositories = await githubService.getOrganizationDiscussionRepositories('acme');
+
+        expect(repositories.map(r => r.fullName)).toEqual(['Acme/.github']);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+      });
+
+      it('should report a login that is not an organization', async () => {
+        (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ type: 'User' }) });
+
+        await expect(githubService.getOrganizationDiscussionRepositories('octocat')).rejects.toThrow('Organization octocat not found');
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should report an organization that GitHub does not return', async () => {
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ type: 'Organization' }) })
+          .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ data: { organization: null } }) });
+
+        await expect(githubService.getOrganizationDiscussionRepositories('acme')).rejects.toThrow('Organization acme not found');
+      });
+
+      it('should ask to sign in to find the repositories of an organization', async () => {
+        mockAuthService.getSession.mockResolvedValue(undefined);
+
+        await expect(githubService.getOrganizationDiscussionRepositories('acme')).rejects.toThrow('Not authenticated');
+        expect(mockAuthService.getSession).toHaveBeenCalled();
+        expect(global.fetch).not.toHaveBeenCalled();
+      });
+
+      it('should suggest members of an attached organization without a git remote (Requirement 46.4)', async () => {
+        const { execSync } = require('child_process');
+        const orgService = new GitHubService(mockAuthService, undefined, new FixedRemoteParser({ owner: 'acme', name: '.github' }));
+
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              data: {
+                repository: { id: 'R_1', name: '.github', owner: { login: 'acme' }, hasDiscussionsEnabled: true }
+              }
+            })
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ type: 'Organization' })
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              items: [{ login: 'acme-dev', avatar_url: 'https://github.com/acme-dev.png' }]
+            })
+          });
+
+        const users = await orgService.searchOrganizationMembers('dev');
+
+        expect(users.map(u => u.login)).toEqual(['acme-dev']);
+        expect((global.fetch as jest.Mock).mock.calls[2][0]).toContain('+org:acme');
+        expect(execSync).not.toHaveBeenCalled();
+        orgService.dispose();
+      });
+    });
   });
 
   describe('Property-Based Tests', () => {
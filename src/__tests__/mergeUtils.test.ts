@@ -0,0 +1,81 @@
+/**
+ * Tests for mergeUtils
+ * Requirements: 29.2 - Automatic merge of non-overlapping edits
+ */
+
+import * as fc from 'fast-check';
+import { mergeThreeWay } from '../utils/mergeUtils';
+
+describe('mergeUtils', () => {
+  describe('mergeThreeWay', () => {
+    const base = ['# RFC', '', 'Intro', '', 'Motivation', '', 'Design', '', 'Summary'].join('\n');
+
+    it('変更がない場合はベースをそのまま返す', () => {
+      expect(mergeThreeWay(base, base, base)).toEqual({ merged: base, hasConflicts: false });
+    });
+
+    it('ローカルのみの変更を適用する', () => {
+      const local = base.replace('Intro', 'Introduction');
+      expect(mergeThreeWay(base, local, base)).toEqual({ merged: local, hasConflicts: false });
+    });
+
+    it('リモートのみの変更を適用する', () => {
+      const remote = base.replace('Summary', 'Summary and next steps');
+      expect(mergeThreeWay(base, base, remote)).toEqual({ merged: remote, hasConflicts: false });
+    });
+
+    it('重ならない変更を自動的にマージする', () => {
+      const local = base.replace('Intro', 'Introduction');
+      const remote = base.replace('Summary', 'Summary and next steps');
+      const result = mergeThreeWay(base, local, remote);
+
+      expect(result.hasConflicts).toBe(false);
+      expect(result.merged).toBe(base.replace('Intro', 'Introduction').replace('Summary', 'Summary and next steps'));
+    });
+
+    it('追加と削除を含む重ならない変更をマージする', () => {
+      const local = base.replace('Intro', 'Intro\nBackground');
+      const remote = base.replace('\n\nDesign', '');
+      const result = mergeThreeWay(base, local, remote);
+
+      expect(result.hasConflicts).toBe(false);
+      expect(result.merged).toBe(['# RFC', '', 'Intro', 'Background', '', 'Motivation', '', 'Summary'].join('\n'));
+    });
+
+    it('同じ行への異なる変更は競合として報告する', () => {
+      const local = base.replace('Design', 'Design A');
+      const remote = base.replace('Design', 'Design B');
+      const result = mergeThreeWay(base, local, remote);
+
+      expect(result.hasConflicts).toBe(true);
+      expect(result.merged).toContain('<<<<<<< Local\nDesign A\n=======\nDesign B\n>>>>>>> GitHub');
+    });
+
+    it('両側で同一の変更は競合としない', () => {
+      const changed = base.replace('Design', 'Design v2');
+      expect(mergeThreeWay(base, changed, changed)).toEqual({ merged: changed, hasConflicts: false });
+    });
+
+    it('同じ位置への異なる挿入は競合として報告する', () => {
+      const local = `${base}\nLocal appendix`;
+      const remote = `${base}\nRemote appendix`;
+      expect(mergeThreeWay(base, local, remote).hasConflicts).toBe(true);
+    });
+  });
+
+  describe('Property-Based Tests', () => {
+    const linesArbitrary = fc.array(fc.constantFrom('a', 'b', 'c', 'd', ''), { maxLength: 12 });
+
+    it('片側のみの変更は常にその側の内容になる', () => {
+      fc.assert(
+        fc.property(linesArbitrary, linesArbitrary, (baseLines, otherLines) => {
+          const base = baseLines.join('\n');
+          const other = otherLines.join('\n');
+
+          expect(mergeThreeWay(base, other, base)).toEqual({ merged: other, hasConflicts: false });
+          expect(mergeThreeWay(base, base, other)).toEqual({ merged: other, hasConflicts: false });
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for metadataUtils
+ * Requirements: 33.2, 33.3 - Writable metadata
+ */
+
+import { diffMetadata, findPropertyLines, parseMetadataJson } from '../utils/metadataUtils';
+import { DiscussionMetadata } from '../models';
+
+describe('metadataUtils', () => {
+  const current: DiscussionMetadata = {
+    id: 'D_1',
+    number: 1,
+    title: 'Title',
+    author: { id: 'U_1', login: 'octocat', name: null, avatarUrl: 'https://github.com/octocat.png' },
+    category: { id: 'C_1', name: 'General', description: 'General', emoji: ':speech_balloon:', isAnswerable: false },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+    isAnswered: false,
+    answer: null,
+    reactions: [],
+    labels: ['bug'],
+    pinned: false,
+    locked: false
+  };
+  const edit = (changes: Record<string, unknown>) => JSON.parse(JSON.stringify({ ...current, ...changes }));
+
+  describe('diffMetadata', () => {
+    it('変更がない場合は何も返さない', () => {
+      expect(diffMetadata(current, edit({}))).toEqual({ edits: {}, errors: [] });
+    });
+
+    it('変更可能なフィールドの変更を返す', () => {
+      const result = diffMetadata(current, edit({
+        title: ' New title ',
+        category: { ...current.category, name: 'Ideas' },
+        labels: ['bug', 'needs-design'],
+        pinned: true,
+        locked: true
+      }));
+
+      expect(result.errors).toEqual([]);
+      expect(result.edits).toEqual({
+        title: 'New title',
+        categoryName: 'Ideas',
+        labels: ['bug', 'needs-design'],
+        pinned: true,
+        locked: true
+      });
+    });
+
+    it('カテゴリIDの変更を名前の変更より優先する', () => {
+      const result = diffMetadata(current, edit({ category: { ...current.category, id: 'C_2', name: 'Ideas' } }));
+      expect(result.edits).toEqual({ categoryId: 'C_2' });
+    });
+
+    it('ラベルの順序と大文字小文字の違いは変更とみなさない', () => {
+      const metadata = { ...current, labels: ['bug', 'docs'] };
+      expect(diffMetadata(metadata, { ...metadata, labels: ['Docs', 'BUG'] }).edits).toEqual({});
+    });
+
+    it('読み取り専用フィールドの変更をエラーとして報告する', () => {
+      const result = diffMetadata(current, edit({ number: 2, isAnswered: true, author: { ...current.author, login: 'me' } }));
+
+      expect(result.edits).toEqual({});
+      expect(result.errors).toEqual([
+        { field: 'number', message: '"number" is read-only and cannot be changed' },
+        { field: 'author', message: '"author" is read-only and cannot be changed' },
+        { field: 'isAnswered', message: '"isAnswered" is read-only and cannot be changed' }
+      ]);
+    });
+
+    it('カテゴリの説明などの変更をエラーとして報告する', () => {
+      const result = diffMetadata(current, edit({ category: { ...current.category, emoji: ':tada:' } }));
+      expect(result.errors).toEqual([{ field: 'category', message: 'Only "category.id" or "category.name" can be changed' }]);
+    });
+
+    it('未知のフィールドと不正な型を報告する', () => {
+      const result = diffMetadata(current, edit({ closed: true, locked: 'yes', labels: 'bug', title: '' }));
+
+      expect(result.errors).toEqual([
+        { field: 'closed', message: 'Unknown field "closed"' },
+        { field: 'title', message: '"title" must be a non-empty string' },
+        { field: 'labels', message: '"labels" must be an array of label names' },
+        { field: 'locked', message: '"locked" must be true or false' }
+      ]);
+    });
+
+    it('省略された変更可能フィールドは変更しない', () => {
+      const { title: _title, labels: _labels, ...rest } = current;
+      expect(diffMetadata(current, rest)).toEqual({ edits: {}, errors: [] });
+    });
+
+    it('オブジェクト以外はエラーとする', () => {
+      expect(diffMetadata(current, []).errors).toEqual([{ line: 0, message: '_metadata.json must contain a JSON object' }]);
+    });
+  });
+
+  describe('findPropertyLines', () => {
+    it('トップレベルのプロパティの行番号を返す', () => {
+      const text = JSON.stringify({ title: 'a', category: { name: 'title' }, labels: ['title'] }, null, 2);
+      expect(findPropertyLines(text)).toEqual({ title: 1, category: 2, labels: 5 });
+    });
+  });
+
+  describe('parseMetadataJson', () => {
+    it('構文エラーの行番号を返す', () => {
+      const result = parseMetadataJson('{\n  "title": "a"\n  "locked": true\n}');
+      expect(result.value).toBeUndefined();
+      expect(result.error?.line).toBe(2);
+    });
+  });
+});
@@ -1,11 +1,11 @@
 /**
  * Notification Badge Service Tests
- * Requirements: 19.1-19.10
+ * Requirements: 19.1-19.10, 45.5
  *
  * Tests for notification badge functionality on Activity Bar icon
  */
 
-import { NotificationBadgeService } from '../services/notificationBadgeService';
+import { CombinedBadge, NotificationBadgeService } from '../services/notificationBadgeService';
 import { STORAGE_KEY_UNREAD_STATE, UNREAD_MAX_SIZE } from '../constants';
 import { UnreadState, DiscussionSummary, User, DiscussionCategory, RecentComment } from '../models';
 import { IGitHubService, IAuthenticationService, IStorageService } from '../services/interfaces';
@@ -105,6 +105,7 @@ describe('NotificationBadgeService', () => {
       getDiscussionSummaries: jest.fn(),
       getDiscussion: jest.fn(),
       getDiscussionComments: jest.fn(),
+      getComment: jest.fn(),
       createDiscussion: jest.fn(),
       updateDiscussion: jest.fn(),
       getDiscussionCategories: jest.fn(),
@@ -112,8 +113,26 @@ describe('NotificationBadgeService', () => {
       addReply: jest.fn(),
       updateComment: jest.fn(),
       deleteComment: jest.fn(),
+      addReaction: jest.fn(),
+      removeReaction: jest.fn(),
+      markCommentAsAnswer: jest.fn(),
+      unmarkCommentAsAnswer: jest.fn(),
+      closeDiscussion: jest.fn(),
+      reopenDiscussion: jest.fn(),
+      lockDiscussion: jest.fn(),
+      unlockDiscussion: jest.fn(),
+      deleteDiscussion: jest.fn(),
+      addDiscussionPollVote: jest.fn(),
+      getRepositoryLabels: jest.fn(),
+      getPinnedDiscussionIds: jest.fn(),
+      getPinnedDiscussions: jest.fn(),
+      searchDiscussions: jest.fn(),
+      searchDiscussionSummaries: jest.fn(),
+      addLabelsToDiscussion: jest.fn(),
+      removeLabelsFromDiscussion: jest.fn(),
       getMentionableUsers: jest.fn(),
-      searchOrganizationMembers: jest.fn()
+      searchOrganizationMembers: jest.fn(),
+      getOrganizationDiscussionRepositories: jest.fn()
     };
 
     mockAuthService = {
@@ -180,6 +199,36 @@ describe('NotificationBadgeService', () => {
       expect(mockBadgeSetter).toHaveBeenCalledWith(undefined);
     });
 
+    it('should start a repository from the unread state stored before it was kept per repository (Requirement 45.5)', async () => {
+      const lastCheckedAt = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const repositoryService = new NotificationBadgeService(
+        mockTreeView as any,
+        mockGithubService,
+        mockAuthService,
+        mockStorageService,
+        `${STORAGE_KEY_UNREAD_STATE}:owner/api`
+      );
+      mockAuthService.getCurrentUser.mockResolvedValue(createMockUser('testuser'));
+      mockGithubService.getDiscussionSummaries.mockResolvedValue({
+        discussions: [],
+        pageInfo: { hasNextPage: false, endCursor: null }
+      });
+      mockStorageService.getData.mockImplementation(async (key: string) =>
+        key === STORAGE_KEY_UNREAD_STATE ? { unreadIds: [], lastCheckedAt } : undefined
+      );
+
+      await repositoryService.updateBadge();
+
+      expect(mockStorageService.getData).toHaveBeenCalledWith(STORAGE_KEY_UNREAD_STATE);
+      expect(mockStorageService.storeData).toHaveBeenCalledWith(
+        `${STORAGE_KEY_UNREAD_STATE}:owner/api`,
+        expect.objectContaining({ unreadIds: [] })
+      );
+      // Not a first run, so the stored time is replaced by this check
+      expect((mockStorageService.storeData.mock.calls[0][1] as UnreadState).lastCheckedAt).not.toBe(lastCheckedAt);
+      repositoryService.dispose();
+    });
+
     it('should detect new comments on user discussions (Requirement 19.3)', async () => {
       const now = new Date();
       const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
@@ -736,4 +785,38 @@ describe('NotificationBadgeService', () => {
       // No error should be thrown
     });
   });
+
+  describe('Multiple repositories (Requirement 45.5)', () => {
+    it('should keep the unread state under the given storage key', async () => {
+      const scoped = new NotificationBadgeService(
+        mockTreeView as any,
+        mockGithubService,
+        mockAuthService,
+        mockStorageService,
+        `${STORAGE_KEY_UNREAD_STATE}:owner/api`
+      );
+      mockStorageService.getData.mockResolvedValue({ unreadIds: ['disc-1'], lastCheckedAt: new Date().toISOString() });
+
+      await scoped.markAsRead('disc-1');
+
+      expect(mockStorageService.getData).toHaveBeenCalledWith(`${STORAGE_KEY_UNREAD_STATE}:owner/api`);
+      expect(mockStorageService.storeData).toHaveBeenCalledWith(`${STORAGE_KEY_UNREAD_STATE}:owner/api`, expect.objectContaining({ unreadIds: [] }));
+      scoped.dispose();
+    });
+
+    it('should show the total of every repository on the view', () => {
+      const combined = new CombinedBadge(mockTreeView);
+      const app = combined.createTarget();
+      const api = combined.createTarget();
+
+      app.badge = { value: 2, tooltip: 'app' };
+      api.badge = { value: 1, tooltip: 'api' };
+      expect(mockTreeView.badge).toEqual({ value: 3, tooltip: '3件のDiscussionに新着コメントがあります' });
+      expect(app.badge).toEqual({ value: 2, tooltip: 'app' });
+
+      app.badge = undefined;
+      api.badge = undefined;
+      expect(mockTreeView.badge).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,110 @@
+/**
+ * Repositories Provider Tests
+ * Requirements: 45.3 - Repository nodes, 46.2 - Organization nodes
+ */
+
+import * as vscode from 'vscode';
+import { RepositoriesProvider } from '../providers/repositoriesProvider';
+import { DiscussionsProvider, DiscussionTreeItem } from '../providers/discussionsProvider';
+
+describe('RepositoriesProvider', () => {
+  let provider: RepositoriesProvider;
+
+  const createDiscussionsProvider = (name: string) => {
+    const emitter = new vscode.EventEmitter<DiscussionTreeItem | undefined>();
+    const category = new DiscussionTreeItem(`${name} General`, vscode.TreeItemCollapsibleState.Collapsed, 'category');
+    const discussion = new DiscussionTreeItem(`${name} discussion`, vscode.TreeItemCollapsibleState.None, 'empty');
+    return {
+      category,
+      discussion,
+      fire: (element?: DiscussionTreeItem) => emitter.fire(element),
+      provider: {
+        onDidChangeTreeData: emitter.event,
+        getChildren: jest.fn(async (element?: DiscussionTreeItem) => element === category ? [discussion] : element ? [] : [category])
+      } as unknown as DiscussionsProvider
+    };
+  };
+
+  beforeEach(() => {
+    provider = new RepositoriesProvider();
+  });
+
+  afterEach(() => {
+    provider.dispose();
+  });
+
+  it('should show the only repository without a repository node', async () => {
+    const app = createDiscussionsProvider('app');
+    provider.setRepositories([{ label: 'owner/app', provider: app.provider }]);
+
+    const roots = await provider.getChildren();
+
+    expect(roots).toEqual([app.category]);
+    expect(provider.getProvider(app.category)).toBe(app.provider);
+  });
+
+  it('should show a node per repository with its discussions below', async () => {
+    const app = createDiscussionsProvider('app');
+    const api = createDiscussionsProvider('api');
+    provider.setRepositories([
+      { label: 'owner/app', provider: app.provider },
+      { label: 'owner/api', provider: api.provider, tooltip: 'Workspace folder: api' }
+    ]);
+
+    const roots = await provider.getChildren();
+    expect(roots.map(item => item.label)).toEqual(['owner/app', 'owner/api']);
+    expect(roots.map(item => item.contextValue)).toEqual(['repository', 'repository']);
+    expect(roots[1].tooltip).toBe('Workspace folder: api');
+
+    const apiChildren = await provider.getChildren(roots[1]);
+    expect(apiChildren).toEqual([api.category]);
+    expect(api.provider.getChildren).toHaveBeenCalledWith(undefined);
+
+    const discussions = await provider.getChildren(api.category);
+    expect(discussions).toEqual([api.discussion]);
+    expect(provider.getProvider(api.discussion)).toBe(api.provider);
+    expect(app.provider.getChildren).not.toHaveBeenCalled();
+  });
+
+  it('should show attached organizations with their discussions below (Requirement 46.2)', async () => {
+    const app = createDiscussionsProvider('app');
+    const org = createDiscussionsProvider('org');
+    provider.setRepositories([
+      { label: 'owner/app', provider: app.provider },
+      { label: 'acme', provider: org.provider, organization: true }
+    ]);
+
+    const roots = await provider.getChildren();
+    expect(roots.map(item => item.contextValue)).toEqual(['repository', 'organization']);
+    expect(roots[1].iconPath).toEqual(new vscode.ThemeIcon('organization'));
+
+    expect(await provider.getChildren(roots[1])).toEqual([org.category]);
+    expect(org.provider.getChildren).toHaveBeenCalledWith(undefined);
+    expect(provider.getProvider(org.category)).toBe(org.provider);
+  });
+
+  it('should forward changes of every repository', () => {
+    const app = createDiscussionsProvider('app');
+    const api = createDiscussionsProvider('api');
+    provider.setRepositories([
+      { label: 'owner/app', provider: app.provider },
+      { label: 'owner/api', provider: api.provider }
+    ]);
+    const listener = jest.fn();
+    provider.onDidChangeTreeData(listener);
+
+    api.fire();
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // Replaced repositories are no longer followed
+    provider.setRepositories([{ label: 'owner/app', provider: app.provider }]);
+    listener.mockClear();
+    api.fire();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should return no children for items of unknown repositories', async () => {
+    const item = new DiscussionTreeItem('Other', vscode.TreeItemCollapsibleState.Collapsed, 'category');
+    expect(await provider.getChildren(item)).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for searchUtils
+ * Requirements: 36.3 - Highlighted matching snippets
+ */
+
+import * as fc from 'fast-check';
+import { toSearchSnippet } from '../utils/searchUtils';
+
+describe('searchUtils', () => {
+  describe('toSearchSnippet', () => {
+    it('空白をまとめてもハイライトの位置を保つ', () => {
+      const fragment = '  We decided\n\nto use   GraphQL\n';
+      const start = fragment.indexOf('GraphQL');
+      const snippet = toSearchSnippet({
+        property: 'body',
+        fragment,
+        highlights: [{ start, end: start + 'GraphQL'.length }]
+      });
+
+      expect(snippet.text).toBe('We decided to use GraphQL');
+      expect(snippet.highlights).toEqual([[18, 25]]);
+    });
+
+    it('範囲外や空のハイライトを除外する', () => {
+      const snippet = toSearchSnippet({
+        property: 'title',
+        fragment: 'API design',
+        highlights: [{ start: 4, end: 100 }, { start: 3, end: 3 }, { start: 50, end: 60 }]
+      });
+
+      expect(snippet.highlights).toEqual([[4, 10]]);
+    });
+  });
+
+  describe('Property-Based Tests', () => {
+    it('ハイライトされた単語は変換後も同じ文字列を指す', () => {
+      const word = fc.stringMatching(/^[a-z]{1,8}$/);
+      const space = fc.constantFrom(' ', '  ', '\n', '\t \n');
+
+      fc.assert(
+        fc.property(fc.array(fc.tuple(word, space), { minLength: 1, maxLength: 8 }), fc.nat(), (parts, seed) => {
+          const fragment = parts.map(([w, s]) => w + s).join('');
+          const index = seed % parts.length;
+          const start = parts.slice(0, index).reduce((length, [w, s]) => length + w.length + s.length, 0);
+          const target = parts[index][0];
+
+          const snippet = toSearchSnippet({ property: 'body', fragment, highlights: [{ start, end: start + target.length }] });
+
+          expect(snippet.highlights).toHaveLength(1);
+          const [hStart, hEnd] = snippet.highlights[0];
+          expect(snippet.text.slice(hStart, hEnd)).toBe(target);
+          expect(snippet.text).not.toMatch(/\s{2}|^\s|\s$/);
+        })
+      );
+    });
+  });
+});
@@ -2,6 +2,23 @@
  * Jest test setup file
  */
 
+// Mock Uri supporting query strings and with()
+const createMockUri = (str: string): any => {
+  const [base, query = ''] = str.split('?');
+  const scheme = base.split(':')[0];
+  const path = base.split(':')[1] || '';
+  return {
+    scheme,
+    path,
+    query,
+    toString: () => str,
+    with: (change: { scheme?: string; path?: string; query?: string }) => {
+      const nextQuery = change.query ?? query;
+      return createMockUri(`${change.scheme ?? scheme}:${change.path ?? path}${nextQuery ? `?${nextQuery}` : ''}`);
+    }
+  };
+};
+
 // Mock VSCode API
 const mockVscode = {
   workspace: {
@@ -13,9 +30,22 @@ const mockVscode = {
       inspect: jest.fn()
     })),
     onDidChangeConfiguration: jest.fn(),
+    onDidChangeWorkspaceFolders: jest.fn(() => ({ dispose: jest.fn() })),
+    getWorkspaceFolder: jest.fn(),
     registerFileSystemProvider: jest.fn(),
     openTextDocument: jest.fn(),
-    registerTextDocumentContentProvider: jest.fn()
+    registerTextDocumentContentProvider: jest.fn(),
+    textDocuments: [],
+    findFiles: jest.fn(() => Promise.resolve([])),
+    createFileSystemWatcher: jest.fn(() => ({
+      onDidCreate: jest.fn(() => ({ dispose: jest.fn() })),
+      onDidChange: jest.fn(() => ({ dispose: jest.fn() })),
+      onDidDelete: jest.fn(() => ({ dispose: jest.fn() })),
+      dispose: jest.fn()
+    })),
+    onDidOpenTextDocument: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidChangeTextDocument: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidSaveTextDocument: jest.fn(() => ({ dispose: jest.fn() }))
   },
   window: {
     showInformationMessage: jest.fn(),
@@ -37,6 +67,32 @@ const mockVscode = {
     withProgress: jest.fn((_options, task) => task({ report: jest.fn() }, { isCancellationRequested: false })),
     registerFileDecorationProvider: jest.fn(() => ({ dispose: jest.fn() }))
   },
+  languages: {
+    createDiagnosticCollection: jest.fn(() => ({
+      set: jest.fn(),
+      delete: jest.fn(),
+      clear: jest.fn(),
+      dispose: jest.fn()
+    }))
+  },
+  Range: class MockRange {
+    constructor(
+      public startLine: number,
+      public startCharacter: number,
+      public endLine: number,
+      public endCharacter: number
+    ) {}
+  },
+  Diagnostic: class MockDiagnostic {
+    source?: string;
+    constructor(public range: any, public message: string, public severity?: number) {}
+  },
+  DiagnosticSeverity: {
+    Error: 0,
+    Warning: 1,
+    Information: 2,
+    Hint: 3
+  },
   ProgressLocation: {
     Notification: 15,
     Window: 10,
@@ -53,11 +109,7 @@ const mockVscode = {
     }))
   },
   Uri: {
-    parse: jest.fn((str: string) => ({
-      scheme: str.split(':')[0],
-      path: str.split(':')[1] || '',
-      toString: () => str
-    })),
+    parse: jest.fn((str: string) => createMockUri(str)),
     file: jest.fn((path: string) => ({
       scheme: 'file',
       path,
@@ -84,6 +136,9 @@ const mockVscode = {
     Directory: 2,
     SymbolicLink: 64
   },
+  FilePermission: {
+    Readonly: 1
+  },
   FileChangeType: {
     Changed: 1,
     Created: 2,
@@ -97,6 +152,12 @@ const mockVscode = {
     NoPermissions: jest.fn((message?: any) => new Error(`NoPermissions: ${message}`)),
     Unavailable: jest.fn((uri?: any) => new Error(`Unavailable: ${uri}`))
   },
+  CancellationError: class MockCancellationError extends Error {
+    constructor() {
+      super('Canceled');
+      this.name = 'Canceled';
+    }
+  },
   EventEmitter: class MockEventEmitter<T> {
     listeners: ((e: T) => void)[] = [];
 
@@ -113,8 +174,12 @@ const mockVscode = {
       this.listeners = [];
     }
   },
-  Disposable: {
-    from: jest.fn()
+  Disposable: class {
+    static from = jest.fn();
+    constructor(readonly callOnDispose?: () => void) {}
+    dispose() {
+      this.callOnDispose?.();
+    }
   },
   ExtensionContext: jest.fn(),
   SecretStorage: jest.fn(() => ({
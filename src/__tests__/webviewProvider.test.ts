@@ -758,6 +758,281 @@ describe('DiscussionWebviewProvider', () => {
         expect(mockWebview.html).toContain('data-target-comment-id="DC_reply_own"');
       });
     });
+
+    describe('Mark as answer (Requirement 23)', () => {
+      const answerableDiscussion: Discussion = {
+        ...mockDiscussion,
+        category: { ...mockCategory, isAnswerable: true }
+      };
+
+      it('should show mark-as-answer button for the author in answerable categories (Requirement 23.1)', async () => {
+        await provider.showComments(answerableDiscussion);
+
+        expect(mockWebview.html).toContain('data-action="mark-answer" data-target-comment-id="DC_1"');
+      });
+
+      it('should not show mark-as-answer button in non-answerable categories', async () => {
+        await provider.showComments(mockDiscussion);
+
+        expect(mockWebview.html).not.toContain('data-action="mark-answer"');
+      });
+
+      it('should not show mark-as-answer button when viewer is not the discussion author', async () => {
+        mockAuthService.getCurrentUser.mockResolvedValue({ ...mockUser, login: 'someoneelse' });
+
+        await provider.showComments(answerableDiscussion);
+
+        expect(mockWebview.html).not.toContain('data-action="mark-answer"');
+      });
+
+      it('should show answer badge and unmark button for the current answer', async () => {
+        await provider.showComments({ ...answerableDiscussion, isAnswered: true, answer: mockComment });
+
+        expect(mockWebview.html).toContain('<span class="answer-badge">');
+        expect(mockWebview.html).toContain('data-action="unmark-answer" data-target-comment-id="DC_1"');
+      });
+
+      it('should mark answer, fire onDidChangeAnswer and refresh (Requirement 23.2, 23.5)', async () => {
+        (mockGitHubService as any).markCommentAsAnswer = jest.fn().mockResolvedValue(undefined);
+        const listener = jest.fn();
+        provider.onDidChangeAnswer(listener);
+
+        await provider.showComments(answerableDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'markAsAnswer', commentId: 'DC_1' });
+
+        expect(mockGitHubService.markCommentAsAnswer).toHaveBeenCalledWith('DC_1');
+        expect(listener).toHaveBeenCalledWith({ discussionId: 'D_1', discussionNumber: 1, isAnswered: true });
+        expect(mockGitHubService.getDiscussion).toHaveBeenCalledWith(1);
+      });
+
+      it('should unmark answer (Requirement 23.3)', async () => {
+        (mockGitHubService as any).unmarkCommentAsAnswer = jest.fn().mockResolvedValue(undefined);
+        const listener = jest.fn();
+        provider.onDidChangeAnswer(listener);
+
+        await provider.showComments(answerableDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'unmarkAsAnswer', commentId: 'DC_1' });
+
+        expect(mockGitHubService.unmarkCommentAsAnswer).toHaveBeenCalledWith('DC_1');
+        expect(listener).toHaveBeenCalledWith({ discussionId: 'D_1', discussionNumber: 1, isAnswered: false });
+      });
+
+      it('should show error and not fire event when marking fails', async () => {
+        (mockGitHubService as any).markCommentAsAnswer = jest.fn().mockRejectedValue(new Error('Forbidden'));
+        const listener = jest.fn();
+        provider.onDidChangeAnswer(listener);
+
+        await provider.showComments(answerableDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'markAsAnswer', commentId: 'DC_1' });
+
+        expect(listener).not.toHaveBeenCalled();
+        expect(vscode.window.showErrorMessage).toHaveBeenCalled();
+      });
+    });
+
+    describe('Editing in a markdown editor (Requirement 30.5, 31.1)', () => {
+      it('should open the comment file of a comment', async () => {
+        (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValueOnce({});
+        await provider.showComments(mockDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'openCommentInEditor', commentId: 'DC_1' });
+
+        expect((vscode.workspace.openTextDocument as jest.Mock).mock.calls[0][0].path).toBe('/discussions/1/comments/DC_1.md');
+        expect(vscode.window.showTextDocument).toHaveBeenCalledWith({}, { preview: false });
+      });
+
+      it('should show an error when the file cannot be opened', async () => {
+        (vscode.workspace.openTextDocument as jest.Mock).mockRejectedValueOnce(new Error('FileNotFound'));
+        await provider.showComments(mockDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'replyInEditor', commentId: 'DC_1' });
+
+        expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('Failed to open reply in editor: FileNotFound');
+        expect(vscode.window.showTextDocument).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('Labels (Requirement 34)', () => {
+      it('should render label chips with readable text colors (Requirement 34.2)', async () => {
+        const discussion: Discussion = {
+          ...mockDiscussion,
+          labels: [
+            { id: 'L_1', name: 'needs-design', color: 'a2eeef' },
+            { id: 'L_2', name: '<blocked>', color: '000000' }
+          ]
+        };
+
+        await provider.showComments(discussion);
+
+        expect(mockWebview.html).toContain(
+          '<span class="label-chip" data-label-id="L_1" style="background-color: #a2eeef; color: #000000;">needs-design</span>'
+        );
+        expect(mockWebview.html).toContain('style="background-color: #000000; color: #ffffff;">&lt;blocked&gt;</span>');
+      });
+
+      it('should ignore label colors that are not hex values', async () => {
+        const discussion: Discussion = {
+          ...mockDiscussion,
+          labels: [{ id: 'L_1', name: 'bug', color: 'red;" onclick="x' }]
+        };
+
+        await provider.showComments(discussion);
+
+        expect(mockWebview.html).toContain('<span class="label-chip" data-label-id="L_1">bug</span>');
+      });
+    });
+
+    describe('Polls (Requirement 41)', () => {
+      const pollDiscussion: Discussion = {
+        ...mockDiscussion,
+        poll: {
+          question: 'Which editor?',
+          totalVoteCount: 3,
+          viewerHasVoted: false,
+          viewerCanVote: true,
+          options: [
+            { id: 'PO_1', option: 'VS Code', totalVoteCount: 2 },
+            { id: 'PO_2', option: '<vim>', totalVoteCount: 1 }
+          ]
+        }
+      };
+
+      it('should render a bar with the percentage of each option (Requirement 41.2)', async () => {
+        await provider.showComments(pollDiscussion);
+
+        expect(mockWebview.html).toContain('Which editor?');
+        expect(mockWebview.html).toContain('<span class="poll-option-result">67% (2票)</span>');
+        expect(mockWebview.html).toContain('<div class="poll-bar-fill" style="width: 33%;"></div>');
+        expect(mockWebview.html).toContain('&lt;vim&gt;');
+      });
+
+      it('should not render a poll for other discussions', async () => {
+        await provider.showComments(mockDiscussion);
+
+        expect(mockWebview.html).not.toContain('<div class="poll-section">');
+      });
+
+      it('should show vote buttons only while the viewer can vote (Requirement 41.3)', async () => {
+        await provider.showComments(pollDiscussion);
+        expect(mockWebview.html).toContain('data-action="vote-poll" data-poll-option-id="PO_1"');
+
+        await provider.showComments({ ...pollDiscussion, number: 2, poll: { ...pollDiscussion.poll!, viewerHasVoted: true } });
+        expect(mockWebview.html).not.toContain('data-action="vote-poll"');
+        expect(mockWebview.html).toContain('投票済み');
+      });
+
+      it('should show 0% when nobody has voted', async () => {
+        await provider.showComments({ ...pollDiscussion, poll: { ...pollDiscussion.poll!, totalVoteCount: 0, options: [{ id: 'PO_1', option: 'A', totalVoteCount: 0 }] } });
+
+        expect(mockWebview.html).toContain('<span class="poll-option-result">0% (0票)</span>');
+      });
+
+      it('should vote and refresh for votePoll message (Requirement 41.3)', async () => {
+        (mockGitHubService as any).addDiscussionPollVote = jest.fn().mockResolvedValue(pollDiscussion.poll);
+
+        await provider.showComments(pollDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'votePoll', optionId: 'PO_2' });
+
+        expect(mockGitHubService.addDiscussionPollVote).toHaveBeenCalledWith('PO_2');
+        expect(mockGitHubService.getDiscussion).toHaveBeenCalledWith(1);
+      });
+
+      it('should post pollVoteFailed when voting fails', async () => {
+        (mockGitHubService as any).addDiscussionPollVote = jest.fn().mockRejectedValue(new Error('Forbidden'));
+
+        await provider.showComments(pollDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'votePoll', optionId: 'PO_1' });
+
+        expect(mockWebview.postMessage).toHaveBeenCalledWith({ type: 'pollVoteFailed' });
+        expect(vscode.window.showErrorMessage).toHaveBeenCalled();
+        expect(mockGitHubService.getDiscussion).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('Reactions (Requirement 22)', () => {
+      it('should render reaction bars for the discussion and each comment (Requirement 22.1)', async () => {
+        await provider.showComments(mockDiscussion);
+
+        expect(mockWebview.html).toContain('data-reaction-subject-id="D_1"');
+        expect(mockWebview.html).toContain('data-reaction-subject-id="DC_1"');
+        expect(mockWebview.html).toContain('data-action="toggle-reaction-picker"');
+      });
+
+      it('should render existing reaction counts and viewer state', async () => {
+        const discussion: Discussion = {
+          ...mockDiscussion,
+          reactions: [{ content: 'THUMBS_UP', count: 5, viewerHasReacted: true }]
+        };
+
+        await provider.showComments(discussion);
+
+        expect(mockWebview.html).toContain(
+          'class="reaction-btn reacted" data-action="toggle-reaction" data-subject-id="D_1" data-reaction-content="THUMBS_UP" data-count="5"'
+        );
+      });
+
+      it('should call addReaction for addReaction message (Requirement 22.3)', async () => {
+        (mockGitHubService as any).addReaction = jest.fn().mockResolvedValue(undefined);
+
+        await provider.showComments(mockDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'addReaction', subjectId: 'DC_1', content: 'THUMBS_UP' });
+
+        expect(mockGitHubService.addReaction).toHaveBeenCalledWith('DC_1', 'THUMBS_UP');
+      });
+
+      it('should call removeReaction for removeReaction message (Requirement 22.4)', async () => {
+        (mockGitHubService as any).removeReaction = jest.fn().mockResolvedValue(undefined);
+
+        await provider.showComments(mockDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'removeReaction', subjectId: 'D_1', content: 'HEART' });
+
+        expect(mockGitHubService.removeReaction).toHaveBeenCalledWith('D_1', 'HEART');
+      });
+
+      it('should ignore unknown reaction content', async () => {
+        (mockGitHubService as any).addReaction = jest.fn().mockResolvedValue(undefined);
+
+        await provider.showComments(mockDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'addReaction', subjectId: 'DC_1', content: 'NOT_A_REACTION' });
+
+        expect(mockGitHubService.addReaction).not.toHaveBeenCalled();
+      });
+
+      it('should post reactionFailed to roll back when the API call fails (Requirement 22.5)', async () => {
+        (mockGitHubService as any).addReaction = jest.fn().mockRejectedValue(new Error('API error'));
+
+        await provider.showComments(mockDiscussion);
+
+        const messageHandler = mockWebview.onDidReceiveMessage.mock.calls[0][0];
+        await messageHandler({ type: 'addReaction', subjectId: 'DC_1', content: 'ROCKET' });
+
+        expect(mockWebview.postMessage).toHaveBeenCalledWith({
+          type: 'reactionFailed',
+          subjectId: 'DC_1',
+          content: 'ROCKET',
+          add: true
+        });
+        expect(vscode.window.showErrorMessage).toHaveBeenCalled();
+      });
+    });
   });
 
   describe('Property-Based Tests', () => {
@@ -0,0 +1,144 @@
+/**
+ * Tests for yamlUtils
+ * Requirements: 32.1 - Front matter, 39.1 - Discussion category form templates
+ */
+
+import * as fc from 'fast-check';
+import { parseYaml } from '../utils/yamlUtils';
+
+describe('yamlUtils', () => {
+  describe('parseYaml', () => {
+    it('ネストしたマッピングとシーケンスを読み取る', () => {
+      const parsed = parseYaml([
+        'title: "[Idea] "',
+        'labels: [enhancement, "needs triage"]',
+        'body:',
+        '  - type: input',
+        '    id: summary',
+        '    attributes:',
+        '      label: Summary',
+        '    validations:',
+        '      required: true',
+        '  - type: dropdown',
+        '    attributes:',
+        '      options:',
+        '        - One',
+        '        - Two',
+        '      default: 1'
+      ].join('\n'));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.value).toEqual({
+        title: '[Idea] ',
+        labels: ['enhancement', 'needs triage'],
+        body: [
+          { type: 'input', id: 'summary', attributes: { label: 'Summary' }, validations: { required: true } },
+          { type: 'dropdown', attributes: { options: ['One', 'Two'], default: 1 } }
+        ]
+      });
+      expect(parsed.lines).toMatchObject({ '': 0, title: 0, body: 2, 'body.0': 3, 'body.0.attributes.label': 6, 'body.1': 9 });
+    });
+
+    it('キーと同じインデントのシーケンスを読み取る', () => {
+      expect(parseYaml('labels:\n- a\n- b\nname: x').value).toEqual({ labels: ['a', 'b'], name: 'x' });
+    });
+
+    it('リテラルと折り返しのブロックスカラーを読み取る', () => {
+      const parsed = parseYaml([
+        'literal: |',
+        '  line 1',
+        '',
+        '    indented',
+        'folded: >',
+        '  a',
+        '  b',
+        '',
+        '  c',
+        'stripped: |-',
+        '  text',
+        '',
+        'kept: |+',
+        '  text',
+        '',
+        'after: # comment',
+        'empty: |'
+      ].join('\n'));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.value).toEqual({
+        literal: 'line 1\n\n  indented\n',
+        folded: 'a b\nc\n',
+        stripped: 'text',
+        kept: 'text\n\n',
+        after: null,
+        empty: ''
+      });
+    });
+
+    it('ブロックスカラー内の # はコメントとして扱わない', () => {
+      expect(parseYaml('value: |\n  # Heading\n  text # not a comment\n').value).toEqual({ value: '# Heading\ntext # not a comment\n' });
+    });
+
+    it('スカラーの型を解決する', () => {
+      expect(parseYaml('a: true\nb: "true"\nc: 42\nd: ~\ne: \'It\'\'s\'\nf: plain # comment').value).toEqual({
+        a: true, b: 'true', c: 42, d: null, e: "It's", f: 'plain'
+      });
+    });
+
+    it('複数行のプレーンスカラーをスペースで連結する', () => {
+      expect(parseYaml('description: first\n  second\nnext: x').value).toEqual({ description: 'first second', next: 'x' });
+    });
+
+    it('フローマッピングとドキュメント開始記号を読み取る', () => {
+      expect(parseYaml('---\n- {label: A, required: true}\n- {}').value).toEqual([{ label: 'A', required: true }, {}]);
+    });
+
+    it('空のドキュメントは null を返す', () => {
+      expect(parseYaml('# only a comment\n').value).toBeNull();
+    });
+
+    it('構文エラーを行と列の位置付きで報告する', () => {
+      expect(parseYaml('a: 1\na: 2').errors).toEqual([{ line: 1, column: 0, message: 'Map keys must be unique' }]);
+      expect(parseYaml('a: [1, 2').errors).toEqual([
+        { line: 0, column: 8, message: 'Flow sequence in block collection must be sufficiently indented and end with a ]' }
+      ]);
+      expect(parseYaml('a:\n\tb: 1').errors).toEqual([{ line: 1, column: 0, message: 'Tabs are not allowed as indentation' }]);
+      expect(parseYaml('a: 1\nnot a mapping').errors).toEqual([
+        { line: 1, column: 0, message: 'Implicit map keys need to be followed by map values' }
+      ]);
+      // Several errors raised by one problem are reported once
+      expect(parseYaml('a: 1\n    b: 2').errors).toHaveLength(1);
+      expect(parseYaml('a: *ref').errors[0].message).toContain('Unresolved alias');
+    });
+
+    it('アンカーとエイリアスを解決する', () => {
+      expect(parseYaml('a: &x 1\nb: *x').value).toEqual({ a: 1, b: 1 });
+    });
+
+    it('failsafe スキーマではスカラーを書かれたとおりの文字列として読み取る', () => {
+      expect(parseYaml('a: true\nb: 1.0\nc: "q"\nd:', { schema: 'failsafe' }).value).toEqual({ a: 'true', b: '1.0', c: 'q', d: '' });
+    });
+  });
+
+  describe('Property-Based Tests', () => {
+    it('JSON 文字列で書いた値は同じ値として読み戻せる', () => {
+      const keyArbitrary = fc.string({ minLength: 1, maxLength: 10 }).filter(s => /^[a-z][a-z0-9_]*$/i.test(s));
+      fc.assert(
+        fc.property(
+          fc.dictionary(keyArbitrary, fc.array(fc.string({ maxLength: 20 }), { maxLength: 4 })),
+          (value) => {
+            const text = Object.entries(value)
+              .map(([key, items]) => `${key}:\n${items.map(item => `  - ${JSON.stringify(item)}`).join('\n')}`)
+              .join('\n');
+            const parsed = parseYaml(text);
+
+            expect(parsed.errors).toEqual([]);
+            const expected = Object.keys(value).length === 0 ? null
+              : Object.fromEntries(Object.entries(value).map(([key, items]) => [key, items.length > 0 ? items : null]));
+            expect(parsed.value).toEqual(expected);
+          }
+        )
+      );
+    });
+  });
+});
@@ -3,6 +3,8 @@
  * Requirements: 9.1 - Centralized constants
  */
 
+import type { ReactionContent } from './models';
+
 /** Maximum length for sanitized file names */
 export const FILE_NAME_MAX_LENGTH = 100;
 
@@ -30,5 +32,32 @@ export const CACHE_KEY_DISCUSSION_PARTICIPANTS = 'discussion-participants';
 /** Storage key for unread state (Requirement 19.5) */
 export const STORAGE_KEY_UNREAD_STATE = 'unread-state';
 
+/** Storage key prefix for tree filters, suffixed with the workspace folder (Requirement 35.3) */
+export const STORAGE_KEY_DISCUSSION_FILTERS = 'discussion-filters';
+
+/** Storage key prefix for saved searches, suffixed with the workspace folder (Requirement 43.4) */
+export const STORAGE_KEY_SAVED_SEARCHES = 'saved-searches';
+
+/** Storage key prefix for the tree grouping mode, suffixed with the workspace folder (Requirement 44.4) */
+export const STORAGE_KEY_GROUP_BY = 'group-by';
+
+/** Storage key prefix for the remembered new discussion category, suffixed with owner/name (Requirement 38.2) */
+export const STORAGE_KEY_DEFAULT_CATEGORY = 'default-category';
+
+/** Storage key for the attached organizations, kept across workspaces (Requirement 46.3) */
+export const STORAGE_KEY_ORGANIZATIONS = 'organizations';
+
 /** Maximum number of unread discussion IDs to track (Requirement 19.6) */
 export const UNREAD_MAX_SIZE = 20;
+
+/** Reaction contents in the order GitHub displays them (Requirement 22.2) */
+export const REACTION_CONTENTS: readonly ReactionContent[] = [
+  'THUMBS_UP',
+  'THUMBS_DOWN',
+  'LAUGH',
+  'HOORAY',
+  'CONFUSED',
+  'HEART',
+  'ROCKET',
+  'EYES'
+];
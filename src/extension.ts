@@ -3,22 +3,54 @@
  */
 
 import * as vscode from 'vscode';
-import type { DiscussionSummary } from './models';
+import type { AttachedOrganization, DiscussionSummary, DiscussionCategory, DiscussionCloseReason, DiscussionSortMode, DiscussionGroupBy, Label } from './models';
 import { DiscussionFileSystemProvider } from './providers/discussionFileSystemProvider';
-import { DiscussionsProvider } from './providers/discussionsProvider';
+import { DiscussionFileSystemRouter } from './providers/discussionFileSystemRouter';
+import { DiscussionsProvider, DiscussionTreeItem, AnsweredFilter } from './providers/discussionsProvider';
+import { RepositoriesProvider } from './providers/repositoriesProvider';
 import { DiscussionWebviewProvider } from './providers/webviewProvider';
-import { AuthenticationService, AutoRefreshService, GitHubService, StorageService, NotificationBadgeService } from './services';
+import { DiscussionFormProvider } from './providers/discussionFormProvider';
+import { DiscussionTemplateDiagnostics } from './providers/discussionTemplateDiagnostics';
+import { AuthenticationService, AutoRefreshService, CombinedBadge, GitHubService, StorageService, NotificationBadgeService } from './services';
+import type { BadgeTarget } from './services/notificationBadgeService';
+import { DiscoveredRepository, FixedRemoteParser, ParsedRemote, discoverRepositories } from './infrastructure/gitRemoteParser';
 import { sanitizeFileName } from './utils/fileNameUtils';
+import { createAppError, extractErrorMessage } from './utils/errorUtils';
+import { DiscussionForm, findTemplateCategory, hasFormFields, parseDiscussionForm } from './utils/discussionFormUtils';
+import { STORAGE_KEY_DEFAULT_CATEGORY, STORAGE_KEY_ORGANIZATIONS, STORAGE_KEY_UNREAD_STATE } from './constants';
+
+/**
+ * Services and views of one repository in the tree (Requirement 45.3)
+ */
+interface RepositoryContext {
+  /** Not set when no GitHub remote was found, so errors come from the first workspace folder as before */
+  repository?: DiscoveredRepository;
+  /** Repository of the /owner/name file paths and stored state, unless no repository was found (Requirement 45.4) */
+  scope?: ParsedRemote;
+  /** Login of the attached organization whose discussions are shown (Requirement 46.2) */
+  organization?: string;
+  githubService: GitHubService;
+  discussionsProvider: DiscussionsProvider;
+  fileSystemProvider: DiscussionFileSystemProvider;
+  webviewProvider: DiscussionWebviewProvider;
+  discussionFormProvider: DiscussionFormProvider;
+  notificationBadgeService: NotificationBadgeService;
+  disposables: vscode.Disposable[];
+}
 
 let extensionContext: vscode.ExtensionContext;
 let authenticationService: AuthenticationService;
 let autoRefreshService: AutoRefreshService;
 let _storageService: StorageService;
-let githubService: GitHubService;
-let discussionsProvider: DiscussionsProvider;
-let fileSystemProvider: DiscussionFileSystemProvider;
-let webviewProvider: DiscussionWebviewProvider;
-let notificationBadgeService: NotificationBadgeService;
+let repositories: RepositoryContext[] = [];
+/** Organizations shown whichever folder is open (Requirement 46.3) */
+let organizations: AttachedOrganization[] = [];
+/** Repositories the contexts were created for, so they are only created again when the list changes */
+let repositoriesKey: string | undefined;
+let repositoriesProvider: RepositoriesProvider;
+let fileSystemRouter: DiscussionFileSystemRouter;
+let treeView: vscode.TreeView<DiscussionTreeItem>;
+let templateDiagnostics: DiscussionTemplateDiagnostics;
 
 export async function activate(context: vscode.ExtensionContext) {
   extensionContext = context;
@@ -33,7 +65,7 @@ export async function activate(context: vscode.ExtensionContext) {
     await initializeServices(context);
 
     // Register providers (must be after services are initialized)
-    registerProviders(context);
+    await registerProviders(context);
 
     // Register commands (must be after providers are initialized)
     registerCommands(context);
@@ -50,33 +82,33 @@ export function deactivate() {
   if (authenticationService) {
     authenticationService.dispose();
   }
-  if (webviewProvider) {
-    webviewProvider.dispose();
+  for (const repository of repositories) {
+    repository.webviewProvider.dispose();
   }
 }
 
 async function initializeServices(context: vscode.ExtensionContext): Promise<void> {
   // Initialize storage service
   _storageService = new StorageService(context);
+  organizations = await _storageService.getData<AttachedOrganization[]>(STORAGE_KEY_ORGANIZATIONS) ?? [];
 
   // Initialize authentication service
   authenticationService = new AuthenticationService();
 
-  // Initialize GitHub service
-  githubService = new GitHubService(authenticationService);
-
   // Initialize auto-refresh service
   autoRefreshService = new AutoRefreshService();
 
   // Listen for auto-refresh events
   autoRefreshService.onDidRefresh(async () => {
-    // Invalidate file system cache to ensure fresh data
-    fileSystemProvider?.invalidateCache();
-    fileSystemProvider?.notifyDiscussionsUpdated();
-    // Refresh tree view
-    discussionsProvider?.refresh();
-    // Update notification badge (Requirement 19.8)
-    await notificationBadgeService?.updateBadge();
+    for (const repository of repositories) {
+      // Invalidate file system cache to ensure fresh data
+      repository.fileSystemProvider.invalidateCache();
+      repository.fileSystemProvider.notifyDiscussionsUpdated();
+      // Refresh tree view
+      repository.discussionsProvider.refresh();
+      // Update notification badge (Requirement 19.8)
+      await repository.notificationBadgeService.updateBadge();
+    }
   });
 
   // Listen for authentication state changes
@@ -84,17 +116,23 @@ async function initializeServices(context: vscode.ExtensionContext): Promise<voi
     await vscode.commands.executeCommand('setContext', 'github-discussions:authenticated', state.isAuthenticated);
 
     if (state.isAuthenticated && state.user) {
-      // Refresh discussions when authenticated
-      discussionsProvider?.refresh();
       // Start auto-refresh when authenticated
       autoRefreshService.start();
-      // Update notification badge (Requirement 19.10)
-      await notificationBadgeService?.updateBadge();
+      for (const repository of repositories) {
+        // Refresh discussions when authenticated
+        repository.discussionsProvider.refresh();
+        // Update notification badge (Requirement 19.10)
+        await repository.notificationBadgeService.updateBadge();
+      }
+      // Check template file names against the categories, which can be read now (Requirement 40.2)
+      void templateDiagnostics?.validateWorkspace();
     } else {
       // Stop auto-refresh when signed out
       autoRefreshService.stop();
       // Clear badge when signed out
-      await notificationBadgeService?.updateBadge();
+      for (const repository of repositories) {
+        await repository.notificationBadgeService.updateBadge();
+      }
     }
   });
 
@@ -108,6 +146,206 @@ async function initializeServices(context: vscode.ExtensionContext): Promise<voi
   }
 }
 
+/**
+ * Show the category quick pick (emoji, name and description)
+ */
+async function pickCategory(categories: DiscussionCategory[], placeHolder: string): Promise<DiscussionCategory | undefined> {
+  const categoryPick = await vscode.window.showQuickPick(
+    categories.map(c => ({ label: `${c.emoji} ${c.name}`, description: c.description, category: c })),
+    { placeHolder }
+  );
+  return categoryPick?.category;
+}
+
+/**
+ * Category for new discussions: the one remembered for this repository, else the defaultCategory setting
+ * The setting matches a category slug or name, case-insensitively (Requirement 38.1)
+ */
+async function getDefaultCategory(repository: RepositoryContext, categories: DiscussionCategory[]): Promise<DiscussionCategory | undefined> {
+  const repoInfo = await repository.githubService.getRepositoryInfo();
+  const rememberedId = await _storageService.getData<string>(`${STORAGE_KEY_DEFAULT_CATEGORY}:${repoInfo.owner}/${repoInfo.name}`);
+  const remembered = categories.find(c => c.id === rememberedId);
+  if (remembered) {
+    return remembered;
+  }
+
+  const setting = (await _storageService.getSettings()).defaultCategory.trim().toLowerCase();
+  return categories.find(c => c.slug?.toLowerCase() === setting || c.name.toLowerCase() === setting);
+}
+
+/**
+ * Remember the category for new discussions in this repository (Requirement 38.2)
+ */
+async function rememberDefaultCategory(repository: RepositoryContext, category: DiscussionCategory): Promise<void> {
+  const repoInfo = await repository.githubService.getRepositoryInfo();
+  await _storageService.storeData(`${STORAGE_KEY_DEFAULT_CATEGORY}:${repoInfo.owner}/${repoInfo.name}`, category.id);
+}
+
+/**
+ * Show the category quick pick with the default category preselected
+ * Each item has a button that picks it and remembers it for this repository (Requirement 38.1, 38.2)
+ */
+function pickNewDiscussionCategory(
+  categories: DiscussionCategory[],
+  defaultCategory: DiscussionCategory | undefined
+): Promise<{ category: DiscussionCategory; remember: boolean } | undefined> {
+  const rememberButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('pin'),
+    tooltip: 'Remember this choice for this repository'
+  };
+  const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { category: DiscussionCategory }>();
+  quickPick.placeholder = 'Select a category for the new discussion';
+  quickPick.items = categories.map(c => ({
+    label: `${c.emoji} ${c.name}`,
+    description: c.id === defaultCategory?.id ? `Default · ${c.description}` : c.description,
+    buttons: [rememberButton],
+    category: c
+  }));
+  quickPick.activeItems = quickPick.items.filter(item => item.category.id === defaultCategory?.id);
+
+  return new Promise(resolve => {
+    let picked: { category: DiscussionCategory; remember: boolean } | undefined;
+    quickPick.onDidAccept(() => {
+      const [item] = quickPick.selectedItems;
+      picked = item ? { category: item.category, remember: false } : undefined;
+      quickPick.hide();
+    });
+    quickPick.onDidTriggerItemButton(event => {
+      picked = { category: event.item.category, remember: true };
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      quickPick.dispose();
+      resolve(picked);
+    });
+    quickPick.show();
+  });
+}
+
+/**
+ * Whether new discussions in the category must be polls
+ * The API does not expose the category format, so the "Polls" category is recognized by name (Requirement 41.5)
+ */
+function isPollCategory(category: DiscussionCategory): boolean {
+  return [category.slug, category.name].some(value => value !== undefined && /^polls?$/i.test(value.trim()));
+}
+
+/**
+ * Pinning happens on github.com: the API reads pinned discussions but cannot change them (Requirement 42.3)
+ */
+async function changePinOnGitHub(summary: DiscussionSummary, pin: boolean): Promise<void> {
+  const choice = await vscode.window.showInformationMessage(
+    `${pin ? 'Pinning' : 'Unpinning'} discussions is not supported by the GitHub API. ${pin ? 'Pin' : 'Unpin'} #${summary.number} on GitHub instead, then refresh the view.`,
+    'Open in Browser'
+  );
+  if (choice === 'Open in Browser') {
+    await vscode.env.openExternal(vscode.Uri.parse(summary.url));
+  }
+}
+
+/**
+ * Load the category form template from .github/DISCUSSION_TEMPLATE/<category slug>.yml (Requirement 39.1)
+ * Templates are read from the repository's workspace folder; repositories only listed in the settings have none
+ * Templates that cannot be used are reported and skipped
+ */
+async function loadDiscussionForm(repository: RepositoryContext, category: DiscussionCategory): Promise<DiscussionForm | undefined> {
+  const workspaceFolder = repository.repository ? repository.repository.workspaceFolder : vscode.workspace.workspaceFolders?.[0];
+  if (!workspaceFolder) {
+    return undefined;
+  }
+
+  const slug = category.slug ?? category.name.toLowerCase().replace(/\s+/g, '-');
+  for (const extension of ['yml', 'yaml']) {
+    const templateUri = vscode.Uri.joinPath(workspaceFolder.uri, '.github', 'DISCUSSION_TEMPLATE', `${slug}.${extension}`);
+    let text: string;
+    try {
+      text = new TextDecoder().decode(await vscode.workspace.fs.readFile(templateUri));
+    } catch {
+      continue;
+    }
+
+    const fileName = `${slug}.${extension}`;
+    const { form, errors } = parseDiscussionForm(text);
+    if (errors.length > 0) {
+      const [first] = errors;
+      vscode.window.showWarningMessage(
+        `Discussion form ${fileName}, line ${first.line + 1}: ${first.message}` +
+        (form ? '' : '. Falling back to the editor.')
+      );
+    }
+    return form && hasFormFields(form) ? form : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Preview a form template, titled with the category it belongs to (Requirement 40.4)
+ */
+async function previewDiscussionForm(templateUri: vscode.Uri, form: DiscussionForm): Promise<void> {
+  // Templates outside the folder of a shown repository are previewed without a category
+  const repository = getRepositoryForUri(templateUri);
+  const categories = await repository?.githubService.getDiscussionCategories().catch(() => [] as DiscussionCategory[]) ?? [];
+  const category = findTemplateCategory(templateUri.path.split('/').pop() ?? '', categories);
+  await (repository ?? repositories[0])?.discussionFormProvider.showPreview(templateUri, form, category);
+}
+
+/**
+ * Label of a repository in the tree and quick picks
+ */
+function getRepositoryLabel(repository: RepositoryContext): string {
+  if (repository.organization) {
+    return repository.organization;
+  }
+  return repository.repository ? `${repository.repository.owner}/${repository.repository.name}` : 'GitHub Discussions';
+}
+
+/**
+ * Repository a tree item belongs to, or the only repository shown (Requirement 45.3)
+ */
+function getRepository(treeItem?: object): RepositoryContext | undefined {
+  const provider = treeItem instanceof DiscussionTreeItem ? repositoriesProvider.getProvider(treeItem) : undefined;
+  return repositories.find(r => r.discussionsProvider === provider) ??
+    (repositories.length === 1 ? repositories[0] : undefined);
+}
+
+/**
+ * Repository a tree item belongs to; from the command palette, the user picks one when several are shown
+ */
+async function pickRepository(treeItem: object | undefined, placeHolder: string): Promise<RepositoryContext | undefined> {
+  const repository = getRepository(treeItem);
+  if (repository || repositories.length === 0) {
+    return repository;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    repositories.map(r => ({ label: getRepositoryLabel(r), description: r.repository?.workspaceFolder?.name, repository: r })),
+    { placeHolder }
+  );
+  return picked?.repository;
+}
+
+/**
+ * Repository of the workspace folder containing uri, or the only repository shown (Requirement 45.2)
+ */
+function getRepositoryForUri(uri: vscode.Uri): RepositoryContext | undefined {
+  if (repositories.length === 1) {
+    return repositories[0];
+  }
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  return folder && repositories.find(r => r.repository?.workspaceFolder?.uri.toString() === folder.uri.toString());
+}
+
+/**
+ * Show the label multi-select quick pick with the given labels pre-selected
+ */
+async function pickLabels(labels: Label[], selectedIds: string[], placeHolder: string): Promise<Label[] | undefined> {
+  const labelPicks = await vscode.window.showQuickPick(
+    labels.map(l => ({ label: l.name, description: `#${l.color}`, picked: selectedIds.includes(l.id), labelModel: l })),
+    { placeHolder, canPickMany: true }
+  );
+  return labelPicks?.map(p => p.labelModel);
+}
+
 function registerCommands(context: vscode.ExtensionContext): void {
   // Authenticate command
   const authenticateCommand = vscode.commands.registerCommand('github-discussions.authenticate', async () => {
@@ -117,7 +355,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
         const user = await authenticationService.getCurrentUser();
         vscode.window.showInformationMessage(`Successfully signed in as ${user?.login || session.account.label}`);
         await vscode.commands.executeCommand('setContext', 'github-discussions:authenticated', true);
-        discussionsProvider.refresh();
+        repositories.forEach(r => r.discussionsProvider.refresh());
       } else {
         vscode.window.showWarningMessage('Failed to sign in to GitHub');
       }
@@ -128,26 +366,63 @@ function registerCommands(context: vscode.ExtensionContext): void {
 
   // Refresh command
   const refreshCommand = vscode.commands.registerCommand('github-discussions.refresh', async () => {
-    discussionsProvider.refresh();
-    // Update notification badge (Requirement 19.10)
-    await notificationBadgeService?.updateBadge();
+    for (const repository of repositories) {
+      repository.discussionsProvider.refresh();
+      // Update notification badge (Requirement 19.10)
+      await repository.notificationBadgeService.updateBadge();
+    }
   });
 
   // Create discussion command
-  const createDiscussionCommand = vscode.commands.registerCommand('github-discussions.createDiscussion', async () => {
+  // Invoked from a category item, the category is used without asking (Requirement 38.3)
+  // Invoked from a repository item, the discussion is created in that repository (Requirement 45.3)
+  const createDiscussionCommand = vscode.commands.registerCommand('github-discussions.createDiscussion', async (treeItem?: { category?: DiscussionCategory }) => {
     try {
-      const categories = await githubService.getDiscussionCategories();
-      if (categories.length === 0) {
-        vscode.window.showErrorMessage('No discussion categories available');
+      const repository = await pickRepository(treeItem, 'Select a repository for the new discussion');
+      if (!repository) {
         return;
       }
+      const { githubService, fileSystemProvider } = repository;
+      let category = treeItem?.category;
 
-      // Select category
-      const categoryPick = await vscode.window.showQuickPick(
-        categories.map(c => ({ label: `${c.emoji} ${c.name}`, description: c.description, category: c })),
-        { placeHolder: 'Select a category for the new discussion' }
-      );
-      if (!categoryPick) {
+      if (!category) {
+        const categories = await githubService.getDiscussionCategories();
+        if (categories.length === 0) {
+          vscode.window.showErrorMessage('No discussion categories available');
+          return;
+        }
+
+        // Select category, starting from the default one
+        const picked = await pickNewDiscussionCategory(categories, await getDefaultCategory(repository, categories));
+        if (!picked) {
+          return;
+        }
+        category = picked.category;
+        if (picked.remember) {
+          await rememberDefaultCategory(repository, category);
+        }
+      }
+
+      // The API cannot create polls, so they are created on github.com (Requirement 41.5)
+      if (isPollCategory(category)) {
+        const repoInfo = await githubService.getRepositoryInfo();
+        const choice = await vscode.window.showInformationMessage(
+          `Polls cannot be created through the GitHub API. Create the poll in "${category.name}" on GitHub instead?`,
+          'Open in Browser'
+        );
+        if (choice === 'Open in Browser') {
+          const slug = category.slug ?? category.name.toLowerCase().replace(/\s+/g, '-');
+          await vscode.env.openExternal(vscode.Uri.parse(
+            `https://github.com/${repoInfo.owner}/${repoInfo.name}/discussions/new?category=${encodeURIComponent(slug)}`
+          ));
+        }
+        return;
+      }
+
+      // Categories with a form template are filled in through the form (Requirement 39.2)
+      const form = await loadDiscussionForm(repository, category);
+      if (form) {
+        await repository.discussionFormProvider.showForm(category, form);
         return;
       }
 
@@ -165,39 +440,17 @@ function registerCommands(context: vscode.ExtensionContext): void {
       if (!title) {
         return;
       }
-
-      // Try to load template from .github/DISCUSSION_TEMPLATE/
-      let initialBody = 'Write your discussion content here...';
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      if (workspaceFolders && workspaceFolders.length > 0) {
-        const templatePath = vscode.Uri.joinPath(
-          workspaceFolders[0].uri,
-          '.github',
-          'DISCUSSION_TEMPLATE',
-          `${categoryPick.category.name.toLowerCase().replace(/\s+/g, '-')}.yml`
-        );
-        try {
-          const templateContent = await vscode.workspace.fs.readFile(templatePath);
-          const templateText = new TextDecoder().decode(templateContent);
-          // Extract body from YAML template
-          const bodyMatch = templateText.match(/body:\s*\|\s*\n([\s\S]*?)(?=\n\w|$)/);
-          if (bodyMatch) {
-            initialBody = bodyMatch[1].split('\n').map(line => line.replace(/^\s{2}/, '')).join('\n').trim();
-          }
-        } catch {
-          // Template not found, use default
-        }
-      }
+      const initialBody = 'Write your discussion content here...';
 
       // Open a new file for the discussion with title as filename
       const fileName = sanitizeFileName(title) + '.md';
-      const uri = vscode.Uri.parse(`${DiscussionFileSystemProvider.scheme}:/discussions/new/${encodeURIComponent(fileName)}`);
+      const uri = DiscussionFileSystemProvider.uri(`/discussions/new/${encodeURIComponent(fileName)}`, repository.scope);
 
       // Store category info in file system provider (not in file content)
-      fileSystemProvider.setPendingCategory(uri.path, categoryPick.category.id);
+      fileSystemProvider.setPendingCategory(uri.path, category.id);
 
       // Create directory and file
-      await fileSystemProvider.createDirectory(vscode.Uri.parse(`${DiscussionFileSystemProvider.scheme}:/discussions/new`));
+      await fileSystemProvider.createDirectory(DiscussionFileSystemProvider.uri('/discussions/new', repository.scope));
 
       const doc = await vscode.workspace.openTextDocument(uri);
       const editor = await vscode.window.showTextDocument(doc);
@@ -207,7 +460,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
         editBuilder.insert(new vscode.Position(0, 0), initialBody);
       });
 
-      vscode.window.showInformationMessage(`Edit the discussion and save to create it in "${categoryPick.category.name}"`);
+      vscode.window.showInformationMessage(`Edit the discussion and save to create it in "${category.name}"`);
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to create discussion: ${error}`);
     }
@@ -217,6 +470,11 @@ function registerCommands(context: vscode.ExtensionContext): void {
   // Called from inline action button in tree view
   const openCommentsCommand = vscode.commands.registerCommand('github-discussions.openComments', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
     try {
+      const repository = await pickRepository(treeItem, 'Select a repository');
+      if (!repository) {
+        return;
+      }
+      const { githubService } = repository;
       let summary = treeItem?.discussionSummary;
 
       // If no discussion provided (e.g., from command palette), show QuickPick
@@ -246,7 +504,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
       // Fetch full discussion details (including comments)
       const discussion = await githubService.getDiscussion(summary.number);
       // Show in webview with comments
-      await webviewProvider.showComments(discussion);
+      await repository.webviewProvider.showComments(discussion);
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to open comments: ${error}`);
     }
@@ -255,11 +513,15 @@ function registerCommands(context: vscode.ExtensionContext): void {
   // Edit discussion command (same as open, opens the markdown file)
   const editDiscussionCommand = vscode.commands.registerCommand('github-discussions.editDiscussion', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
     try {
+      const repository = await pickRepository(treeItem, 'Select a repository');
+      if (!repository) {
+        return;
+      }
       let summary = treeItem?.discussionSummary;
 
       // If no discussion provided (e.g., from command palette), show QuickPick
       if (!summary) {
-        const result = await githubService.getDiscussionSummaries();
+        const result = await repository.githubService.getDiscussionSummaries();
         if (result.discussions.length === 0) {
           vscode.window.showInformationMessage('No discussions found');
           return;
@@ -282,7 +544,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
       }
 
       const fileName = sanitizeFileName(summary.title) + '.md';
-      const uri = vscode.Uri.parse(`${DiscussionFileSystemProvider.scheme}:/discussions/${summary.number}/${encodeURIComponent(fileName)}`);
+      const uri = DiscussionFileSystemProvider.uri(`/discussions/${summary.number}/${encodeURIComponent(fileName)}`, repository.scope);
       const doc = await vscode.workspace.openTextDocument(uri);
       await vscode.window.showTextDocument(doc);
     } catch (error) {
@@ -291,9 +553,10 @@ function registerCommands(context: vscode.ExtensionContext): void {
   });
 
   // Load more discussions command (for pagination in tree view)
-  const loadMoreDiscussionsCommand = vscode.commands.registerCommand('github-discussions.loadMoreDiscussions', async (categoryId?: string) => {
+  // The item tells which repository to load from (Requirement 45.3)
+  const loadMoreDiscussionsCommand = vscode.commands.registerCommand('github-discussions.loadMoreDiscussions', async (categoryId?: string, treeItem?: DiscussionTreeItem) => {
     if (categoryId) {
-      await discussionsProvider.loadMoreForCategory(categoryId);
+      await getRepository(treeItem)?.discussionsProvider.loadMoreForCategory(categoryId);
     }
   });
 
@@ -304,7 +567,11 @@ function registerCommands(context: vscode.ExtensionContext): void {
 
       // If no discussion provided (e.g., from command palette), show QuickPick
       if (!summary) {
-        const result = await githubService.getDiscussionSummaries();
+        const repository = await pickRepository(treeItem, 'Select a repository');
+        if (!repository) {
+          return;
+        }
+        const result = await repository.githubService.getDiscussionSummaries();
         if (result.discussions.length === 0) {
           vscode.window.showInformationMessage('No discussions found');
           return;
@@ -333,6 +600,547 @@ function registerCommands(context: vscode.ExtensionContext): void {
     }
   });
 
+  // Show / hide closed discussions toggle (Requirement 24.4)
+  const setShowClosed = async (showClosed: boolean) => {
+    repositories.forEach(r => r.discussionsProvider.setShowClosed(showClosed));
+    await vscode.commands.executeCommand('setContext', 'github-discussions:showClosed', showClosed);
+  };
+  const showClosedDiscussionsCommand = vscode.commands.registerCommand('github-discussions.showClosedDiscussions', () => setShowClosed(true));
+  const hideClosedDiscussionsCommand = vscode.commands.registerCommand('github-discussions.hideClosedDiscussions', () => setShowClosed(false));
+
+  // Close discussion command (Requirement 24.1)
+  const closeDiscussionCommand = vscode.commands.registerCommand('github-discussions.closeDiscussion', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
+    const summary = treeItem?.discussionSummary;
+    const repository = getRepository(treeItem);
+    if (!summary || !repository) {
+      return;
+    }
+    const { githubService, discussionsProvider, fileSystemProvider } = repository;
+
+    const reasonPick = await vscode.window.showQuickPick(
+      [
+        { label: 'Resolved', description: 'The discussion has been resolved', reason: 'RESOLVED' as DiscussionCloseReason },
+        { label: 'Outdated', description: 'The discussion is no longer relevant', reason: 'OUTDATED' as DiscussionCloseReason },
+        { label: 'Duplicate', description: 'The discussion is a duplicate of another', reason: 'DUPLICATE' as DiscussionCloseReason }
+      ],
+      { placeHolder: `Select a reason for closing #${summary.number}` }
+    );
+    if (!reasonPick) {
+      return;
+    }
+
+    try {
+      await githubService.closeDiscussion(summary.id, reasonPick.reason);
+      discussionsProvider.setDiscussionState(summary.id, { closed: true, locked: summary.locked });
+      fileSystemProvider.invalidateCache(summary.number);
+      vscode.window.showInformationMessage(`Closed discussion #${summary.number} as ${reasonPick.label.toLowerCase()}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to close discussion: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Reopen discussion command (Requirement 24.2)
+  const reopenDiscussionCommand = vscode.commands.registerCommand('github-discussions.reopenDiscussion', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
+    const summary = treeItem?.discussionSummary;
+    const repository = getRepository(treeItem);
+    if (!summary || !repository) {
+      return;
+    }
+    const { githubService, discussionsProvider, fileSystemProvider } = repository;
+
+    try {
+      await githubService.reopenDiscussion(summary.id);
+      discussionsProvider.setDiscussionState(summary.id, { closed: false, locked: summary.locked });
+      fileSystemProvider.invalidateCache(summary.number);
+      vscode.window.showInformationMessage(`Reopened discussion #${summary.number}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to reopen discussion: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Lock discussion command (Requirement 24.3)
+  const lockDiscussionCommand = vscode.commands.registerCommand('github-discussions.lockDiscussion', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
+    const summary = treeItem?.discussionSummary;
+    const repository = getRepository(treeItem);
+    if (!summary || !repository) {
+      return;
+    }
+    const { githubService, discussionsProvider, fileSystemProvider } = repository;
+
+    try {
+      await githubService.lockDiscussion(summary.id);
+      discussionsProvider.setDiscussionState(summary.id, { closed: summary.closed, locked: true });
+      fileSystemProvider.invalidateCache(summary.number);
+      vscode.window.showInformationMessage(`Locked discussion #${summary.number}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to lock discussion: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Unlock discussion command (Requirement 24.3)
+  const unlockDiscussionCommand = vscode.commands.registerCommand('github-discussions.unlockDiscussion', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
+    const summary = treeItem?.discussionSummary;
+    const repository = getRepository(treeItem);
+    if (!summary || !repository) {
+      return;
+    }
+    const { githubService, discussionsProvider, fileSystemProvider } = repository;
+
+    try {
+      await githubService.unlockDiscussion(summary.id);
+      discussionsProvider.setDiscussionState(summary.id, { closed: summary.closed, locked: false });
+      fileSystemProvider.invalidateCache(summary.number);
+      vscode.window.showInformationMessage(`Unlocked discussion #${summary.number}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to unlock discussion: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Pin / unpin discussion commands (Requirement 42.3)
+  const pinDiscussionCommand = vscode.commands.registerCommand('github-discussions.pinDiscussion', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
+    if (treeItem?.discussionSummary) {
+      await changePinOnGitHub(treeItem.discussionSummary, true);
+    }
+  });
+
+  const unpinDiscussionCommand = vscode.commands.registerCommand('github-discussions.unpinDiscussion', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
+    if (treeItem?.discussionSummary) {
+      await changePinOnGitHub(treeItem.discussionSummary, false);
+    }
+  });
+
+  // Delete discussion command (Requirement 25.1)
+  // Confirmation, cache invalidation and tree update are handled by the file system provider
+  const deleteDiscussionCommand = vscode.commands.registerCommand('github-discussions.deleteDiscussion', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
+    const summary = treeItem?.discussionSummary;
+    const repository = getRepository(treeItem);
+    if (!summary || !repository) {
+      return;
+    }
+    const { fileSystemProvider } = repository;
+
+    try {
+      const deleted = await fileSystemProvider.deleteDiscussion(summary.number);
+      if (deleted) {
+        vscode.window.showInformationMessage(`Deleted discussion #${summary.number}`);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to delete discussion: ${createAppError(error).message}`);
+    }
+  });
+
+  // Change category command (Requirement 27.2)
+  const changeCategoryCommand = vscode.commands.registerCommand('github-discussions.changeCategory', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
+    const summary = treeItem?.discussionSummary;
+    const repository = getRepository(treeItem);
+    if (!summary || !repository) {
+      return;
+    }
+    const { githubService, discussionsProvider, fileSystemProvider } = repository;
+
+    try {
+      const categories = (await githubService.getDiscussionCategories()).filter(c => c.id !== summary.category.id);
+      if (categories.length === 0) {
+        vscode.window.showInformationMessage('No other discussion categories available');
+        return;
+      }
+
+      const category = await pickCategory(categories, `Move #${summary.number} from "${summary.category.name}" to...`);
+      if (!category) {
+        return;
+      }
+
+      const updated = await githubService.updateDiscussion(summary.id, { categoryId: category.id });
+      discussionsProvider.moveDiscussion(summary.id, updated.category, updated.isAnswered);
+      fileSystemProvider.invalidateCache(summary.number);
+      vscode.window.showInformationMessage(`Moved discussion #${summary.number} to "${updated.category.name}"`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to change category: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Reply in editor command (Requirement 31.1)
+  const replyInEditorCommand = vscode.commands.registerCommand('github-discussions.replyInEditor', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
+    const summary = treeItem?.discussionSummary;
+    const repository = getRepository(treeItem);
+    if (!summary || !repository) {
+      return;
+    }
+
+    try {
+      const doc = await vscode.workspace.openTextDocument(DiscussionFileSystemProvider.newCommentUri(summary.number, undefined, repository.scope));
+      await vscode.window.showTextDocument(doc, { preview: false });
+      vscode.window.showInformationMessage(`Write your comment and save to post it to #${summary.number}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to open comment editor: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Edit labels command (Requirement 34.5)
+  const editLabelsCommand = vscode.commands.registerCommand('github-discussions.editLabels', async (treeItem?: { discussionSummary?: DiscussionSummary }) => {
+    const summary = treeItem?.discussionSummary;
+    const repository = getRepository(treeItem);
+    if (!summary || !repository) {
+      return;
+    }
+    const { githubService, discussionsProvider, fileSystemProvider, webviewProvider } = repository;
+
+    try {
+      const labels = await githubService.getRepositoryLabels();
+      if (labels.length === 0) {
+        vscode.window.showInformationMessage('No labels are defined in this repository');
+        return;
+      }
+
+      const currentIds = (summary.labels ?? []).map(l => l.id);
+      const selected = await pickLabels(labels, currentIds, `Labels for #${summary.number}`);
+      if (!selected) {
+        return;
+      }
+
+      const selectedIds = selected.map(l => l.id);
+      const addLabelIds = selectedIds.filter(id => !currentIds.includes(id));
+      const removeLabelIds = currentIds.filter(id => !selectedIds.includes(id));
+      if (addLabelIds.length === 0 && removeLabelIds.length === 0) {
+        return;
+      }
+
+      // Labels are added and removed in separate calls, so the tree is updated to what was applied
+      // even when the second call fails
+      let applied = summary.labels ?? [];
+      let step: 'add' | 'remove' | 'done' = 'add';
+      try {
+        if (addLabelIds.length > 0) {
+          await githubService.addLabelsToDiscussion(summary.id, addLabelIds);
+          applied = [...applied, ...selected.filter(l => addLabelIds.includes(l.id))];
+        }
+        step = 'remove';
+        if (removeLabelIds.length > 0) {
+          await githubService.removeLabelsFromDiscussion(summary.id, removeLabelIds);
+          applied = selected;
+        }
+        step = 'done';
+      } catch (error) {
+        const added = step === 'remove' && addLabelIds.length > 0 ? ' after adding the new ones' : '';
+        vscode.window.showErrorMessage(`Failed to ${step} labels of discussion #${summary.number}${added}: ${extractErrorMessage(error)}`);
+      }
+      discussionsProvider.setDiscussionLabels(summary.id, applied);
+      fileSystemProvider.invalidateCache(summary.number);
+      await webviewProvider.refreshCommentsPanel(summary.number);
+      if (step === 'done') {
+        vscode.window.showInformationMessage(`Updated labels of discussion #${summary.number}`);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to update labels: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Search command: filter loaded discussions by title (Requirement 35.1)
+  const searchDiscussionsCommand = vscode.commands.registerCommand('github-discussions.searchDiscussions', async () => {
+    const query = await vscode.window.showInputBox({
+      prompt: 'Filter discussions by title (leave empty to clear)',
+      placeHolder: 'Search discussions',
+      value: repositories[0]?.discussionsProvider.getFilters().searchQuery
+    });
+    if (query === undefined) {
+      return;
+    }
+    repositories.forEach(r => r.discussionsProvider.setSearchQuery(query));
+  });
+
+  // Full-text search on GitHub (Requirement 36.1)
+  const fullTextSearchCommand = vscode.commands.registerCommand('github-discussions.fullTextSearch', async () => {
+    const repository = await pickRepository(undefined, 'Select a repository to search');
+    if (!repository) {
+      return;
+    }
+    const { discussionsProvider } = repository;
+    const query = await vscode.window.showInputBox({
+      prompt: 'Search all discussions with GitHub search syntax (leave empty to close the results)',
+      placeHolder: 'e.g. rate limit label:needs-design is:unanswered in:comments',
+      value: discussionsProvider.getSearchResultsQuery()
+    });
+    if (query === undefined) {
+      return;
+    }
+    if (!query.trim()) {
+      discussionsProvider.clearSearchResults();
+      return;
+    }
+    await discussionsProvider.searchDiscussions(query.trim());
+  });
+
+  const clearSearchResultsCommand = vscode.commands.registerCommand('github-discussions.clearSearchResults', (treeItem?: DiscussionTreeItem) => {
+    getRepository(treeItem)?.discussionsProvider.clearSearchResults();
+  });
+
+  // Save a search as a smart view, starting from the current search results (Requirement 43.4)
+  const saveSearchCommand = vscode.commands.registerCommand('github-discussions.saveSearch', async (treeItem?: DiscussionTreeItem) => {
+    const repository = await pickRepository(treeItem, 'Select a repository for the smart view');
+    if (!repository) {
+      return;
+    }
+    const { discussionsProvider } = repository;
+    const query = await vscode.window.showInputBox({
+      prompt: 'Search to show as a smart view, in GitHub search syntax',
+      placeHolder: 'e.g. label:needs-design is:unanswered',
+      value: discussionsProvider.getSearchResultsQuery(),
+      validateInput: value => value.trim() ? null : 'Search query is required'
+    });
+    if (!query) {
+      return;
+    }
+
+    const name = await vscode.window.showInputBox({
+      prompt: 'Name of the smart view',
+      value: query.trim(),
+      validateInput: value => value.trim() ? null : 'Name is required'
+    });
+    if (!name) {
+      return;
+    }
+
+    await discussionsProvider.saveSearch({ name: name.trim(), query: query.trim() });
+  });
+
+  const removeSavedSearchCommand = vscode.commands.registerCommand('github-discussions.removeSavedSearch', async (treeItem?: { label?: string | vscode.TreeItemLabel }) => {
+    const repository = await pickRepository(treeItem, 'Select a repository');
+    if (!repository) {
+      return;
+    }
+    const { discussionsProvider } = repository;
+    let name = typeof treeItem?.label === 'string' ? treeItem.label : treeItem?.label?.label;
+
+    // From the command palette, pick the saved search
+    if (!name) {
+      const savedSearches = discussionsProvider.getSavedSearches();
+      if (savedSearches.length === 0) {
+        vscode.window.showInformationMessage('No saved searches');
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        savedSearches.map(search => ({ label: search.name, description: search.query })),
+        { placeHolder: 'Select a saved search to remove' }
+      );
+      name = picked?.label;
+    }
+
+    if (name) {
+      await discussionsProvider.removeSavedSearch(name);
+    }
+  });
+
+  // Filter by category command (Requirement 35.1)
+  // Categories and labels belong to one repository, which is picked when several are shown (Requirement 45.3)
+  const filterByCategoryCommand = vscode.commands.registerCommand('github-discussions.filterByCategory', async () => {
+    try {
+      const repository = await pickRepository(undefined, 'Select a repository to filter');
+      if (!repository) {
+        return;
+      }
+      const { githubService, discussionsProvider } = repository;
+      const categories = await githubService.getDiscussionCategories();
+      const selectedIds = discussionsProvider.getFilters().categoryIds;
+      const picks = await vscode.window.showQuickPick(
+        categories.map(c => ({ label: `${c.emoji} ${c.name}`, description: c.description, picked: selectedIds.includes(c.id), category: c })),
+        { placeHolder: 'Show only these categories (select none to show all)', canPickMany: true }
+      );
+      if (!picks) {
+        return;
+      }
+      discussionsProvider.setCategoryFilter(picks.map(p => p.category.id));
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to load categories: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Filter by answered state command (Requirement 35.1)
+  const filterByAnsweredCommand = vscode.commands.registerCommand('github-discussions.filterByAnswered', async () => {
+    const current = repositories[0]?.discussionsProvider.getFilters().answered;
+    const options: { label: string; filter: AnsweredFilter }[] = [
+      { label: 'All', filter: 'all' },
+      { label: 'Answered', filter: 'answered' },
+      { label: 'Unanswered', filter: 'unanswered' }
+    ];
+    const pick = await vscode.window.showQuickPick(
+      options.map(o => ({ ...o, description: o.filter === current ? 'Current' : undefined })),
+      { placeHolder: 'Show discussions by answered state' }
+    );
+    if (!pick) {
+      return;
+    }
+    repositories.forEach(r => r.discussionsProvider.setAnsweredFilter(pick.filter));
+  });
+
+  // Sort command (Requirement 37.3)
+  const sortDiscussionsCommand = vscode.commands.registerCommand('github-discussions.sortDiscussions', async () => {
+    const current = repositories[0]?.discussionsProvider.getSortMode();
+    const options: { label: string; detail?: string; sortMode: DiscussionSortMode }[] = [
+      { label: 'Recently updated', sortMode: 'updated' },
+      { label: 'Newest', sortMode: 'newest' },
+      { label: 'Oldest', sortMode: 'oldest' },
+      { label: 'Most commented', detail: 'Fetched through GitHub search', sortMode: 'comments' },
+      { label: 'Top (by upvotes)', detail: 'Most 👍 reactions fetched through GitHub search, ordered by upvotes', sortMode: 'top' }
+    ];
+    const pick = await vscode.window.showQuickPick(
+      options.map(o => ({ ...o, description: o.sortMode === current ? 'Current' : undefined })),
+      { placeHolder: 'Sort discussions by' }
+    );
+    if (!pick) {
+      return;
+    }
+    repositories.forEach(r => r.discussionsProvider.setSortMode(pick.sortMode));
+  });
+
+  // Group By command (Requirement 44.1)
+  const groupByCommand = vscode.commands.registerCommand('github-discussions.groupBy', async () => {
+    const current = repositories[0]?.discussionsProvider.getGroupBy();
+    const options: { label: string; detail?: string; groupBy: DiscussionGroupBy }[] = [
+      { label: 'Category', groupBy: 'category' },
+      { label: 'Author', detail: 'Groups found in the loaded discussions, each loaded page by page', groupBy: 'author' },
+      { label: 'Label', detail: 'Groups found in the loaded discussions, each loaded page by page', groupBy: 'label' },
+      { label: 'Answered state', detail: 'Groups found in the loaded discussions, each loaded page by page', groupBy: 'answered' },
+      { label: 'Month of last activity', detail: 'Groups found in the loaded discussions, each loaded page by page', groupBy: 'month' },
+      { label: 'None (flat list)', groupBy: 'flat' }
+    ];
+    const pick = await vscode.window.showQuickPick(
+      options.map(o => ({ ...o, description: o.groupBy === current ? 'Current' : undefined })),
+      { placeHolder: 'Group discussions by' }
+    );
+    if (!pick) {
+      return;
+    }
+    repositories.forEach(r => r.discussionsProvider.setGroupBy(pick.groupBy));
+  });
+
+  // Clear filters command (Requirement 35.4)
+  const clearFiltersCommand = vscode.commands.registerCommand('github-discussions.clearFilters', () => {
+    repositories.forEach(r => r.discussionsProvider.clearFilters());
+  });
+
+  // Filter by label command (Requirement 34.4)
+  const filterByLabelCommand = vscode.commands.registerCommand('github-discussions.filterByLabel', async () => {
+    try {
+      const repository = await pickRepository(undefined, 'Select a repository to filter');
+      if (!repository) {
+        return;
+      }
+      const { githubService, discussionsProvider } = repository;
+      const labels = await githubService.getRepositoryLabels();
+      if (labels.length === 0) {
+        vscode.window.showInformationMessage('No labels are defined in this repository');
+        return;
+      }
+
+      const selected = await pickLabels(labels, discussionsProvider.getLabelFilter(), 'Show discussions with any of these labels');
+      if (!selected) {
+        return;
+      }
+      discussionsProvider.setLabelFilter(selected.map(l => l.id));
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to load labels: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Preview template command (Requirement 40.4)
+  const previewTemplateCommand = vscode.commands.registerCommand('github-discussions.previewTemplate', async (uri?: vscode.Uri) => {
+    try {
+      let templateUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!templateUri || !DiscussionTemplateDiagnostics.isTemplate(templateUri)) {
+        const templates = await vscode.workspace.findFiles(`**/${DiscussionTemplateDiagnostics.templateGlob}`);
+        if (templates.length === 0) {
+          vscode.window.showInformationMessage('No discussion form templates found in .github/DISCUSSION_TEMPLATE');
+          return;
+        }
+        const picked = await vscode.window.showQuickPick(
+          templates.map(t => ({ label: t.path.split('/').pop() ?? '', description: vscode.workspace.asRelativePath(t), uri: t })),
+          { placeHolder: 'Select a discussion form template to preview' }
+        );
+        if (!picked) {
+          return;
+        }
+        templateUri = picked.uri;
+      }
+
+      // Unsaved edits are previewed as well
+      const targetUri = templateUri;
+      const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === targetUri.toString());
+      const text = openDocument?.getText() ?? new TextDecoder().decode(await vscode.workspace.fs.readFile(targetUri));
+      const { form, errors } = parseDiscussionForm(text);
+      if (!form) {
+        const [first] = errors;
+        vscode.window.showErrorMessage(`Cannot preview ${targetUri.path.split('/').pop()}: line ${first.line + 1}: ${first.message}`);
+        return;
+      }
+      await previewDiscussionForm(targetUri, form);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to preview template: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Attach organization command (Requirement 46.1)
+  // The organization's discussions are read from its .github repository or another public repository with discussions enabled
+  const attachOrganizationCommand = vscode.commands.registerCommand('github-discussions.attachOrganization', async () => {
+    try {
+      const login = (await vscode.window.showInputBox({
+        prompt: 'Organization whose discussions to show',
+        placeHolder: 'e.g. octo-org',
+        validateInput: value => /^[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?$/.test(value.trim()) ? undefined : 'Enter the login of an organization'
+      }))?.trim();
+      if (!login) {
+        return;
+      }
+      if (organizations.some(o => o.login.toLowerCase() === login.toLowerCase())) {
+        vscode.window.showInformationMessage(`${login} is already attached`);
+        return;
+      }
+
+      const candidates = await repositories[0].githubService.getOrganizationDiscussionRepositories(login);
+      if (candidates.length === 0) {
+        vscode.window.showWarningMessage(`${login} has no public repository with discussions enabled`);
+        return;
+      }
+
+      // Several repositories may have discussions enabled; the user tells which one holds the organization's
+      const source = candidates.length === 1 ? candidates[0] : (await vscode.window.showQuickPick(
+        candidates.map(r => ({ label: r.name, description: r.fullName, repository: r })),
+        { placeHolder: `Select the repository holding the discussions of ${login}` }
+      ))?.repository;
+      if (!source) {
+        return;
+      }
+
+      organizations = [...organizations, { login: source.owner, owner: source.owner, name: source.name }];
+      await _storageService.storeData(STORAGE_KEY_ORGANIZATIONS, organizations);
+      await repositoriesChanged(context);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to attach organization: ${extractErrorMessage(error)}`);
+    }
+  });
+
+  // Detach organization command (Requirement 46.3)
+  const detachOrganizationCommand = vscode.commands.registerCommand('github-discussions.detachOrganization', async (treeItem?: DiscussionTreeItem) => {
+    let login = treeItem ? getRepository(treeItem)?.organization : undefined;
+    if (!login) {
+      if (organizations.length === 0) {
+        vscode.window.showInformationMessage('No organization is attached');
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        organizations.map(o => ({ label: o.login, description: `${o.owner}/${o.name}` })),
+        { placeHolder: 'Select an organization to detach' }
+      );
+      login = picked?.label;
+    }
+    if (!login) {
+      return;
+    }
+
+    organizations = organizations.filter(o => o.login !== login);
+    await _storageService.storeData(STORAGE_KEY_ORGANIZATIONS, organizations);
+    await repositoriesChanged(context);
+  });
+
   context.subscriptions.push(
     authenticateCommand,
     refreshCommand,
@@ -340,26 +1148,206 @@ function registerCommands(context: vscode.ExtensionContext): void {
     openCommentsCommand,
     editDiscussionCommand,
     loadMoreDiscussionsCommand,
-    openInBrowserCommand
+    openInBrowserCommand,
+    showClosedDiscussionsCommand,
+    hideClosedDiscussionsCommand,
+    closeDiscussionCommand,
+    reopenDiscussionCommand,
+    lockDiscussionCommand,
+    unlockDiscussionCommand,
+    pinDiscussionCommand,
+    unpinDiscussionCommand,
+    deleteDiscussionCommand,
+    changeCategoryCommand,
+    replyInEditorCommand,
+    editLabelsCommand,
+    searchDiscussionsCommand,
+    fullTextSearchCommand,
+    clearSearchResultsCommand,
+    saveSearchCommand,
+    removeSavedSearchCommand,
+    filterByCategoryCommand,
+    filterByLabelCommand,
+    filterByAnsweredCommand,
+    clearFiltersCommand,
+    sortDiscussionsCommand,
+    groupByCommand,
+    previewTemplateCommand,
+    attachOrganizationCommand,
+    detachOrganizationCommand
   );
 }
 
-function registerProviders(context: vscode.ExtensionContext): void {
-  // Initialize DiscussionsProvider for tree view
-  discussionsProvider = new DiscussionsProvider(githubService, authenticationService);
-
-  // Register tree data provider
-  const treeView = vscode.window.createTreeView('github-discussions', {
-    treeDataProvider: discussionsProvider,
+async function registerProviders(context: vscode.ExtensionContext): Promise<void> {
+  // Register tree data provider, with a node per repository when several are shown (Requirement 45.3)
+  repositoriesProvider = new RepositoriesProvider();
+  treeView = vscode.window.createTreeView('github-discussions', {
+    treeDataProvider: repositoriesProvider,
     showCollapseAll: true
   });
 
-  // Initialize NotificationBadgeService for activity bar badge (Requirement 19.1)
-  notificationBadgeService = new NotificationBadgeService(
+  // Register the Virtual File System once; each repository serves its own paths (Requirement 45.4)
+  fileSystemRouter = new DiscussionFileSystemRouter();
+  const fsRegistration = vscode.workspace.registerFileSystemProvider(
+    DiscussionFileSystemProvider.scheme,
+    fileSystemRouter,
+    { isCaseSensitive: true, isReadonly: false }
+  );
+
+  // Create the services of each repository (Requirements 45.1, 45.2)
+  await updateRepositories(context);
+  const configurationSubscription = vscode.workspace.onDidChangeConfiguration(event => {
+    if (event.affectsConfiguration('github-discussions.repositories')) {
+      void repositoriesChanged(context);
+    }
+  });
+  const workspaceFoldersSubscription = vscode.workspace.onDidChangeWorkspaceFolders(() => void repositoriesChanged(context));
+
+  // Report problems in form templates while they are edited (Requirements 40.1, 40.2)
+  // File names are checked against the categories of the repository in the template's folder
+  templateDiagnostics = new DiscussionTemplateDiagnostics(uri => getRepositoryForUri(uri)?.githubService);
+  void templateDiagnostics.validateWorkspace();
+
+  // Update open template previews when the template is saved (Requirement 40.4)
+  const templateSaveSubscription = vscode.workspace.onDidSaveTextDocument(document => {
+    if (repositories.some(r => r.discussionFormProvider.hasPreview(document.uri))) {
+      const { form } = parseDiscussionForm(document.getText());
+      if (form) {
+        void previewDiscussionForm(document.uri, form);
+      }
+    }
+  });
+
+  context.subscriptions.push(
     treeView,
+    repositoriesProvider,
+    fsRegistration,
+    fileSystemRouter,
+    configurationSubscription,
+    workspaceFoldersSubscription,
+    templateDiagnostics,
+    templateSaveSubscription,
+    new vscode.Disposable(() => repositories.forEach(disposeRepositoryContext))
+  );
+}
+
+/**
+ * Show the repositories again, with the unread discussions of the new ones
+ */
+async function repositoriesChanged(context: vscode.ExtensionContext): Promise<void> {
+  if (await updateRepositories(context)) {
+    repositories.forEach(r => void r.notificationBadgeService.updateBadge());
+  }
+}
+
+/**
+ * Show the repositories of the workspace folders and the github-discussions.repositories setting (Requirements 45.1, 45.2),
+ * followed by the attached organizations (Requirement 46.2)
+ * The services of every repository are created again when the list changes
+ * @returns Whether the list changed
+ */
+async function updateRepositories(context: vscode.ExtensionContext): Promise<boolean> {
+  // Read before any tree is shown, so the first load already uses the configured order (Requirement 37.1)
+  const { defaultSort } = await _storageService.getSettings();
+  const configured = vscode.workspace.getConfiguration('github-discussions').get<string[]>('repositories');
+  const discovered = discoverRepositories(Array.isArray(configured) ? configured : []);
+  // An organization whose repository is already shown is not shown twice
+  const attached = organizations.filter(o => !discovered.some(r =>
+    r.owner.toLowerCase() === o.owner.toLowerCase() && r.name.toLowerCase() === o.name.toLowerCase()
+  ));
+  const key = JSON.stringify([
+    ...discovered.map(r => [r.owner, r.name, r.workspaceFolder?.uri.toString()]),
+    ...attached.map(o => [o.owner, o.name, o.login])
+  ]);
+  if (key === repositoriesKey) {
+    return false;
+  }
+  repositoriesKey = key;
+
+  const shown: Array<{ repository?: DiscoveredRepository; organization?: string }> = [
+    ...discovered.map(repository => ({ repository })),
+    ...attached.map(({ login, owner, name }) => ({ repository: { owner, name }, organization: login }))
+  ];
+  const combinedBadge = new CombinedBadge(treeView);
+  // One after the other, so the state stored before it was kept per repository goes to the first one,
+  // which was the repository shown alone then
+  const contexts: RepositoryContext[] = [];
+  for (const { repository, organization } of shown.length > 0 ? shown : [{}]) {
+    contexts.push(await createRepositoryContext(context, repository, shown.length > 1 ? combinedBadge.createTarget() : treeView, defaultSort, organization));
+  }
+  // A newer list replaced this one while its state was restored
+  if (repositoriesKey !== key) {
+    contexts.forEach(disposeRepositoryContext);
+    return false;
+  }
+
+  repositories.forEach(disposeRepositoryContext);
+  treeView.badge = undefined;
+  repositories = contexts;
+
+  repositoriesProvider.setRepositories(repositories.map(r => ({
+    label: getRepositoryLabel(r),
+    provider: r.discussionsProvider,
+    tooltip: r.organization
+      ? `Discussions of the ${r.organization} organization (${r.repository?.owner}/${r.repository?.name})`
+      : r.repository?.workspaceFolder ? `Workspace folder: ${r.repository.workspaceFolder.name}` : undefined,
+    organization: r.organization !== undefined
+  })));
+  void updateFilterDescription();
+  return true;
+}
+
+/**
+ * Show the active filters next to the view title and enable Clear Filters (Requirements 35.2, 35.4)
+ * Filters set for several repositories at once are described once
+ */
+async function updateFilterDescription(): Promise<void> {
+  const descriptions = repositories
+    .map(r => r.discussionsProvider.describeFilters())
+    .filter((description): description is string => description !== undefined);
+  treeView.description = descriptions.length > 0 ? [...new Set(descriptions)].join(' | ') : undefined;
+  await vscode.commands.executeCommand('setContext', 'github-discussions:filtered', repositories.some(r => r.discussionsProvider.hasActiveFilters()));
+}
+
+/**
+ * Create the services and views of one repository, with the state stored for it
+ * @param repository Repository to show; the first workspace folder's remote is read when not set
+ * @param defaultSort Order the discussions are first loaded in (Requirement 37.1)
+ * @param organization Set for the repository of an attached organization
+ */
+async function createRepositoryContext(
+  context: vscode.ExtensionContext,
+  repository: DiscoveredRepository | undefined,
+  badgeTarget: BadgeTarget,
+  defaultSort: DiscussionSortMode,
+  organization?: string
+): Promise<RepositoryContext> {
+  const githubService = new GitHubService(authenticationService, undefined, repository ? new FixedRemoteParser(repository) : undefined);
+
+  // File paths and stored state are kept apart by repository, so showing another one does not move them (Requirements 45.3, 45.4)
+  const scope: ParsedRemote | undefined = repository;
+
+  const discussionsProvider = new DiscussionsProvider(githubService, authenticationService, _storageService, scope);
+  const filterChangeSubscription = discussionsProvider.onDidChangeFilters(() => updateFilterDescription());
+  // Restored before the tree is shown, so it is first loaded with them
+  await discussionsProvider.migrateUnscopedState();
+  await Promise.all([
+    discussionsProvider.restoreFilters(),
+    discussionsProvider.restoreSavedSearches(),
+    discussionsProvider.restoreGroupBy()
+  ]);
+
+  // Start with the configured sort order (Requirement 37.1)
+  discussionsProvider.setSortMode(defaultSort);
+
+  // Initialize NotificationBadgeService for activity bar badge (Requirement 19.1)
+  // Several repositories add up their unread discussions on the same badge (Requirement 45.5)
+  const notificationBadgeService = new NotificationBadgeService(
+    badgeTarget,
     githubService,
     authenticationService,
-    _storageService
+    _storageService,
+    scope ? `${STORAGE_KEY_UNREAD_STATE}:${scope.owner}/${scope.name}` : undefined
   );
 
   // Set notification badge service on discussions provider for unread indicators (Requirement 20.5)
@@ -371,24 +1359,75 @@ function registerProviders(context: vscode.ExtensionContext): void {
     discussionsProvider.refresh();
   });
 
-  // Initialize and register Virtual File System Provider
-  fileSystemProvider = new DiscussionFileSystemProvider(githubService);
-  const fsRegistration = vscode.workspace.registerFileSystemProvider(
-    DiscussionFileSystemProvider.scheme,
-    fileSystemProvider,
-    { isCaseSensitive: true, isReadonly: false }
-  );
+  // Initialize the Virtual File System Provider, served under /owner/name
+  const fileSystemProvider = new DiscussionFileSystemProvider(githubService, undefined, scope);
+  const fsRegistration = fileSystemRouter.register(DiscussionFileSystemProvider.rootPath(scope), fileSystemProvider);
 
   // Initialize Webview Provider for viewing discussions with comments
   // Pass notificationBadgeService for marking discussions as read (Requirement 19.4)
-  webviewProvider = new DiscussionWebviewProvider(githubService, authenticationService, context, notificationBadgeService);
+  // Mentions in an organization's discussions suggest its members, as the repository belongs to it (Requirement 46.4)
+  const webviewProvider = new DiscussionWebviewProvider(githubService, authenticationService, context, notificationBadgeService, scope);
 
-  context.subscriptions.push(
-    treeView,
-    fsRegistration,
+  // Show discussions created from category forms (Requirement 39.5)
+  const discussionFormProvider = new DiscussionFormProvider(githubService);
+  const formCreateSubscription = discussionFormProvider.onDidCreateDiscussion(() => {
+    discussionsProvider.refresh();
+  });
+
+  // Reflect answer changes from the comments view in the tree without a full refresh (Requirement 23.5)
+  const answerChangeSubscription = webviewProvider.onDidChangeAnswer(({ discussionId, discussionNumber, isAnswered }) => {
+    discussionsProvider.setDiscussionAnswered(discussionId, isAnswered);
+    fileSystemProvider.invalidateCache(discussionNumber);
+  });
+
+  // Remove deleted discussions from the tree, whether deleted from the editor or the tree (Requirement 25.4)
+  const deleteSubscription = fileSystemProvider.onDidDeleteDiscussion(({ discussionId }) => {
+    discussionsProvider.removeDiscussion(discussionId);
+  });
+
+  // Reflect category, state and label changes saved through front matter in the tree (Requirements 32.3, 34.5)
+  const discussionUpdateSubscription = fileSystemProvider.onDidUpdateDiscussion(discussion => {
+    discussionsProvider.moveDiscussion(discussion.id, discussion.category, discussion.isAnswered);
+    discussionsProvider.setDiscussionState(discussion.id, { closed: discussion.closed, locked: discussion.locked });
+    discussionsProvider.setDiscussionLabels(discussion.id, discussion.labels ?? []);
+  });
+
+  // Show comments edited as markdown files in the open comments view (Requirement 30.4)
+  const commentsChangeSubscription = fileSystemProvider.onDidChangeComments(discussionNumber => {
+    webviewProvider.refreshCommentsPanel(discussionNumber);
+  });
+
+  return {
+    repository,
+    scope,
+    organization,
+    githubService,
+    discussionsProvider,
+    fileSystemProvider,
+    webviewProvider,
+    discussionFormProvider,
     notificationBadgeService,
-    unreadStateSubscription
-  );
+    disposables: [
+      fsRegistration,
+      notificationBadgeService,
+      unreadStateSubscription,
+      filterChangeSubscription,
+      answerChangeSubscription,
+      deleteSubscription,
+      commentsChangeSubscription,
+      discussionUpdateSubscription,
+      discussionFormProvider,
+      formCreateSubscription,
+      webviewProvider,
+      fileSystemProvider,
+      discussionsProvider
+    ]
+  };
+}
+
+function disposeRepositoryContext(repository: RepositoryContext): void {
+  repository.disposables.forEach(d => d.dispose());
+  repository.disposables = [];
 }
 
 // Export context for use in other modules
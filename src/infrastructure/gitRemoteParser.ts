@@ -1,6 +1,6 @@
 /**
  * Git Remote Parser - Extracts repository information from git remotes
- * Requirements: 9.5 - Infrastructure layer extraction
+ * Requirements: 9.5 - Infrastructure layer extraction, 45.1, 45.2 - Multiple repositories
  */
 
 import * as vscode from 'vscode';
@@ -11,6 +11,14 @@ export interface ParsedRemote {
   name: string;
 }
 
+/**
+ * Repository shown in the view, with the workspace folder it was found in
+ */
+export interface DiscoveredRepository extends ParsedRemote {
+  /** Not set for repositories that only come from the settings */
+  workspaceFolder?: vscode.WorkspaceFolder;
+}
+
 export interface IGitRemoteParser {
   /**
    * Parse git remote to extract owner and repository name
@@ -20,17 +28,23 @@ export interface IGitRemoteParser {
 }
 
 export class GitRemoteParser implements IGitRemoteParser {
+  /**
+   * @param workspaceFolder Folder whose remotes are read, the first workspace folder by default
+   */
+  constructor(private readonly workspaceFolder?: vscode.WorkspaceFolder) {}
+
   /**
    * Parse git remote to extract owner and repository name
    */
   parseGitRemote(): ParsedRemote {
     const workspaceFolders = vscode.workspace.workspaceFolders;
+    const folder = this.workspaceFolder ?? workspaceFolders?.[0];
 
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+    if (!folder) {
       throw new Error('No workspace folder open');
     }
 
-    const workspacePath = workspaceFolders[0].uri.fsPath;
+    const workspacePath = folder.uri.fsPath;
 
     try {
       const remoteOutput = execSync('git remote -v', {
@@ -64,3 +78,57 @@ export class GitRemoteParser implements IGitRemoteParser {
     }
   }
 }
+
+/**
+ * Parser for a repository known up front, such as one listed in the settings
+ * Requirement 45.1
+ */
+export class FixedRemoteParser implements IGitRemoteParser {
+  constructor(private readonly remote: ParsedRemote) {}
+
+  parseGitRemote(): ParsedRemote {
+    return { owner: this.remote.owner, name: this.remote.name };
+  }
+}
+
+/**
+ * Parse an "owner/name" repository name
+ * @returns undefined if value is not an "owner/name" pair
+ */
+export function parseRepositoryName(value: string): ParsedRemote | undefined {
+  const match = value.trim().match(/^([^/\s]+)\/([^/\s]+?)(?:\.git)?$/);
+  return match ? { owner: match[1], name: match[2] } : undefined;
+}
+
+/**
+ * Repositories of every workspace folder with a GitHub remote, followed by
+ * the configured "owner/name" repositories
+ * Each repository is listed once; invalid names are skipped
+ * Requirements: 45.1, 45.2
+ */
+export function discoverRepositories(configured: readonly string[] = []): DiscoveredRepository[] {
+  const repositories: DiscoveredRepository[] = [];
+  const add = (repository: DiscoveredRepository) => {
+    const fullName = `${repository.owner}/${repository.name}`.toLowerCase();
+    if (!repositories.some(r => `${r.owner}/${r.name}`.toLowerCase() === fullName)) {
+      repositories.push(repository);
+    }
+  };
+
+  for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+    try {
+      add({ ...new GitRemoteParser(workspaceFolder).parseGitRemote(), workspaceFolder });
+    } catch {
+      // Folders without a GitHub remote are not shown
+    }
+  }
+
+  for (const value of configured) {
+    const repository = typeof value === 'string' ? parseRepositoryName(value) : undefined;
+    if (repository) {
+      add(repository);
+    }
+  }
+
+  return repositories;
+}
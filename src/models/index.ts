@@ -15,8 +15,33 @@ export interface DiscussionCategory {
   description: string;
   emoji: string;
   isAnswerable: boolean;
+  /** URL slug, e.g. "q-a" (Requirement 38) */
+  slug?: string;
 }
 
+/**
+ * Repository label (Requirements 32, 34)
+ */
+export interface Label {
+  id: string;
+  name: string;
+  /** Hex color without the leading # */
+  color: string;
+}
+
+/**
+ * Reaction content values accepted by GitHub (ReactionContent enum)
+ */
+export type ReactionContent =
+  | 'THUMBS_UP'
+  | 'THUMBS_DOWN'
+  | 'LAUGH'
+  | 'HOORAY'
+  | 'CONFUSED'
+  | 'HEART'
+  | 'ROCKET'
+  | 'EYES';
+
 export interface Reaction {
   content: string;
   count: number;
@@ -30,6 +55,8 @@ export interface DiscussionComment {
   author: User;
   createdAt: Date;
   updatedAt: Date;
+  /** Whether the viewer wrote this comment (Requirement 30.3) */
+  viewerDidAuthor?: boolean;
   reactions: Reaction[];
   replies: DiscussionComment[];
 }
@@ -59,6 +86,44 @@ export interface DiscussionSummariesPage {
   pageInfo: PageInfo;
 }
 
+/**
+ * Highlighted text match in a search result
+ * Requirement 36.3: Matching snippets are shown with highlights
+ */
+export interface SearchTextMatch {
+  /** Matched property, e.g. "title", "body" or "comments.body" */
+  property: string;
+  fragment: string;
+  /** Highlighted ranges in fragment (end is exclusive) */
+  highlights: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Discussion found by a repository search (Requirement 36)
+ */
+export interface DiscussionSearchResult {
+  discussion: DiscussionSummary;
+  textMatches: SearchTextMatch[];
+}
+
+/**
+ * Page of search results with the total number of matching discussions
+ */
+export interface DiscussionSearchResults {
+  totalCount: number;
+  results: DiscussionSearchResult[];
+  pageInfo: PageInfo;
+}
+
+/**
+ * Search saved by the user and shown as a smart view in the tree (Requirement 43.4)
+ */
+export interface SavedSearch {
+  name: string;
+  /** GitHub search syntax, scoped to the repository when run */
+  query: string;
+}
+
 /**
  * Pagination state for a category in tree view
  * Requirement 14.5, 14.7: Category-specific pagination state
@@ -86,6 +151,26 @@ export interface CategoryState {
   error?: Error;
 }
 
+/**
+ * Option of a discussion poll (Requirement 41)
+ */
+export interface DiscussionPollOption {
+  id: string;
+  option: string;
+  totalVoteCount: number;
+}
+
+/**
+ * Poll attached to a discussion in a poll category (Requirement 41)
+ */
+export interface DiscussionPoll {
+  question: string;
+  totalVoteCount: number;
+  viewerHasVoted: boolean;
+  viewerCanVote: boolean;
+  options: DiscussionPollOption[];
+}
+
 /**
  * Recent comment info for unread detection (Requirement 20.11)
  */
@@ -109,6 +194,18 @@ export interface DiscussionSummary {
   updatedAt: Date;
   isAnswered: boolean;
   commentsCount: number;
+  /** Number of upvotes, for the "top" sort mode (Requirement 37) */
+  upvoteCount?: number;
+  /** Whether the discussion is closed (Requirement 24) */
+  closed?: boolean;
+  /** Whether the discussion is locked (Requirement 24) */
+  locked?: boolean;
+  /** Labels applied to the discussion (Requirement 34) */
+  labels?: Label[];
+  /** Whether the discussion has a poll (Requirement 41) */
+  hasPoll?: boolean;
+  /** Whether the discussion is pinned in the repository (Requirement 42) */
+  pinned?: boolean;
   /**
    * Recent comments (last 10) for detecting unread state
    * Used to filter out own comments from unread notifications (Requirement 20.11)
@@ -116,6 +213,28 @@ export interface DiscussionSummary {
   recentComments?: RecentComment[];
 }
 
+/**
+ * Pattern shown on a pinned discussion (GitHub PinnedDiscussionPattern enum)
+ */
+export type PinnedDiscussionPattern = 'CHEVRON_UP' | 'DOT' | 'DOT_FILL' | 'HEART_FILL' | 'PLUS' | 'ZAP';
+
+/**
+ * Preset background of a pinned discussion (GitHub PinnedDiscussionGradient enum)
+ */
+export type PinnedDiscussionGradient = 'BLUE_MINT' | 'BLUE_PURPLE' | 'PINK_BLUE' | 'PURPLE_CORAL' | 'RED_ORANGE';
+
+/**
+ * Discussion pinned in the repository, with the look chosen when it was pinned (Requirement 42)
+ */
+export interface PinnedDiscussion {
+  discussion: DiscussionSummary;
+  pattern: PinnedDiscussionPattern;
+  /** Colors of a custom gradient, as hex values */
+  gradientStopColors: string[];
+  /** Preset gradient, when one was chosen instead of custom colors */
+  preconfiguredGradient?: PinnedDiscussionGradient;
+}
+
 /**
  * Full discussion model with body and comments (for detail view)
  */
@@ -130,8 +249,18 @@ export interface Discussion {
   createdAt: Date;
   updatedAt: Date;
   isAnswered: boolean;
+  /** Whether the discussion is closed (Requirement 24) */
+  closed?: boolean;
+  /** Whether the discussion is locked (Requirement 24) */
+  locked?: boolean;
+  /** Labels applied to the discussion (Requirement 32) */
+  labels?: Label[];
+  /** Poll of the discussion, if any (Requirement 41) */
+  poll?: DiscussionPoll;
   answer?: DiscussionComment;
   comments: DiscussionComment[];
+  /** Number of comments on the discussion, including those not loaded yet */
+  commentsTotalCount?: number;
   reactions: Reaction[];
   /** Pagination info for comments (only present when there are more comments to load) */
   commentsPageInfo?: PageInfo;
@@ -145,11 +274,47 @@ export interface RepositoryInfo {
   hasDiscussionsEnabled: boolean;
 }
 
+/**
+ * Organization attached to the tree, with the repository its discussions live in (Requirement 46.1)
+ */
+export interface AttachedOrganization {
+  login: string;
+  /** Owner of the discussion source repository */
+  owner: string;
+  /** Name of the discussion source repository */
+  name: string;
+}
+
+/**
+ * Discussion state filter values (GitHub DiscussionState enum)
+ */
+export type DiscussionState = 'OPEN' | 'CLOSED';
+
+/**
+ * Reasons for closing a discussion (GitHub DiscussionCloseReason enum)
+ */
+export type DiscussionCloseReason = 'RESOLVED' | 'OUTDATED' | 'DUPLICATE';
+
+/**
+ * Tree sort modes (Requirement 37)
+ * "comments" and "top" have no GraphQL order and are fetched through search; "top" orders the loaded discussions by upvotes
+ */
+export type DiscussionSortMode = 'updated' | 'newest' | 'oldest' | 'comments' | 'top';
+
+/**
+ * Tree grouping modes (Requirement 44)
+ * "flat" lists one paged list of the repository's discussions; the other modes find their groups in
+ * that list, and each group loads its discussions page by page through its own search
+ */
+export type DiscussionGroupBy = 'category' | 'author' | 'label' | 'answered' | 'month' | 'flat';
+
 export interface DiscussionQueryOptions {
   first?: number;
   after?: string;
   categoryId?: string;
   answered?: boolean;
+  /** Discussion states to include (defaults to OPEN only) */
+  states?: DiscussionState[];
   orderBy?: {
     field: 'CREATED_AT' | 'UPDATED_AT';
     direction: 'ASC' | 'DESC';
@@ -166,6 +331,8 @@ export interface CreateDiscussionInput {
 export interface UpdateDiscussionInput {
   title?: string;
   body?: string;
+  /** Move the discussion to another category (Requirement 27) */
+  categoryId?: string;
 }
 
 export interface DiscussionMetadata {
@@ -179,6 +346,12 @@ export interface DiscussionMetadata {
   isAnswered: boolean;
   answer: DiscussionComment | null;
   reactions: Reaction[];
+  /** Label names (Requirement 33.2) */
+  labels: string[];
+  /** Whether the discussion is pinned in the repository, unset when it could not be loaded (Requirement 33.2) */
+  pinned?: boolean;
+  /** Whether the discussion is locked (Requirement 33.2) */
+  locked: boolean;
 }
 
 export interface CommentsData {
@@ -216,7 +389,7 @@ export interface ExtensionSettings {
   autoRefresh: boolean;
   refreshInterval: number;
   showNotifications: boolean;
-  defaultSort: 'newest' | 'oldest' | 'top';
+  defaultSort: DiscussionSortMode;
   defaultCategory: string;
 }
 
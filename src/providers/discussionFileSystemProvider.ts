@@ -5,27 +5,131 @@
 
 import * as vscode from 'vscode';
 import { IGitHubService, ICacheService } from '../services/interfaces';
-import { Discussion, DiscussionSummary, DiscussionMetadata, CommentsData } from '../models';
+import { Discussion, DiscussionComment, DiscussionSummary, DiscussionMetadata, CommentsData } from '../models';
 import { sanitizeFileName } from '../utils/fileNameUtils';
 import { CACHE_DEFAULT_TTL_MS } from '../constants';
+import { createAppError, ErrorType, extractErrorMessage } from '../utils/errorUtils';
+import { mergeThreeWay } from '../utils/mergeUtils';
+import { formatFrontMatter, parseFrontMatter, FrontMatterError } from '../utils/frontMatterUtils';
+import { diffMetadata, findPropertyLines, parseMetadataJson, MetadataError } from '../utils/metadataUtils';
+import { ParsedRemote } from '../infrastructure/gitRemoteParser';
 
 /** Cache key prefix for discussions */
 const CACHE_KEY_DISCUSSION_PREFIX = 'fsProvider:discussion:';
 
+/**
+ * Read-only snapshots of a discussion body, addressed by URI query (Requirement 28.3, 29.3)
+ * e.g. ghd:/owner/name/discussions/12/Title.md?remote
+ */
+type SnapshotKind = 'base' | 'local' | 'remote';
+const SNAPSHOT_KINDS: readonly string[] = ['base', 'local', 'remote'];
+
+/** How save conflicts are resolved (github-discussions.conflictResolution) */
+type ConflictResolution = 'prompt' | 'merge';
+
+/**
+ * Version of a discussion body that an editor was loaded from
+ */
+interface BaseVersion {
+  updatedAt: Date;
+  title: string;
+  body: string;
+}
+
+/**
+ * Metadata mutations derived from a saved file (Requirement 32.3, 33.2)
+ */
+interface MetadataChanges {
+  categoryId?: string;
+  addLabelIds: string[];
+  removeLabelIds: string[];
+  /** Only set when the state differs from the current discussion */
+  closed?: boolean;
+  /** Only set when the lock differs from the current discussion */
+  locked?: boolean;
+}
+
+/**
+ * Changes derived from the front matter of a saved discussion (Requirement 32.3)
+ */
+interface FrontMatterChanges extends MetadataChanges {
+  title?: string;
+  body: string;
+}
+
+/**
+ * Event fired after a discussion has been deleted through the file system
+ */
+export interface DiscussionDeletedEvent {
+  discussionId: string;
+  discussionNumber: number;
+}
+
 export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
   public static readonly scheme = 'ghd';
 
+  /**
+   * Root of a repository's files: /owner/name, or the root when no repository was found (Requirement 45.4)
+   */
+  static rootPath(repository?: ParsedRemote): string {
+    return repository ? `/${repository.owner}/${repository.name}` : '';
+  }
+
+  /**
+   * URI of a path such as /discussions/12 within a repository's files
+   */
+  static uri(path: string, repository?: ParsedRemote): vscode.Uri {
+    return vscode.Uri.parse(`${DiscussionFileSystemProvider.scheme}:${DiscussionFileSystemProvider.rootPath(repository)}${path}`);
+  }
+
+  /**
+   * URI of the document for composing a new comment, or a reply when replyToId is given (Requirement 31.1)
+   */
+  static newCommentUri(discussionNumber: number, replyToId?: string, repository?: ParsedRemote): vscode.Uri {
+    const path = replyToId
+      ? `/discussions/${discussionNumber}/comments/${encodeURIComponent(replyToId)}/new-reply.md`
+      : `/discussions/${discussionNumber}/new-comment.md`;
+    return DiscussionFileSystemProvider.uri(path, repository);
+  }
+
   private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
   readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
 
+  private _onDidDeleteDiscussion = new vscode.EventEmitter<DiscussionDeletedEvent>();
+  readonly onDidDeleteDiscussion: vscode.Event<DiscussionDeletedEvent> = this._onDidDeleteDiscussion.event;
+
+  /** Fired with the discussion number after its comments were changed through the file system */
+  private _onDidChangeComments = new vscode.EventEmitter<number>();
+  readonly onDidChangeComments: vscode.Event<number> = this._onDidChangeComments.event;
+
+  /** Fired with the refreshed discussion after its category, labels or state were changed through front matter */
+  private _onDidUpdateDiscussion = new vscode.EventEmitter<Discussion>();
+  readonly onDidUpdateDiscussion: vscode.Event<Discussion> = this._onDidUpdateDiscussion.event;
+
+  /** Invalid front matter, reported on the offending line (Requirement 32.5) */
+  private diagnostics = vscode.languages.createDiagnosticCollection('github-discussions');
+
   private pendingNewDiscussions: Map<string, { categoryId?: string }> = new Map();
 
   /** Cached discussion numbers for notifyDiscussionsUpdated */
   private cachedDiscussionNumbers: Set<number> = new Set();
 
+  /** Versions last read into (or saved from) an editor, used for conflict detection (Requirement 28.1) */
+  private baseVersions: Map<number, BaseVersion> = new Map();
+
+  /** Bodies captured when a save conflict was detected (Requirement 28.3, 29.3) */
+  private snapshots: Map<number, Partial<Record<SnapshotKind, string>>> = new Map();
+
+  /** Remote versions a merge editor was opened with, until its result is saved (Requirement 29.3) */
+  private pendingMerges: Map<number, Discussion> = new Map();
+
+  /**
+   * @param repository Repository whose files are served under /owner/name
+   */
   constructor(
     private githubService: IGitHubService,
-    private cacheService?: ICacheService
+    private cacheService?: ICacheService,
+    private repository?: ParsedRemote
   ) {}
 
   watch(): vscode.Disposable {
@@ -33,9 +137,9 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
   }
 
   async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
-    const { type, discussionNumber, fileName } = this.parsePath(uri.path);
+    const { type, discussionNumber, fileName, commentId } = this.parsePath(uri.path);
 
-    if (type === 'root' || type === 'discussions') {
+    if (type === 'root' || type === 'discussions' || type === 'comments') {
       return {
         type: vscode.FileType.Directory,
         ctime: Date.now(),
@@ -44,6 +148,28 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
       };
     }
 
+    // Draft for a new comment or reply (Requirement 31.1)
+    if (type === 'newComment') {
+      return {
+        type: vscode.FileType.File,
+        ctime: Date.now(),
+        mtime: Date.now(),
+        size: 0
+      };
+    }
+
+    // Comment file - readonly unless the viewer wrote it (Requirement 30.3)
+    if (type === 'comment' && discussionNumber !== undefined && commentId) {
+      const comment = await this.getComment(uri, discussionNumber, commentId);
+      return {
+        type: vscode.FileType.File,
+        ctime: comment.createdAt.getTime(),
+        mtime: comment.updatedAt.getTime(),
+        size: 0,
+        ...(comment.viewerDidAuthor ? {} : { permissions: vscode.FilePermission.Readonly })
+      };
+    }
+
     if (type === 'discussion' && discussionNumber !== undefined) {
       if (!fileName) {
         // Discussion folder
@@ -67,6 +193,18 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
         }
       }
 
+      // Snapshots shown in the conflict diff / merge editor are read-only (Requirement 28.3)
+      if (this.isSnapshotUri(uri)) {
+        const snapshot = this.getSnapshot(uri, discussionNumber);
+        return {
+          type: vscode.FileType.File,
+          ctime: Date.now(),
+          mtime: Date.now(),
+          size: snapshot.length,
+          permissions: vscode.FilePermission.Readonly
+        };
+      }
+
       // Existing discussion - files within discussion folder
       const discussion = await this.getDiscussion(discussionNumber);
       const expectedFileName = sanitizeFileName(discussion.title) + '.md';
@@ -102,15 +240,33 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
       return [
         [fileName, vscode.FileType.File],
         ['_metadata.json', vscode.FileType.File],
-        ['_comments.json', vscode.FileType.File]
+        ['_comments.json', vscode.FileType.File],
+        ['comments', vscode.FileType.Directory]
       ];
     }
 
+    // Comments and replies as flat markdown files (Requirement 30.1)
+    if (type === 'comments' && discussionNumber !== undefined) {
+      const discussion = await this.getDiscussion(discussionNumber);
+      return this.flattenComments(discussion.comments)
+        .map(comment => [`${comment.id}.md`, vscode.FileType.File] as [string, vscode.FileType]);
+    }
+
     throw vscode.FileSystemError.FileNotFound(uri);
   }
 
   async readFile(uri: vscode.Uri): Promise<Uint8Array> {
-    const { type, discussionNumber, fileName } = this.parsePath(uri.path);
+    const { type, discussionNumber, fileName, commentId } = this.parsePath(uri.path);
+
+    if (type === 'comment' && discussionNumber !== undefined && commentId) {
+      const comment = await this.getComment(uri, discussionNumber, commentId);
+      return new TextEncoder().encode(comment.body);
+    }
+
+    // Drafts always start empty
+    if (type === 'newComment') {
+      return new TextEncoder().encode('');
+    }
 
     if (type !== 'discussion' || discussionNumber === undefined || !fileName) {
       throw vscode.FileSystemError.FileNotFound(uri);
@@ -121,27 +277,23 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
       return new TextEncoder().encode('');
     }
 
+    if (this.isSnapshotUri(uri)) {
+      return new TextEncoder().encode(this.getSnapshot(uri, discussionNumber));
+    }
+
     const discussion = await this.getDiscussion(discussionNumber);
     const expectedFileName = sanitizeFileName(discussion.title) + '.md';
 
     if (fileName === expectedFileName) {
+      this.setBaseVersion(discussionNumber, discussion);
+      this.diagnostics.delete(uri);
       const content = this.formatDiscussionAsMarkdown(discussion);
       return new TextEncoder().encode(content);
     }
 
     if (fileName === '_metadata.json') {
-      const metadata: DiscussionMetadata = {
-        id: discussion.id,
-        number: discussion.number,
-        title: discussion.title,
-        author: discussion.author,
-        category: discussion.category,
-        createdAt: discussion.createdAt.toISOString(),
-        updatedAt: discussion.updatedAt.toISOString(),
-        isAnswered: discussion.isAnswered,
-        answer: discussion.answer ?? null,
-        reactions: discussion.reactions
-      };
+      const metadata = await this.createMetadata(discussion);
+      this.diagnostics.delete(uri);
       return new TextEncoder().encode(JSON.stringify(metadata, null, 2));
     }
 
@@ -161,24 +313,49 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
     content: Uint8Array,
     _options: { create: boolean; overwrite: boolean }
   ): Promise<void> {
-    const { type, discussionNumber, fileName } = this.parsePath(uri.path);
+    const { type, discussionNumber, fileName, commentId } = this.parsePath(uri.path);
+
+    if (type === 'comment' && discussionNumber !== undefined && commentId) {
+      await this.writeComment(uri, discussionNumber, commentId, new TextDecoder().decode(content));
+      return;
+    }
+
+    if (type === 'newComment' && discussionNumber !== undefined) {
+      await this.postComment(uri, discussionNumber, commentId, new TextDecoder().decode(content));
+      return;
+    }
 
-    if (type !== 'discussion' || !fileName) {
+    if (type !== 'discussion' || !fileName || this.isSnapshotUri(uri)) {
       throw vscode.FileSystemError.NoPermissions(uri);
     }
 
     // Decode the filename (it may be URL-encoded)
     const decodedFileName = decodeURIComponent(fileName);
 
+    // Mutable metadata fields can be edited as JSON (Requirement 33.2)
+    if (decodedFileName === '_metadata.json' && discussionNumber !== undefined && !isNaN(discussionNumber)) {
+      await this.writeMetadata(uri, discussionNumber, new TextDecoder().decode(content));
+      return;
+    }
+
     if (!decodedFileName.endsWith('.md')) {
       throw vscode.FileSystemError.NoPermissions('Only markdown files can be edited');
     }
 
     const text = new TextDecoder().decode(content);
-    const body = text.trim();
+    let body = text.trim();
 
-    // タイトルはファイル名から取得（.md を除去、URLデコード済み）
-    const title = decodedFileName.slice(0, -3);
+    // Front matter is only read back for existing discussions (Requirement 32.2)
+    const frontMatterChanges = discussionNumber !== undefined && !isNaN(discussionNumber) && this.isFrontMatterEnabled()
+      ? await this.resolveFrontMatterChanges(uri, text, discussionNumber)
+      : undefined;
+    if (frontMatterChanges) {
+      body = frontMatterChanges.body;
+    }
+
+    // タイトルはファイル名から取得（.md を除去、URLデコード済み）、フロントマターがあればそちらを優先
+    const title = frontMatterChanges?.title ?? decodedFileName.slice(0, -3);
+    let savedTitle = title;
 
     await vscode.window.withProgress({
       location: vscode.ProgressLocation.Notification,
@@ -211,19 +388,90 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
         this.setDiscussionCache(newDiscussion.number, newDiscussion);
         this.pendingNewDiscussions.delete(uri.path);
       } else {
-        // Update existing discussion
-        const discussion = await this.getDiscussion(discussionNumber);
+        // Update existing discussion, refusing to overwrite a newer remote version (Requirement 28.1)
+        // The first save after the merge editor opened is its result, based on the remote version it
+        // showed, even when it keeps the local text as it was
+        const base = this.pendingMerges.get(discussionNumber)
+          ?? this.baseVersions.get(discussionNumber)
+          ?? await this.getDiscussion(discussionNumber);
+        const remote = await this.githubService.getDiscussion(discussionNumber);
+        let mergedRemoteChanges = false;
+
+        if (this.hasRemoteChanges(base, remote)) {
+          const conflictResolution = vscode.workspace
+            .getConfiguration('github-discussions')
+            .get<ConflictResolution>('conflictResolution', 'prompt');
+
+          // Merge mode: push non-overlapping body edits automatically (Requirement 29.2)
+          // A concurrent title change cannot be merged line by line, so it falls back to the prompt
+          const merge = conflictResolution === 'merge' && remote.title === base.title
+            ? mergeThreeWay(base.body.trim(), body, remote.body.trim())
+            : undefined;
+
+          if (merge && !merge.hasConflicts) {
+            body = merge.merged;
+            mergedRemoteChanges = true;
+          } else {
+            // A merge result that conflicts again is resolved in a new merge editor
+            this.pendingMerges.delete(discussionNumber);
+            // Every side is a whole file, so front matter lines up in the diff and the merge editor
+            const opened = await this.getDiscussion(discussionNumber);
+            this.snapshots.set(discussionNumber, {
+              base: this.formatDiscussionAsMarkdown({ ...opened, title: base.title, body: base.body }),
+              local: text,
+              remote: this.formatDiscussionAsMarkdown(remote)
+            });
+            if (merge) {
+              void this.openMergeEditor(uri, remote);
+            } else {
+              void this.handleSaveConflict(uri, remote);
+            }
+            throw vscode.FileSystemError.Unavailable(
+              `Discussion #${discussionNumber} was changed on GitHub after it was opened`
+            );
+          }
+        }
 
-        const updatedDiscussion = await this.githubService.updateDiscussion(discussion.id, {
+        let updatedDiscussion = await this.githubService.updateDiscussion(remote.id, {
           title,
-          body
+          body,
+          ...(frontMatterChanges?.categoryId ? { categoryId: frontMatterChanges.categoryId } : {})
         });
 
-        // Update cache
+        // The saved text is the new base even when a following mutation fails
         this.setDiscussionCache(discussionNumber, updatedDiscussion);
+        this.setBaseVersion(discussionNumber, updatedDiscussion);
+        this.pendingMerges.delete(discussionNumber);
+
+        const saved = frontMatterChanges?.categoryId ? ['title, body and category'] : ['title and body'];
+        if (frontMatterChanges && await this.applyMetadataChanges(remote, frontMatterChanges, saved)) {
+          // Labels and state are changed by separate mutations, so read the result back
+          updatedDiscussion = await this.githubService.getDiscussion(discussionNumber);
+          this.setDiscussionCache(discussionNumber, updatedDiscussion);
+          this._onDidUpdateDiscussion.fire(updatedDiscussion);
+        }
+        savedTitle = updatedDiscussion.title;
+
+        if (mergedRemoteChanges) {
+          vscode.window.showInformationMessage(`Merged changes from GitHub into discussion #${discussionNumber}`);
+        }
       }
     });
 
+    // A title changed in front matter renames the file (Requirement 32.3)
+    const savedFileName = sanitizeFileName(savedTitle) + '.md';
+    if (frontMatterChanges && savedFileName !== decodedFileName) {
+      const renamedUri = uri.with({
+        path: `${DiscussionFileSystemProvider.rootPath(this.repository)}/discussions/${discussionNumber}/${encodeURIComponent(savedFileName)}`
+      });
+      this._onDidChangeFile.fire([
+        { type: vscode.FileChangeType.Deleted, uri },
+        { type: vscode.FileChangeType.Created, uri: renamedUri }
+      ]);
+      void vscode.commands.executeCommand('vscode.open', renamedUri);
+      return;
+    }
+
     // Fire change event
     this._onDidChangeFile.fire([{
       type: vscode.FileChangeType.Changed,
@@ -244,7 +492,70 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
   }
 
   async delete(uri: vscode.Uri, _options: { recursive: boolean }): Promise<void> {
-    throw vscode.FileSystemError.NoPermissions('Delete operation is not supported');
+    const { type, discussionNumber, fileName } = this.parsePath(uri.path);
+
+    // Only an existing discussion folder or its markdown file can be deleted (Requirement 25.1)
+    if (type !== 'discussion' || discussionNumber === undefined || isNaN(discussionNumber)) {
+      throw vscode.FileSystemError.NoPermissions('Delete operation is not supported');
+    }
+    if (fileName && !decodeURIComponent(fileName).endsWith('.md')) {
+      throw vscode.FileSystemError.NoPermissions('Only discussions can be deleted');
+    }
+
+    const deleted = await this.deleteDiscussion(discussionNumber);
+    if (!deleted) {
+      throw new vscode.CancellationError();
+    }
+  }
+
+  /**
+   * Delete a discussion after a modal confirmation
+   * Requirement 25.1, 25.2, 25.3: Returns false when the user cancels
+   */
+  async deleteDiscussion(discussionNumber: number): Promise<boolean> {
+    const discussion = await this.getDiscussion(discussionNumber);
+    const commentsCount = discussion.commentsTotalCount ?? discussion.comments.length;
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete discussion #${discussion.number} "${discussion.title}"?`,
+      {
+        modal: true,
+        detail: `This discussion has ${commentsCount} comments. Deleting it cannot be undone.`
+      },
+      'Delete'
+    );
+    if (confirm !== 'Delete') {
+      return false;
+    }
+
+    try {
+      await this.githubService.deleteDiscussion(discussion.id);
+    } catch (error) {
+      // Missing admin/maintainer rights are reported as an authorization error (Requirement 25.5)
+      const appError = createAppError(error);
+      if (appError.type === ErrorType.AUTHORIZATION) {
+        throw vscode.FileSystemError.NoPermissions(appError.message);
+      }
+      throw error;
+    }
+
+    this.invalidateCache(discussionNumber);
+    this.baseVersions.delete(discussionNumber);
+    this.snapshots.delete(discussionNumber);
+    this.pendingMerges.delete(discussionNumber);
+
+    const folderUri = DiscussionFileSystemProvider.uri(`/discussions/${discussionNumber}`, this.repository);
+    const fileUri = DiscussionFileSystemProvider.uri(
+      `/discussions/${discussionNumber}/${encodeURIComponent(sanitizeFileName(discussion.title) + '.md')}`,
+      this.repository
+    );
+    this._onDidChangeFile.fire([
+      { type: vscode.FileChangeType.Deleted, uri: fileUri },
+      { type: vscode.FileChangeType.Deleted, uri: folderUri }
+    ]);
+    this._onDidDeleteDiscussion.fire({ discussionId: discussion.id, discussionNumber });
+
+    return true;
   }
 
   /**
@@ -254,8 +565,53 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
     this.pendingNewDiscussions.set(path, { categoryId });
   }
 
-  async rename(oldUri: vscode.Uri, _newUri: vscode.Uri, _options: { overwrite: boolean }): Promise<void> {
-    throw vscode.FileSystemError.NoPermissions('Rename operation is not supported');
+  /**
+   * Rename the discussion markdown file to change the discussion title (Requirement 26)
+   * Categories are not exposed as folders, so moving between folders is not supported
+   */
+  async rename(oldUri: vscode.Uri, newUri: vscode.Uri, _options: { overwrite: boolean }): Promise<void> {
+    const source = this.parsePath(oldUri.path);
+    const target = this.parsePath(newUri.path);
+
+    if (source.type !== 'discussion' || source.discussionNumber === undefined || isNaN(source.discussionNumber) || !source.fileName) {
+      throw vscode.FileSystemError.NoPermissions('Rename operation is not supported');
+    }
+    if (target.type !== 'discussion' || target.discussionNumber !== source.discussionNumber || !target.fileName) {
+      throw vscode.FileSystemError.NoPermissions('Discussions cannot be moved to another folder');
+    }
+
+    const oldFileName = decodeURIComponent(source.fileName);
+    const newFileName = decodeURIComponent(target.fileName);
+    if (!oldFileName.endsWith('.md') || !newFileName.endsWith('.md')) {
+      throw vscode.FileSystemError.NoPermissions('Only the discussion markdown file can be renamed');
+    }
+
+    const discussion = await this.getDiscussion(source.discussionNumber);
+    if (oldFileName !== sanitizeFileName(discussion.title) + '.md') {
+      throw vscode.FileSystemError.FileNotFound(oldUri);
+    }
+
+    // Title is derived from the file name, as in writeFile (Requirement 26.1)
+    const title = newFileName.slice(0, -3).trim();
+    if (!title) {
+      throw vscode.FileSystemError.NoPermissions('Title is required');
+    }
+    // The file is listed under the sanitized title, so a name it would not come back as is refused
+    const listedFileName = sanitizeFileName(title) + '.md';
+    if (listedFileName !== newFileName) {
+      throw vscode.FileSystemError.NoPermissions(`"${newFileName}" would be listed as "${listedFileName}"; rename the file to that name instead`);
+    }
+
+    // Only the title is sent so the body is left untouched (Requirement 26.2)
+    const updatedDiscussion = await this.githubService.updateDiscussion(discussion.id, { title });
+    this.setDiscussionCache(source.discussionNumber, updatedDiscussion);
+    this.setBaseVersion(source.discussionNumber, updatedDiscussion);
+
+    // Let open editors follow the new URI (Requirement 26.3)
+    this._onDidChangeFile.fire([
+      { type: vscode.FileChangeType.Deleted, uri: oldUri },
+      { type: vscode.FileChangeType.Created, uri: newUri }
+    ]);
   }
 
   /**
@@ -287,7 +643,7 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
   notifyDiscussionsUpdated(): void {
     // Fire change events for all cached discussions
     for (const number of this.cachedDiscussionNumbers) {
-      const uri = vscode.Uri.parse(`${DiscussionFileSystemProvider.scheme}:/discussions/${number}`);
+      const uri = DiscussionFileSystemProvider.uri(`/discussions/${number}`, this.repository);
       this._onDidChangeFile.fire([{
         type: vscode.FileChangeType.Changed,
         uri
@@ -297,19 +653,32 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
 
   dispose(): void {
     this._onDidChangeFile.dispose();
+    this._onDidDeleteDiscussion.dispose();
+    this._onDidChangeComments.dispose();
+    this._onDidUpdateDiscussion.dispose();
+    this.diagnostics.dispose();
     this.invalidateCache();
     this.pendingNewDiscussions.clear();
+    this.baseVersions.clear();
+    this.snapshots.clear();
+    this.pendingMerges.clear();
   }
 
   /**
    * Parse URI path to extract discussion information
    */
   private parsePath(path: string): {
-    type: 'root' | 'discussions' | 'discussion' | 'unknown';
+    type: 'root' | 'discussions' | 'discussion' | 'comments' | 'comment' | 'newComment' | 'unknown';
     discussionNumber?: number;
     fileName?: string;
+    commentId?: string;
   } {
-    const parts = path.split('/').filter(Boolean);
+    // Paths of another repository are unknown (Requirement 45.4)
+    const root = DiscussionFileSystemProvider.rootPath(this.repository);
+    if (root && path !== root && !path.startsWith(`${root}/`)) {
+      return { type: 'unknown' };
+    }
+    const parts = path.slice(root.length).split('/').filter(Boolean);
 
     if (parts.length === 0) {
       return { type: 'root' };
@@ -326,6 +695,24 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
         return { type: 'discussion', discussionNumber };
       }
 
+      if (parts.length === 3 && parts[2] === 'comments') {
+        return { type: 'comments', discussionNumber };
+      }
+
+      // Drafts: /discussions/<n>/new-comment.md and /discussions/<n>/comments/<commentId>/new-reply.md (Requirement 31.1)
+      if (parts.length === 3 && parts[2] === 'new-comment.md') {
+        return { type: 'newComment', discussionNumber, fileName: parts[2] };
+      }
+
+      if (parts.length === 5 && parts[2] === 'comments' && parts[4] === 'new-reply.md') {
+        return {
+          type: 'newComment',
+          discussionNumber,
+          fileName: parts[4],
+          commentId: decodeURIComponent(parts[3])
+        };
+      }
+
       if (parts.length === 3) {
         return {
           type: 'discussion',
@@ -333,11 +720,109 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
           fileName: parts[2]
         };
       }
+
+      // Comment files: /discussions/<n>/comments/<commentId>.md (Requirement 30.1)
+      if (parts.length === 4 && parts[2] === 'comments' && parts[3].endsWith('.md')) {
+        return {
+          type: 'comment',
+          discussionNumber,
+          fileName: parts[3],
+          commentId: decodeURIComponent(parts[3]).slice(0, -3)
+        };
+      }
     }
 
     return { type: 'unknown' };
   }
 
+  /**
+   * Flatten top-level comments and their replies
+   */
+  private flattenComments(comments: DiscussionComment[]): DiscussionComment[] {
+    return comments.flatMap(comment => [comment, ...comment.replies]);
+  }
+
+  /**
+   * Find a comment or reply of a discussion
+   * Comments beyond those loaded with the discussion are fetched on their own
+   */
+  private async getComment(uri: vscode.Uri, discussionNumber: number, commentId: string): Promise<DiscussionComment> {
+    if (isNaN(discussionNumber)) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    const discussion = await this.getDiscussion(discussionNumber);
+    const comment = this.flattenComments(discussion.comments).find(c => c.id === commentId) ??
+      await this.githubService.getComment(discussionNumber, commentId);
+    if (!comment) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return comment;
+  }
+
+  /**
+   * Save a comment file via updateComment (Requirement 30.2, 30.3)
+   */
+  private async writeComment(uri: vscode.Uri, discussionNumber: number, commentId: string, text: string): Promise<void> {
+    const comment = await this.getComment(uri, discussionNumber, commentId);
+    if (!comment.viewerDidAuthor) {
+      throw vscode.FileSystemError.NoPermissions('Only your own comments can be edited');
+    }
+
+    const body = text.trim();
+    if (!body) {
+      throw vscode.FileSystemError.NoPermissions('Comment body cannot be empty');
+    }
+
+    await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: "Saving comment to GitHub...",
+      cancellable: false
+    }, () => this.githubService.updateComment(commentId, body));
+
+    // The cached discussion holds the old body
+    this.invalidateCache(discussionNumber);
+
+    this._onDidChangeFile.fire([{
+      type: vscode.FileChangeType.Changed,
+      uri
+    }]);
+    this._onDidChangeComments.fire(discussionNumber);
+  }
+
+  /**
+   * Post a comment or reply composed in the editor (Requirement 31.2, 31.3)
+   */
+  private async postComment(uri: vscode.Uri, discussionNumber: number, replyToId: string | undefined, text: string): Promise<void> {
+    if (isNaN(discussionNumber)) {
+      throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    const body = text.trim();
+    if (!body) {
+      throw vscode.FileSystemError.NoPermissions('Comment body cannot be empty');
+    }
+
+    const discussion = await this.getDiscussion(discussionNumber);
+
+    await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: replyToId ? "Posting reply to GitHub..." : "Posting comment to GitHub...",
+      cancellable: false
+    }, () => replyToId
+      ? this.githubService.addReply(discussion.id, replyToId, body)
+      : this.githubService.addComment(discussion.id, body));
+
+    this.invalidateCache(discussionNumber);
+
+    // The draft reads as empty again, so the editor is cleared and saving twice does not post twice
+    this._onDidChangeFile.fire([{
+      type: vscode.FileChangeType.Changed,
+      uri
+    }]);
+    this._onDidChangeComments.fire(discussionNumber);
+    vscode.window.showInformationMessage(`Posted ${replyToId ? 'reply' : 'comment'} to discussion #${discussionNumber}`);
+  }
+
   /**
    * Get discussion from cache or API
    */
@@ -373,9 +858,387 @@ export class DiscussionFileSystemProvider implements vscode.FileSystemProvider {
   }
 
   /**
-   * Format discussion as Markdown file content (body only, title is in filename)
+   * Remember the version an editor is based on
+   */
+  private setBaseVersion(number: number, discussion: Discussion): void {
+    this.baseVersions.set(number, {
+      updatedAt: discussion.updatedAt,
+      title: discussion.title,
+      body: discussion.body
+    });
+  }
+
+  /**
+   * Whether the remote discussion changed since the base version was read
+   * Only title/body changes count, so new comments bumping updatedAt do not block saving
+   */
+  private hasRemoteChanges(base: BaseVersion, remote: Discussion): boolean {
+    if (remote.updatedAt.getTime() === base.updatedAt.getTime()) {
+      return false;
+    }
+    return remote.title !== base.title || remote.body !== base.body;
+  }
+
+  /**
+   * Offer conflict resolution after a rejected save (Requirement 28.2, 28.3, 28.4)
+   */
+  private async handleSaveConflict(uri: vscode.Uri, remote: Discussion): Promise<void> {
+    const choice = await vscode.window.showWarningMessage(
+      `Discussion #${remote.number} was changed on GitHub after you opened it. Your changes were not saved.`,
+      'Compare with remote',
+      'Overwrite',
+      'Cancel'
+    );
+
+    if (choice === 'Compare with remote') {
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        uri.with({ query: 'remote' }),
+        uri,
+        `${remote.title} (GitHub) ↔ Local`
+      );
+    } else if (choice === 'Overwrite') {
+      // Accept the remote version as the base so the next save replaces it
+      this.setBaseVersion(remote.number, remote);
+      const document = await vscode.workspace.openTextDocument(uri);
+      await document.save();
+    }
+  }
+
+  /**
+   * Open VS Code's merge editor for overlapping edits (Requirement 29.3)
+   * Saving the merge result is based on the remote version, so it updates GitHub
+   * The merge editor is opened through an internal command; without it, the conflict is offered as a diff
+   */
+  private async openMergeEditor(uri: vscode.Uri, remote: Discussion): Promise<void> {
+    try {
+      await vscode.commands.executeCommand('_open.mergeEditor', {
+        base: uri.with({ query: 'base' }),
+        input1: { uri: uri.with({ query: 'local' }), title: 'Local' },
+        input2: { uri: uri.with({ query: 'remote' }), title: 'GitHub' },
+        output: uri
+      });
+    } catch {
+      this.pendingMerges.delete(remote.number);
+      await this.handleSaveConflict(uri, remote);
+      return;
+    }
+    this.pendingMerges.set(remote.number, remote);
+    vscode.window.showWarningMessage(
+      `Discussion #${remote.number} has conflicting changes on GitHub. Resolve them in the merge editor and save.`
+    );
+  }
+
+  /**
+   * Whether discussion files start with editable front matter (github-discussions.frontMatter)
+   */
+  private isFrontMatterEnabled(): boolean {
+    return vscode.workspace.getConfiguration('github-discussions').get<boolean>('frontMatter', false);
+  }
+
+  /**
+   * Parse the front matter of a saved document and diff it against the cached discussion
+   * Category and label names are resolved here so nothing is mutated when any value is invalid (Requirement 32.5)
+   */
+  private async resolveFrontMatterChanges(uri: vscode.Uri, text: string, discussionNumber: number): Promise<FrontMatterChanges> {
+    const parsed = parseFrontMatter(text);
+    const frontMatter = parsed.frontMatter ?? {};
+    const discussion = await this.getDiscussion(discussionNumber);
+
+    const categoryName = frontMatter.category !== discussion.category.name ? frontMatter.category : undefined;
+    const resolved = await this.resolveCategoryAndLabels(discussion, categoryName ? { name: categoryName } : undefined, frontMatter.labels);
+    const errors: FrontMatterError[] = [
+      ...parsed.errors,
+      ...resolved.errors.map(error => ({ line: parsed.lines[error.field] ?? 0, message: error.message }))
+    ];
+
+    if (errors.length > 0) {
+      this.reportDiagnostics(uri, text, errors, 'Invalid front matter');
+    }
+    this.diagnostics.delete(uri);
+
+    const closed = frontMatter.state === undefined ? undefined : frontMatter.state === 'closed';
+    return {
+      title: frontMatter.title,
+      body: parsed.body.trim(),
+      categoryId: resolved.categoryId,
+      addLabelIds: resolved.addLabelIds,
+      removeLabelIds: resolved.removeLabelIds,
+      closed: closed !== undefined && closed !== (discussion.closed ?? false) ? closed : undefined,
+      locked: frontMatter.locked !== undefined && frontMatter.locked !== (discussion.locked ?? false) ? frontMatter.locked : undefined
+    };
+  }
+
+  /**
+   * Resolve a category (by id or name) and label names against the repository
+   * Unknown values are returned as errors of the field they came from
+   */
+  private async resolveCategoryAndLabels(
+    discussion: Discussion,
+    category: { id?: string; name?: string } | undefined,
+    labelNames: string[] | undefined
+  ): Promise<{ categoryId?: string; addLabelIds: string[]; removeLabelIds: string[]; errors: Array<{ field: 'category' | 'labels'; message: string }> }> {
+    const errors: Array<{ field: 'category' | 'labels'; message: string }> = [];
+
+    let categoryId: string | undefined;
+    if (category) {
+      const categories = await this.githubService.getDiscussionCategories();
+      const name = category.name;
+      const target = category.id !== undefined
+        ? categories.find(c => c.id === category.id)
+        : categories.find(c => c.name === name) ?? categories.find(c => c.name.toLowerCase() === name?.toLowerCase());
+      if (!target) {
+        errors.push({
+          field: 'category',
+          message: category.id !== undefined
+            ? `Unknown category id "${category.id}" (available: ${categories.map(c => `${c.id} (${c.name})`).join(', ')})`
+            : `Unknown category "${name}" (available: ${categories.map(c => c.name).join(', ')})`
+        });
+      } else if (target.id !== discussion.category.id) {
+        categoryId = target.id;
+      }
+    }
+
+    // GitHub label names are case-insensitive
+    const currentLabels = discussion.labels ?? [];
+    const addLabelIds = new Set<string>();
+    let removeLabelIds: string[] = [];
+    if (labelNames !== undefined) {
+      const wanted = new Set(labelNames.map(name => name.toLowerCase()));
+      const added = labelNames.filter(name => !currentLabels.some(l => l.name.toLowerCase() === name.toLowerCase()));
+      if (added.length > 0) {
+        const repositoryLabels = await this.githubService.getRepositoryLabels();
+        const unknown: string[] = [];
+        for (const name of added) {
+          const label = repositoryLabels.find(l => l.name.toLowerCase() === name.toLowerCase());
+          if (label) {
+            addLabelIds.add(label.id);
+          } else {
+            unknown.push(`"${name}"`);
+          }
+        }
+        if (unknown.length > 0) {
+          errors.push({
+            field: 'labels',
+            message: `Unknown label${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')} in this repository`
+          });
+        }
+      }
+      removeLabelIds = currentLabels.filter(l => !wanted.has(l.name.toLowerCase())).map(l => l.id);
+    }
+
+    return { categoryId, addLabelIds: [...addLabelIds], removeLabelIds, errors };
+  }
+
+  /**
+   * Show errors in the Problems panel on their lines and reject the save
+   */
+  private reportDiagnostics(uri: vscode.Uri, text: string, errors: FrontMatterError[], summary: string): never {
+    const lines = text.split(/\r?\n/);
+    this.diagnostics.set(uri, errors.map(error => {
+      const range = new vscode.Range(error.line, 0, error.line, lines[error.line]?.length ?? 0);
+      const diagnostic = new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Error);
+      diagnostic.source = 'GitHub Discussions';
+      return diagnostic;
+    }));
+    throw vscode.FileSystemError.NoPermissions(`${summary}: ${errors[0].message}`);
+  }
+
+  /**
+   * Apply label, state and lock changes, one mutation at a time
+   * A closed state closes the discussion as resolved, the reason the GitHub UI uses by default
+   * Returns whether anything besides title and body changed; a failed mutation is reported with
+   * the changes saved before it, as they are not rolled back
+   */
+  private async applyMetadataChanges(
+    discussion: { id: string; number: number },
+    changes: MetadataChanges,
+    saved: string[]
+  ): Promise<boolean> {
+    const steps: Array<{ action: string; done: string; run: () => Promise<void> }> = [];
+    if (changes.addLabelIds.length > 0) {
+      steps.push({ action: 'add labels to', done: 'added labels', run: () => this.githubService.addLabelsToDiscussion(discussion.id, changes.addLabelIds) });
+    }
+    if (changes.removeLabelIds.length > 0) {
+      steps.push({ action: 'remove labels from', done: 'removed labels', run: () => this.githubService.removeLabelsFromDiscussion(discussion.id, changes.removeLabelIds) });
+    }
+    if (changes.closed === true) {
+      steps.push({ action: 'close', done: 'closed state', run: () => this.githubService.closeDiscussion(discussion.id, 'RESOLVED') });
+    } else if (changes.closed === false) {
+      steps.push({ action: 'reopen', done: 'open state', run: () => this.githubService.reopenDiscussion(discussion.id) });
+    }
+    if (changes.locked === true) {
+      steps.push({ action: 'lock', done: 'lock', run: () => this.githubService.lockDiscussion(discussion.id) });
+    } else if (changes.locked === false) {
+      steps.push({ action: 'unlock', done: 'unlock', run: () => this.githubService.unlockDiscussion(discussion.id) });
+    }
+
+    const applied = [...saved];
+    for (const step of steps) {
+      try {
+        await step.run();
+      } catch (error) {
+        const savedText = applied.length > 0 ? ` (saved: ${applied.join(', ')})` : '';
+        throw new Error(`Failed to ${step.action} discussion #${discussion.number}${savedText}: ${extractErrorMessage(error)}`);
+      }
+      applied.push(step.done);
+    }
+
+    return changes.categoryId !== undefined || steps.length > 0;
+  }
+
+  /**
+   * Build the content of _metadata.json
+   * The pinned field is left out when the pinned discussions cannot be loaded, so the file can still be read
+   */
+  private async createMetadata(discussion: Discussion): Promise<DiscussionMetadata> {
+    const pinnedIds = await this.githubService.getPinnedDiscussionIds().catch(error => {
+      console.error('Failed to load pinned discussions:', error);
+      return undefined;
+    });
+    return {
+      id: discussion.id,
+      number: discussion.number,
+      title: discussion.title,
+      author: discussion.author,
+      category: discussion.category,
+      createdAt: discussion.createdAt.toISOString(),
+      updatedAt: discussion.updatedAt.toISOString(),
+      isAnswered: discussion.isAnswered,
+      answer: discussion.answer ?? null,
+      reactions: discussion.reactions,
+      labels: (discussion.labels ?? []).map(l => l.name),
+      ...(pinnedIds && { pinned: pinnedIds.includes(discussion.id) }),
+      locked: discussion.locked ?? false
+    };
+  }
+
+  /**
+   * Apply an edited _metadata.json as GitHub mutations (Requirement 33.2, 33.3)
+   * Nothing is changed when any field is invalid or read-only
+   */
+  private async writeMetadata(uri: vscode.Uri, discussionNumber: number, text: string): Promise<void> {
+    const parsed = parseMetadataJson(text);
+    if (parsed.error) {
+      this.reportDiagnostics(uri, text, [{ line: parsed.error.line ?? 0, message: parsed.error.message }], 'Invalid metadata');
+    }
+
+    const discussion = await this.getDiscussion(discussionNumber);
+    const { edits, errors } = diffMetadata(await this.createMetadata(discussion), parsed.value);
+    const category = edits.categoryId !== undefined ? { id: edits.categoryId }
+      : edits.categoryName !== undefined ? { name: edits.categoryName }
+        : undefined;
+    const resolved = await this.resolveCategoryAndLabels(discussion, category, edits.labels);
+
+    // GitHub offers no API to pin discussions
+    if (edits.pinned !== undefined) {
+      errors.push({ field: 'pinned', message: 'Pinning and unpinning is not supported by the GitHub API; change it on github.com' });
+    }
+
+    const propertyLines = findPropertyLines(text);
+    const metadataErrors: MetadataError[] = [...errors, ...resolved.errors];
+    const allErrors = metadataErrors.map(error => ({
+      line: error.line ?? (error.field ? propertyLines[error.field] : undefined) ?? 0,
+      message: error.message
+    }));
+    if (allErrors.length > 0) {
+      this.reportDiagnostics(uri, text, allErrors, 'Invalid metadata');
+    }
+    this.diagnostics.delete(uri);
+
+    const changes: MetadataChanges = {
+      categoryId: resolved.categoryId,
+      addLabelIds: resolved.addLabelIds,
+      removeLabelIds: resolved.removeLabelIds,
+      locked: edits.locked
+    };
+
+    let updated = discussion;
+    await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: "Saving discussion metadata to GitHub...",
+      cancellable: false
+    }, async () => {
+      // A title is refused over a newer remote version, like a markdown save (Requirement 28.1)
+      if (edits.title !== undefined) {
+        const remote = await this.githubService.getDiscussion(discussionNumber);
+        if (this.hasRemoteChanges(this.baseVersions.get(discussionNumber) ?? discussion, remote)) {
+          // Reverting the file shows the remote version; the base is kept for open markdown editors
+          this.setDiscussionCache(discussionNumber, remote);
+          throw vscode.FileSystemError.Unavailable(
+            `Discussion #${discussionNumber} was changed on GitHub after it was opened`
+          );
+        }
+      }
+      if (edits.title !== undefined || changes.categoryId !== undefined) {
+        const saved = await this.githubService.updateDiscussion(discussion.id, {
+          ...(edits.title !== undefined ? { title: edits.title } : {}),
+          ...(changes.categoryId !== undefined ? { categoryId: changes.categoryId } : {})
+        });
+        this.setDiscussionCache(discussionNumber, saved);
+        this.setBaseVersion(discussionNumber, saved);
+      }
+      const saved = [
+        ...(edits.title !== undefined ? ['title'] : []),
+        ...(changes.categoryId !== undefined ? ['category'] : [])
+      ];
+      const metadataChanged = await this.applyMetadataChanges(discussion, changes, saved);
+      if (edits.title !== undefined || metadataChanged) {
+        updated = await this.githubService.getDiscussion(discussionNumber);
+      }
+    });
+
+    if (updated === discussion) {
+      return;
+    }
+
+    this.setDiscussionCache(discussionNumber, updated);
+    this.setBaseVersion(discussionNumber, updated);
+    this._onDidUpdateDiscussion.fire(updated);
+
+    const events: vscode.FileChangeEvent[] = [{ type: vscode.FileChangeType.Changed, uri }];
+    if (updated.title !== discussion.title) {
+      const folder = `${DiscussionFileSystemProvider.rootPath(this.repository)}/discussions/${discussionNumber}`;
+      events.push(
+        { type: vscode.FileChangeType.Deleted, uri: uri.with({ path: `${folder}/${encodeURIComponent(sanitizeFileName(discussion.title) + '.md')}` }) },
+        { type: vscode.FileChangeType.Created, uri: uri.with({ path: `${folder}/${encodeURIComponent(sanitizeFileName(updated.title) + '.md')}` }) }
+      );
+    }
+    this._onDidChangeFile.fire(events);
+  }
+
+  /**
+   * Whether the URI addresses a read-only snapshot
+   */
+  private isSnapshotUri(uri: vscode.Uri): boolean {
+    return SNAPSHOT_KINDS.includes(uri.query);
+  }
+
+  /**
+   * Get snapshot content for a snapshot URI
+   */
+  private getSnapshot(uri: vscode.Uri, discussionNumber: number): string {
+    const snapshot = this.snapshots.get(discussionNumber)?.[uri.query as SnapshotKind];
+    if (snapshot === undefined) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Format discussion as Markdown file content
+   * Body only (title is in filename), or prefixed with front matter when enabled (Requirement 32.1)
    */
   private formatDiscussionAsMarkdown(discussion: Discussion): string {
-    return discussion.body;
+    if (!this.isFrontMatterEnabled()) {
+      return discussion.body;
+    }
+    return formatFrontMatter({
+      title: discussion.title,
+      category: discussion.category.name,
+      labels: (discussion.labels ?? []).map(l => l.name),
+      state: discussion.closed ? 'closed' : 'open',
+      locked: discussion.locked ?? false
+    }, discussion.body);
   }
 }
@@ -0,0 +1,136 @@
+/**
+ * File system router for several repositories
+ * Requirements: 45.4 - Repository-scoped file paths
+ */
+
+import * as vscode from 'vscode';
+import { DiscussionFileSystemProvider } from './discussionFileSystemProvider';
+
+/**
+ * File system registered for the ghd scheme once, which hands each URI to the
+ * provider of the repository it belongs to: ghd:/owner/name/discussions/12 is
+ * served by the provider of owner/name, while a provider registered with an
+ * empty root serves the unprefixed paths when no repository was found
+ */
+export class DiscussionFileSystemRouter implements vscode.FileSystemProvider, vscode.Disposable {
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+
+  /** Providers by root path ("" or /owner/name) */
+  private providers: Map<string, DiscussionFileSystemProvider> = new Map();
+
+  /**
+   * Serve the paths under root with provider until the returned disposable is disposed
+   */
+  register(root: string, provider: DiscussionFileSystemProvider): vscode.Disposable {
+    this.providers.set(root, provider);
+    const subscription = provider.onDidChangeFile(events => this._onDidChangeFile.fire(events));
+
+    return new vscode.Disposable(() => {
+      subscription.dispose();
+      if (this.providers.get(root) === provider) {
+        this.providers.delete(root);
+      }
+    });
+  }
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => {});
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const provider = this.findProvider(uri);
+    if (provider) {
+      return provider.stat(uri);
+    }
+
+    if (this.listDirectory(uri.path).length > 0) {
+      return {
+        type: vscode.FileType.Directory,
+        ctime: Date.now(),
+        mtime: Date.now(),
+        size: 0
+      };
+    }
+
+    throw vscode.FileSystemError.FileNotFound(uri);
+  }
+
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const provider = this.findProvider(uri);
+    if (provider) {
+      return provider.readDirectory(uri);
+    }
+
+    const entries = this.listDirectory(uri.path);
+    if (entries.length > 0) {
+      return entries.map(name => [name, vscode.FileType.Directory] as [string, vscode.FileType]);
+    }
+
+    throw vscode.FileSystemError.FileNotFound(uri);
+  }
+
+  readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    return this.getProvider(uri).readFile(uri);
+  }
+
+  writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+    return this.getProvider(uri).writeFile(uri, content, options);
+  }
+
+  createDirectory(uri: vscode.Uri): Promise<void> {
+    return this.getProvider(uri).createDirectory(uri);
+  }
+
+  delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+    return this.getProvider(uri).delete(uri, options);
+  }
+
+  rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+    const provider = this.getProvider(oldUri);
+    if (this.findProvider(newUri) !== provider) {
+      throw vscode.FileSystemError.NoPermissions('Discussions cannot be moved to another repository');
+    }
+    return provider.rename(oldUri, newUri, options);
+  }
+
+  dispose(): void {
+    this._onDidChangeFile.dispose();
+    this.providers.clear();
+  }
+
+  /**
+   * Provider of the repository whose root contains the path
+   */
+  private findProvider(uri: vscode.Uri): DiscussionFileSystemProvider | undefined {
+    for (const [root, provider] of this.providers) {
+      if (root && (uri.path === root || uri.path.startsWith(`${root}/`))) {
+        return provider;
+      }
+    }
+    return this.providers.get('');
+  }
+
+  private getProvider(uri: vscode.Uri): DiscussionFileSystemProvider {
+    const provider = this.findProvider(uri);
+    if (!provider) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return provider;
+  }
+
+  /**
+   * Owners (at /) or repository names (at /owner) of the registered roots
+   */
+  private listDirectory(path: string): string[] {
+    const parts = path.split('/').filter(Boolean);
+    const names = new Set<string>();
+    for (const root of this.providers.keys()) {
+      const rootParts = root.split('/').filter(Boolean);
+      if (rootParts.length > parts.length && parts.every((part, index) => rootParts[index] === part)) {
+        names.add(rootParts[parts.length]);
+      }
+    }
+    return [...names];
+  }
+}
@@ -0,0 +1,490 @@
+/**
+ * Discussion Form Webview Provider
+ * Requirements: 39.2, 39.3, 39.4, 39.5 - Creating discussions from category form templates
+ * Requirement 40.4 - Template preview
+ */
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { IGitHubService } from '../services/interfaces';
+import { Discussion, DiscussionCategory } from '../models';
+import { extractErrorMessage } from '../utils/errorUtils';
+import {
+  applyTitlePrefix,
+  DiscussionForm,
+  DiscussionFormAnswer,
+  DiscussionFormElement,
+  formatFormAnswers,
+  validateFormAnswers
+} from '../utils/discussionFormUtils';
+
+/**
+ * Message posted by the form when it is submitted
+ */
+interface SubmitFormMessage {
+  type: 'submit';
+  title: string;
+  answers: DiscussionFormAnswer[];
+}
+
+/**
+ * Shows discussion category forms and creates discussions from their answers
+ */
+export class DiscussionFormProvider {
+  /** Open forms, one per category, and previews, one per template file */
+  private panels: Map<string, vscode.WebviewPanel> = new Map();
+  private disposables: vscode.Disposable[] = [];
+
+  /** Forms shown by open previews, replaced when a preview is updated */
+  private previewForms: Map<string, DiscussionForm> = new Map();
+
+  /** Fired after a discussion was created from a form */
+  private readonly _onDidCreateDiscussion = new vscode.EventEmitter<Discussion>();
+  readonly onDidCreateDiscussion: vscode.Event<Discussion> = this._onDidCreateDiscussion.event;
+
+  constructor(private githubService: IGitHubService) {}
+
+  /**
+   * Show the form for creating a discussion in category
+   */
+  async showForm(category: DiscussionCategory, form: DiscussionForm): Promise<void> {
+    const existingPanel = this.panels.get(category.id);
+    if (existingPanel) {
+      existingPanel.reveal(vscode.ViewColumn.One);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'discussionForm',
+      `New Discussion: ${category.name}`,
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    this.panels.set(category.id, panel);
+
+    panel.onDidDispose(() => {
+      this.panels.delete(category.id);
+    }, null, this.disposables);
+
+    panel.webview.onDidReceiveMessage(
+      async (message: SubmitFormMessage) => {
+        if (message.type === 'submit') {
+          await this.submit(panel, category, form, message);
+        }
+      },
+      null,
+      this.disposables
+    );
+
+    panel.webview.html = this.getFormHtml(form, this.getCategoryHtml(category), false);
+  }
+
+  /**
+   * Show a template the way the create flow shows it (Requirement 40.4)
+   * Submitting only checks the required fields; nothing is created
+   * Calling it again for the same template updates the open preview
+   */
+  async showPreview(templateUri: vscode.Uri, form: DiscussionForm, category?: DiscussionCategory): Promise<void> {
+    const panelKey = `preview:${templateUri.toString()}`;
+    const fileName = templateUri.path.split('/').pop() ?? '';
+    const heading = category ? this.getCategoryHtml(category) : `<span class="category">${this.escapeHtml(fileName)}</span>`;
+
+    let panel = this.panels.get(panelKey);
+    if (!panel) {
+      panel = vscode.window.createWebviewPanel(
+        'discussionFormPreview',
+        `Preview: ${fileName}`,
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+        {
+          enableScripts: true,
+          retainContextWhenHidden: true
+        }
+      );
+      this.panels.set(panelKey, panel);
+      const previewPanel = panel;
+
+      previewPanel.onDidDispose(() => {
+        this.panels.delete(panelKey);
+        this.previewForms.delete(panelKey);
+      }, null, this.disposables);
+
+      previewPanel.webview.onDidReceiveMessage(
+        async (message: SubmitFormMessage) => {
+          const previewForm = this.previewForms.get(panelKey);
+          if (message.type === 'submit' && previewForm) {
+            await this.checkPreview(previewPanel, previewForm, message);
+          }
+        },
+        null,
+        this.disposables
+      );
+    } else {
+      panel.reveal(undefined, true);
+    }
+
+    this.previewForms.set(panelKey, form);
+    panel.webview.html = this.getFormHtml(form, heading, true);
+  }
+
+  /**
+   * Whether a preview of the template is open
+   */
+  hasPreview(templateUri: vscode.Uri): boolean {
+    return this.panels.has(`preview:${templateUri.toString()}`);
+  }
+
+  /**
+   * Report missing required fields in a preview, as submitting the form would
+   */
+  private async checkPreview(panel: vscode.WebviewPanel, form: DiscussionForm, message: SubmitFormMessage): Promise<void> {
+    const errors = validateFormAnswers(form, Array.isArray(message.answers) ? message.answers : []);
+    const titleError = typeof message.title === 'string' && message.title.trim() ? undefined : 'Title is required';
+    await panel.webview.postMessage({ type: 'validationErrors', titleError, errors });
+
+    if (errors.length === 0 && !titleError) {
+      const body = formatFormAnswers(form, message.answers);
+      const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: `# ${applyTitlePrefix(form, message.title)}\n\n${body}\n` });
+      await vscode.window.showTextDocument(document, vscode.ViewColumn.Beside);
+    }
+  }
+
+  /**
+   * Validate the answers and create the discussion (Requirements 39.3, 39.4)
+   */
+  private async submit(panel: vscode.WebviewPanel, category: DiscussionCategory, form: DiscussionForm, message: SubmitFormMessage): Promise<void> {
+    const answers = Array.isArray(message.answers) ? message.answers : [];
+    const errors = validateFormAnswers(form, answers);
+    const titleError = typeof message.title === 'string' && message.title.trim() ? undefined : 'Title is required';
+
+    if (errors.length > 0 || titleError) {
+      await panel.webview.postMessage({ type: 'validationErrors', titleError, errors });
+      return;
+    }
+
+    try {
+      const discussion = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Creating discussion on GitHub...',
+        cancellable: false
+      }, async () => {
+        const repoInfo = await this.githubService.getRepositoryInfo();
+        const created = await this.githubService.createDiscussion({
+          repositoryId: repoInfo.id,
+          categoryId: category.id,
+          title: applyTitlePrefix(form, message.title),
+          body: formatFormAnswers(form, answers)
+        });
+        await this.addFormLabels(created.id, form.labels);
+        return created;
+      });
+
+      panel.dispose();
+      this._onDidCreateDiscussion.fire(discussion);
+      vscode.window.showInformationMessage(`Created discussion #${discussion.number} in "${category.name}"`);
+    } catch (error) {
+      await panel.webview.postMessage({ type: 'submitFailed' });
+      vscode.window.showErrorMessage(`Failed to create discussion: ${extractErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Add the labels listed by the form; labels missing from the repository are reported and skipped
+   */
+  private async addFormLabels(discussionId: string, labelNames: string[]): Promise<void> {
+    if (labelNames.length === 0) {
+      return;
+    }
+
+    // GitHub label names are case-insensitive
+    const repositoryLabels = await this.githubService.getRepositoryLabels();
+    const labelIds: string[] = [];
+    const unknown: string[] = [];
+    for (const name of labelNames) {
+      const label = repositoryLabels.find(l => l.name.toLowerCase() === name.toLowerCase());
+      if (label) {
+        labelIds.push(label.id);
+      } else {
+        unknown.push(`"${name}"`);
+      }
+    }
+
+    if (labelIds.length > 0) {
+      await this.githubService.addLabelsToDiscussion(discussionId, labelIds);
+    }
+    if (unknown.length > 0) {
+      vscode.window.showWarningMessage(`The form's labels ${unknown.join(', ')} do not exist in this repository and were not added`);
+    }
+  }
+
+  /**
+   * Render one form element; index identifies its answer
+   */
+  private generateElementHtml(element: DiscussionFormElement, index: number): string {
+    if (element.type === 'markdown') {
+      return `<div class="form-markdown">${this.escapeHtml(element.value ?? '')}</div>`;
+    }
+
+    const fieldId = `field-${index}`;
+    const required = element.required ? '<span class="required" title="Required">*</span>' : '';
+    const label = `<label class="field-label" for="${fieldId}">${this.escapeHtml(element.label)}${required}</label>`;
+    const description = element.description
+      ? `<div class="field-description">${this.escapeHtml(element.description)}</div>`
+      : '';
+    const placeholder = this.escapeHtml(element.placeholder ?? '');
+    const value = this.escapeHtml(element.value ?? '');
+    let control: string;
+
+    switch (element.type) {
+      case 'input':
+        control = `<input type="text" id="${fieldId}" placeholder="${placeholder}" value="${value}" />`;
+        break;
+      case 'textarea':
+        control = `<textarea id="${fieldId}" placeholder="${placeholder}"${element.render ? ' class="code"' : ''}>${value}</textarea>`;
+        break;
+      case 'dropdown': {
+        const options = element.options.map((option, optionIndex) =>
+          `<option value="${this.escapeHtml(option.label)}"${optionIndex === element.defaultOption ? ' selected' : ''}>${this.escapeHtml(option.label)}</option>`
+        ).join('');
+        control = element.multiple
+          ? `<select id="${fieldId}" multiple size="${Math.min(Math.max(element.options.length, 2), 8)}">${options}</select>`
+          : `<select id="${fieldId}"><option value=""${element.defaultOption === undefined ? ' selected' : ''}>Select an option</option>${options}</select>`;
+        break;
+      }
+      case 'checkboxes':
+        control = `<div id="${fieldId}" class="checkboxes">${element.options.map(option => `
+          <label class="checkbox"><input type="checkbox" value="${this.escapeHtml(option.label)}" />${this.escapeHtml(option.label)}${option.required ? '<span class="required" title="Required">*</span>' : ''}</label>`
+        ).join('')}</div>`;
+        break;
+    }
+
+    return `<div class="field" data-index="${index}" data-type="${element.type}">
+      ${label}
+      ${description}
+      ${control}
+      <div class="field-error" id="error-${index}"></div>
+    </div>`;
+  }
+
+  private getCategoryHtml(category: DiscussionCategory): string {
+    return `<span class="category">${this.escapeHtml(category.emoji)} ${this.escapeHtml(category.name)}</span>`;
+  }
+
+  /**
+   * Render the form; in a preview the button only checks the answers
+   */
+  private getFormHtml(form: DiscussionForm, categoryHtml: string, preview: boolean): string {
+    const nonce = this.getNonce();
+    const fields = form.body.map((element, index) => this.generateElementHtml(element, index)).join('\n');
+    const labels = form.labels.length > 0
+      ? `<div class="form-labels">Labels: ${form.labels.map(label => `<span class="label-chip">${this.escapeHtml(label)}</span>`).join(' ')}</div>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>New Discussion</title>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      background-color: var(--vscode-editor-background);
+      padding: 20px;
+      line-height: 1.6;
+      max-width: 800px;
+    }
+    .category {
+      background: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+      padding: 2px 8px;
+      border-radius: 12px;
+      font-size: 12px;
+    }
+    .preview-note {
+      color: var(--vscode-descriptionForeground);
+      font-style: italic;
+    }
+    .form-labels {
+      margin-top: 8px;
+      color: var(--vscode-descriptionForeground);
+      font-size: 12px;
+    }
+    .label-chip {
+      border: 1px solid var(--vscode-panel-border);
+      padding: 0 6px;
+      border-radius: 10px;
+    }
+    .field {
+      margin: 20px 0;
+    }
+    .field-label {
+      display: block;
+      font-weight: bold;
+      margin-bottom: 4px;
+    }
+    .required {
+      color: var(--vscode-errorForeground);
+      margin-left: 4px;
+    }
+    .field-description {
+      color: var(--vscode-descriptionForeground);
+      font-size: 12px;
+      margin-bottom: 6px;
+    }
+    .form-markdown {
+      white-space: pre-wrap;
+      padding: 10px;
+      border-left: 3px solid var(--vscode-textBlockQuote-border);
+      background: var(--vscode-textBlockQuote-background);
+    }
+    input[type="text"], textarea, select {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 6px;
+      color: var(--vscode-input-foreground);
+      background: var(--vscode-input-background);
+      border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+      font-family: inherit;
+    }
+    textarea {
+      min-height: 100px;
+      resize: vertical;
+    }
+    textarea.code {
+      font-family: var(--vscode-editor-font-family);
+    }
+    .checkbox {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    .field.invalid input[type="text"], .field.invalid textarea, .field.invalid select {
+      border-color: var(--vscode-inputValidation-errorBorder);
+    }
+    .field-error {
+      color: var(--vscode-errorForeground);
+      font-size: 12px;
+      min-height: 1em;
+    }
+    button {
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+      border: none;
+      padding: 8px 16px;
+      cursor: pointer;
+    }
+    button:hover {
+      background: var(--vscode-button-hoverBackground);
+    }
+    button:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+  </style>
+</head>
+<body>
+  <h2>${preview ? 'Preview of' : 'New discussion in'} ${categoryHtml}</h2>
+  ${preview ? '<div class="preview-note">Preview only: submitting checks the required fields and shows the resulting body without creating a discussion.</div>' : ''}
+  ${labels}
+  <div class="field" data-index="title">
+    <label class="field-label" for="title">Title<span class="required" title="Required">*</span></label>
+    <input type="text" id="title" value="${this.escapeHtml(form.title ?? '')}" />
+    <div class="field-error" id="error-title"></div>
+  </div>
+  ${fields}
+  <button id="submit-btn">${preview ? 'Check answers' : 'Start discussion'}</button>
+
+  <script nonce="${nonce}">
+    (function() {
+      const vscode = acquireVsCodeApi();
+      const submitButton = document.getElementById('submit-btn');
+
+      function collectAnswers() {
+        const answers = [];
+        document.querySelectorAll('.field[data-type]').forEach(field => {
+          const index = Number(field.dataset.index);
+          const control = document.getElementById('field-' + index);
+          switch (field.dataset.type) {
+            case 'input':
+            case 'textarea':
+              answers[index] = control.value;
+              break;
+            case 'dropdown':
+              answers[index] = Array.from(control.selectedOptions).map(option => option.value).filter(value => value);
+              break;
+            case 'checkboxes':
+              answers[index] = Array.from(control.querySelectorAll('input:checked')).map(input => input.value);
+              break;
+          }
+        });
+        return answers;
+      }
+
+      function showErrors(titleError, errors) {
+        document.querySelectorAll('.field').forEach(field => field.classList.remove('invalid'));
+        document.querySelectorAll('.field-error').forEach(error => { error.textContent = ''; });
+
+        const invalid = (titleError ? [{ index: 'title', message: titleError }] : []).concat(errors);
+        invalid.forEach(error => {
+          document.getElementById('error-' + error.index).textContent = error.message;
+          document.querySelector('.field[data-index="' + error.index + '"]').classList.add('invalid');
+        });
+        if (invalid.length > 0) {
+          document.querySelector('.field.invalid').scrollIntoView({ block: 'center' });
+        }
+      }
+
+      submitButton.addEventListener('click', () => {
+        submitButton.disabled = true;
+        vscode.postMessage({
+          type: 'submit',
+          title: document.getElementById('title').value,
+          answers: collectAnswers()
+        });
+      });
+
+      window.addEventListener('message', event => {
+        const message = event.data;
+        switch (message.type) {
+          case 'validationErrors':
+            showErrors(message.titleError, message.errors);
+            submitButton.disabled = false;
+            break;
+          case 'submitFailed':
+            submitButton.disabled = false;
+            break;
+        }
+      });
+    })();
+  </script>
+</body>
+</html>`;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#039;');
+  }
+
+  private getNonce(): string {
+    return crypto.randomBytes(16).toString('hex');
+  }
+
+  dispose(): void {
+    this.panels.forEach(panel => panel.dispose());
+    this.panels.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this._onDidCreateDiscussion.dispose();
+  }
+}
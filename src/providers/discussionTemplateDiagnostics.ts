@@ -0,0 +1,131 @@
+/**
+ * Diagnostics for discussion category form templates
+ * Requirements: 40.1, 40.2, 40.3 - Template validation
+ */
+
+import * as vscode from 'vscode';
+import { IGitHubService } from '../services/interfaces';
+import { DiscussionCategory } from '../models';
+import { findTemplateCategory, parseDiscussionForm } from '../utils/discussionFormUtils';
+
+/**
+ * Validates .github/DISCUSSION_TEMPLATE/*.yml files against GitHub's form schema
+ * and reports problems in the Problems panel while they are edited
+ */
+export class DiscussionTemplateDiagnostics implements vscode.Disposable {
+  static readonly templateGlob = '.github/DISCUSSION_TEMPLATE/*.{yml,yaml}';
+
+  private diagnostics = vscode.languages.createDiagnosticCollection('github-discussions-templates');
+  private disposables: vscode.Disposable[] = [];
+
+  /** Categories of each repository, kept once they could be read */
+  private categories: Map<IGitHubService, Promise<DiscussionCategory[]>> = new Map();
+
+  /**
+   * @param githubService Service of the repository templates belong to, or a function
+   * finding it from the template when several repositories are shown (Requirement 45.2)
+   */
+  constructor(private githubService: IGitHubService | ((uri: vscode.Uri) => IGitHubService | undefined)) {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${DiscussionTemplateDiagnostics.templateGlob}`);
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(uri => this.validateFile(uri)),
+      watcher.onDidChange(uri => this.validateFile(uri)),
+      watcher.onDidDelete(uri => this.diagnostics.delete(uri)),
+      vscode.workspace.onDidOpenTextDocument(document => this.validateDocument(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.validateDocument(event.document))
+    );
+  }
+
+  /**
+   * Whether uri is a discussion form template
+   */
+  static isTemplate(uri: vscode.Uri): boolean {
+    return /\/\.github\/DISCUSSION_TEMPLATE\/[^/]+\.ya?ml$/.test(uri.path);
+  }
+
+  /**
+   * Validate every template in the workspace
+   * Categories are read again, so file names are checked against the current slugs
+   */
+  async validateWorkspace(): Promise<void> {
+    this.categories.clear();
+    const uris = await vscode.workspace.findFiles(`**/${DiscussionTemplateDiagnostics.templateGlob}`);
+    for (const uri of uris) {
+      await this.validateFile(uri);
+    }
+  }
+
+  async validateDocument(document: vscode.TextDocument): Promise<void> {
+    if (DiscussionTemplateDiagnostics.isTemplate(document.uri)) {
+      await this.validate(document.uri, document.getText());
+    }
+  }
+
+  private async validateFile(uri: vscode.Uri): Promise<void> {
+    // Open documents are validated from their unsaved text instead
+    if (vscode.workspace.textDocuments?.some(document => document.uri.toString() === uri.toString())) {
+      return;
+    }
+    try {
+      await this.validate(uri, new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+    } catch {
+      this.diagnostics.delete(uri);
+    }
+  }
+
+  private async validate(uri: vscode.Uri, text: string): Promise<void> {
+    const lines = text.split(/\r?\n/);
+    // From the column of a YAML syntax error, or the whole line
+    const rangeOf = (line: number, column = 0) => new vscode.Range(line, column, line, Math.max(lines[line]?.length ?? 0, column));
+
+    const diagnostics = parseDiscussionForm(text).errors.map(error => {
+      const diagnostic = new vscode.Diagnostic(rangeOf(error.line, error.column), error.message, vscode.DiagnosticSeverity.Error);
+      diagnostic.source = 'GitHub Discussions';
+      return diagnostic;
+    });
+
+    // github.com only uses templates named after a category slug (Requirement 40.2)
+    const categories = await this.getCategories(uri);
+    const fileName = uri.path.split('/').pop() ?? '';
+    if (categories.length > 0 && !findTemplateCategory(fileName, categories)) {
+      const diagnostic = new vscode.Diagnostic(
+        rangeOf(0),
+        `"${fileName}" does not match any discussion category slug (available: ${categories.map(c => c.slug ?? c.name).join(', ')})`,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'GitHub Discussions';
+      diagnostics.push(diagnostic);
+    }
+
+    this.diagnostics.set(uri, diagnostics);
+  }
+
+  private getCategories(uri: vscode.Uri): Promise<DiscussionCategory[]> {
+    const githubService = typeof this.githubService === 'function' ? this.githubService(uri) : this.githubService;
+    if (!githubService) {
+      return Promise.resolve([]);
+    }
+
+    let categories = this.categories.get(githubService);
+    if (!categories) {
+      // Nothing is returned before signing in, so an empty result is not kept
+      categories = githubService.getDiscussionCategories()
+        .catch(() => [] as DiscussionCategory[])
+        .then(result => {
+          if (result.length === 0) {
+            this.categories.delete(githubService);
+          }
+          return result;
+        });
+      this.categories.set(githubService, categories);
+    }
+    return categories;
+  }
+
+  dispose(): void {
+    this.diagnostics.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -4,12 +4,185 @@
  */
 
 import * as vscode from 'vscode';
-import { IGitHubService, IAuthenticationService, INotificationBadgeService } from '../services/interfaces';
-import { DiscussionSummary, DiscussionCategory, CategoryPaginationState, CategoryLoadState, CategoryState } from '../models';
+import { IGitHubService, IAuthenticationService, INotificationBadgeService, IStorageService } from '../services/interfaces';
+import { DiscussionSummary, DiscussionCategory, DiscussionState, CategoryPaginationState, CategoryLoadState, CategoryState, Label, DiscussionSearchResult, DiscussionSortMode, DiscussionQueryOptions, PinnedDiscussion, PinnedDiscussionPattern, PinnedDiscussionGradient, DiscussionSummariesPage, SavedSearch, DiscussionGroupBy } from '../models';
 import { createAppError, ErrorType } from '../utils/errorUtils';
+import { toSearchSnippet } from '../utils/searchUtils';
+import { STORAGE_KEY_DISCUSSION_FILTERS, STORAGE_KEY_GROUP_BY, STORAGE_KEY_SAVED_SEARCHES } from '../constants';
+import { ParsedRemote } from '../infrastructure/gitRemoteParser';
 
 export type AnsweredFilter = 'all' | 'answered' | 'unanswered';
 
+/**
+ * Active tree filters, persisted per workspace (Requirement 35.3)
+ */
+export interface DiscussionFilters {
+  searchQuery: string;
+  categoryIds: string[];
+  labelIds: string[];
+  answered: AnsweredFilter;
+}
+
+export type DiscussionTreeItemType = 'category' | 'discussion' | 'loadMore' | 'loading' | 'empty' | 'error' | 'auth-required' | 'searchResults' | 'searchMatch' | 'pinned' | 'smartView' | 'savedSearch' | 'group' | 'repository' | 'organization';
+
+/**
+ * GraphQL order for each sort mode (Requirement 37.2)
+ */
+const SORT_ORDER: Partial<Record<DiscussionSortMode, NonNullable<DiscussionQueryOptions['orderBy']>>> = {
+  updated: { field: 'UPDATED_AT', direction: 'DESC' },
+  newest: { field: 'CREATED_AT', direction: 'DESC' },
+  oldest: { field: 'CREATED_AT', direction: 'ASC' }
+};
+
+/**
+ * Search order for each sort mode (Requirement 37.2, 43.2, 44.2)
+ * Sort modes GraphQL cannot order discussions by are fetched through the search API,
+ * so every page follows the order. No API orders by upvotes: "top" fetches the most 👍 reactions
+ * first and orders the loaded discussions by upvotes
+ */
+const SEARCH_SORT: Record<DiscussionSortMode, string> = {
+  updated: 'sort:updated',
+  newest: 'sort:created',
+  oldest: 'sort:created-asc',
+  comments: 'sort:comments',
+  top: 'sort:reactions-+1'
+};
+
+/**
+ * Smart view built into the tree, backed by a search for the signed-in user (Requirement 43.1, 43.2)
+ */
+interface BuiltInSmartView {
+  id: string;
+  icon: string;
+  label(days: number): string;
+  query(login: string, days: number): string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUILT_IN_SMART_VIEWS: readonly BuiltInSmartView[] = [
+  { id: 'created', icon: 'account', label: () => 'Created by me', query: login => `author:${login}` },
+  { id: 'participating', icon: 'comment-discussion', label: () => 'Participating', query: login => `involves:${login}` },
+  { id: 'mentioning', icon: 'mention', label: () => 'Mentioning me', query: login => `mentions:${login}` },
+  {
+    id: 'unanswered',
+    icon: 'watch',
+    // is:unanswered cannot be combined with the last activity, so the view is about the age of the discussion
+    label: days => `Unanswered, opened > ${days} days ago`,
+    query: (_login, days) => `is:unanswered created:<${new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10)}`
+  }
+];
+
+/** Smart view keys of saved searches start with this prefix; built-in views use their id */
+const SAVED_SEARCH_KEY_PREFIX = 'saved:';
+
+/**
+ * Key of the repository-wide discussion list that grouping modes other than category are built from (Requirement 44.2)
+ */
+const ALL_DISCUSSIONS_KEY = 'all-discussions';
+
+/** Key of the Search Results section in the "Load more" item (Requirement 36) */
+const SEARCH_RESULTS_KEY = 'search-results';
+
+/**
+ * Group in a grouping mode other than category (Requirement 44.1)
+ * Groups are found in the repository-wide list; each one pages through its own search (Requirement 44.2)
+ */
+interface DiscussionGroup {
+  key: string;
+  label: string;
+  icon: vscode.ThemeIcon;
+  /** Search qualifiers of the group's discussions */
+  query: string;
+  /** Narrows down search results the qualifiers cannot tell apart */
+  accepts?: (discussion: DiscussionSummary) => boolean;
+}
+
+/**
+ * Build the contextValue for a discussion item so menus can target its state
+ * e.g. "discussion", "discussion.closed", "discussion.locked", "discussion.closed.locked" (Requirement 24.5)
+ * followed by ".pinned" for pinned discussions (Requirement 42.3)
+ */
+function getDiscussionContextValue(summary: DiscussionSummary): string {
+  return 'discussion' + (summary.closed ? '.closed' : '') + (summary.locked ? '.locked' : '') + (summary.pinned ? '.pinned' : '');
+}
+
+/**
+ * Codicon for each pin pattern (Requirement 42.2)
+ */
+const PIN_PATTERN_ICONS: Record<PinnedDiscussionPattern, string> = {
+  CHEVRON_UP: 'chevron-up',
+  DOT: 'circle-small',
+  DOT_FILL: 'circle-filled',
+  HEART_FILL: 'heart-filled',
+  PLUS: 'add',
+  ZAP: 'zap'
+};
+
+/**
+ * Theme color closest to each preset pin gradient (Requirement 42.2)
+ */
+const PIN_GRADIENT_COLORS: Record<PinnedDiscussionGradient, string> = {
+  BLUE_MINT: 'charts.green',
+  BLUE_PURPLE: 'charts.blue',
+  PINK_BLUE: 'charts.purple',
+  PURPLE_CORAL: 'charts.red',
+  RED_ORANGE: 'charts.orange'
+};
+
+/**
+ * Theme color closest to the first stop of a custom gradient
+ * Tree icons can only use theme colors, so the hue picks one of the chart colors
+ */
+function getGradientStopColor(hex: string | undefined): string | undefined {
+  const match = hex?.match(/^#?([0-9a-fA-F]{6})$/);
+  if (!match) {
+    return undefined;
+  }
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(match[1].slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (delta === 0) {
+    return undefined;
+  }
+  const hue = max === r ? ((g - b) / delta + 6) % 6 * 60
+    : max === g ? ((b - r) / delta + 2) * 60
+      : ((r - g) / delta + 4) * 60;
+  if (hue < 20 || hue >= 330) {
+    return 'charts.red';
+  }
+  return hue < 45 ? 'charts.orange'
+    : hue < 70 ? 'charts.yellow'
+      : hue < 170 ? 'charts.green'
+        : hue < 260 ? 'charts.blue'
+          : 'charts.purple';
+}
+
+/**
+ * Icon of a discussion in the Pinned section: its pin pattern in its gradient color (Requirement 42.2)
+ */
+function getPinIcon(pinned: PinnedDiscussion): vscode.ThemeIcon {
+  const color = pinned.preconfiguredGradient
+    ? PIN_GRADIENT_COLORS[pinned.preconfiguredGradient]
+    : getGradientStopColor(pinned.gradientStopColors[0]);
+  return new vscode.ThemeIcon(
+    PIN_PATTERN_ICONS[pinned.pattern] ?? 'pinned',
+    color ? new vscode.ThemeColor(color) : undefined
+  );
+}
+
+/**
+ * Server-side search shown in the Search Results section (Requirement 36)
+ */
+interface SearchResultsState {
+  query: string;
+  loadState: 'loading' | 'loaded' | 'error';
+  totalCount: number;
+  results: DiscussionSearchResult[];
+  paginationState?: CategoryPaginationState;
+  error?: Error;
+}
+
 /**
  * Loading state for the tree view
  */
@@ -24,26 +197,41 @@ export enum LoadingState {
  * Tree item representing a category, discussion, load-more button, or status message
  */
 export class DiscussionTreeItem extends vscode.TreeItem {
+  public readonly contextValue: string;
+
   constructor(
-    public readonly label: string,
+    public readonly label: string | vscode.TreeItemLabel,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-    public readonly contextValue: 'category' | 'discussion' | 'loadMore' | 'loading' | 'empty' | 'error' | 'auth-required',
+    public readonly itemType: DiscussionTreeItemType,
     public readonly discussionSummary?: DiscussionSummary,
     public readonly category?: DiscussionCategory,
-    public readonly categoryId?: string,  // For loadMore item to know which category
+    public readonly categoryId?: string,  // For loadMore, smart view and group items to know which category, smart view or group
     public readonly isUnread?: boolean  // For showing unread badge (Requirement 20)
   ) {
     super(label, collapsibleState);
+    this.contextValue = itemType;
 
-    if (contextValue === 'discussion' && discussionSummary) {
+    if (itemType === 'discussion' && discussionSummary) {
+      this.contextValue = getDiscussionContextValue(discussionSummary);
       // Show unread indicator at the beginning of label (Requirement 20.1, 20.2)
-      if (isUnread) {
+      if (isUnread && typeof label === 'string') {
         this.label = `💬 ${label}`;
       }
-      this.description = `#${discussionSummary.number}`;
+      // Closed / locked state labels (Requirement 24.5)
+      const stateLabels = [
+        ...(discussionSummary.closed ? ['Closed'] : []),
+        ...(discussionSummary.locked ? ['Locked'] : [])
+      ];
+      // Label names follow the state labels (Requirement 34.3)
+      const labelNames = (discussionSummary.labels ?? []).map(l => l.name);
+      this.description = [`#${discussionSummary.number}`, ...stateLabels, ...labelNames].join(' · ');
       // Tooltip without body (lazy loading - body not available in summary)
       const unreadTooltip = isUnread ? '\n\n💬 新着コメントがあります' : '';
-      this.tooltip = `${discussionSummary.title}\n\nBy @${discussionSummary.author.login}\n${discussionSummary.commentsCount} comments${unreadTooltip}`;
+      const stateTooltip = stateLabels.length > 0 ? `\n${stateLabels.join(', ')}` : '';
+      const labelTooltip = labelNames.length > 0 ? `\nLabels: ${labelNames.join(', ')}` : '';
+      const pollTooltip = discussionSummary.hasPoll ? '\nPoll' : '';
+      const pinnedTooltip = discussionSummary.pinned ? '\n📌 Pinned' : '';
+      this.tooltip = `${discussionSummary.title}\n\nBy @${discussionSummary.author.login}\n${discussionSummary.commentsCount} comments${stateTooltip}${pollTooltip}${pinnedTooltip}${labelTooltip}${unreadTooltip}`;
       // クリック時はマークダウンエディタを開く（要件3.1）
       // コメントアイコン経由でWebviewを開く（要件5.1, 5.2）
       this.command = {
@@ -52,8 +240,14 @@ export class DiscussionTreeItem extends vscode.TreeItem {
         arguments: [this]  // TreeItem自体を渡す（editDiscussionコマンドが.discussionSummaryを参照）
       };
 
-      // Set icon based on answered status
-      if (discussionSummary.category.isAnswerable) {
+      // Set icon based on closed/locked/poll/answered status (Requirement 24.5, 41.4)
+      if (discussionSummary.closed) {
+        this.iconPath = new vscode.ThemeIcon('issue-closed', new vscode.ThemeColor('disabledForeground'));
+      } else if (discussionSummary.locked) {
+        this.iconPath = new vscode.ThemeIcon('lock');
+      } else if (discussionSummary.hasPoll) {
+        this.iconPath = new vscode.ThemeIcon('graph');
+      } else if (discussionSummary.category.isAnswerable) {
         if (discussionSummary.isAnswered) {
           this.iconPath = new vscode.ThemeIcon('check', new vscode.ThemeColor('testing.iconPassed'));
         } else {
@@ -62,31 +256,53 @@ export class DiscussionTreeItem extends vscode.TreeItem {
       } else {
         this.iconPath = new vscode.ThemeIcon('comment-discussion');
       }
-    } else if (contextValue === 'category' && category) {
+    } else if (itemType === 'category' && category) {
       this.tooltip = category.description;
       this.iconPath = new vscode.ThemeIcon('folder');
-    } else if (contextValue === 'loading') {
+    } else if (itemType === 'searchResults') {
+      this.iconPath = new vscode.ThemeIcon('search');
+    } else if (itemType === 'smartView') {
+      this.iconPath = new vscode.ThemeIcon('filter');
+    } else if (itemType === 'savedSearch') {
+      this.iconPath = new vscode.ThemeIcon('bookmark');
+    } else if (itemType === 'group') {
+      this.iconPath = new vscode.ThemeIcon('folder');
+    } else if (itemType === 'repository') {
+      this.iconPath = new vscode.ThemeIcon('repo');
+    } else if (itemType === 'organization') {
+      this.iconPath = new vscode.ThemeIcon('organization');
+    } else if (itemType === 'pinned') {
+      this.tooltip = 'Discussions pinned in the repository';
+    } else if (itemType === 'searchMatch' && discussionSummary) {
+      // Matching snippet under a search result; opens the discussion like its parent (Requirement 36.3)
+      this.iconPath = new vscode.ThemeIcon('quote');
+      this.command = {
+        command: 'github-discussions.editDiscussion',
+        title: 'Edit Discussion',
+        arguments: [this]
+      };
+    } else if (itemType === 'loading') {
       this.iconPath = new vscode.ThemeIcon('loading~spin');
-    } else if (contextValue === 'empty') {
+    } else if (itemType === 'empty') {
       this.iconPath = new vscode.ThemeIcon('info');
-    } else if (contextValue === 'error') {
+    } else if (itemType === 'error') {
       this.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'));
       this.command = {
         command: 'github-discussions.refresh',
         title: 'Retry'
       };
-    } else if (contextValue === 'auth-required') {
+    } else if (itemType === 'auth-required') {
       this.iconPath = new vscode.ThemeIcon('account');
       this.command = {
         command: 'github-discussions.authenticate',
         title: 'Sign In'
       };
-    } else if (contextValue === 'loadMore') {
+    } else if (itemType === 'loadMore') {
       this.iconPath = new vscode.ThemeIcon('ellipsis');
       this.command = {
         command: 'github-discussions.loadMoreDiscussions',
         title: 'Load More',
-        arguments: [categoryId]
+        arguments: [categoryId, this]
       };
     }
   }
@@ -105,19 +321,53 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
   private loadingState: LoadingState = LoadingState.IDLE;
   private lastError: Error | undefined;
 
+  // Fired when any filter changes (Requirement 35.2)
+  private _onDidChangeFilters = new vscode.EventEmitter<DiscussionFilters>();
+  readonly onDidChangeFilters: vscode.Event<DiscussionFilters> = this._onDidChangeFilters.event;
+
   // Filter state
   private searchQuery = '';
   private categoryFilter: string[] = [];
+  private labelFilter: string[] = [];
   private answeredFilter: AnsweredFilter = 'all';
 
+  // Whether closed discussions are fetched and shown (Requirement 24.4)
+  private showClosed = false;
+
+  // Order of discussions within categories (Requirement 37)
+  private sortMode: DiscussionSortMode = 'newest';
+
   // Category-specific state for lazy loading (Requirement 15)
   private categoryStates: Map<string, CategoryState> = new Map();
 
+  // Last server-side search, cleared explicitly (Requirement 36)
+  private searchResults: SearchResultsState | undefined;
+
+  // Discussions pinned in the repository, loaded with the categories (Requirement 42)
+  private pinnedDiscussions: PinnedDiscussion[] = [];
+
+  // Smart view state for lazy loading, keyed like smart view items (Requirement 43.3)
+  private smartViewStates: Map<string, CategoryState> = new Map();
+
+  // Searches saved as smart views, persisted per workspace (Requirement 43.4)
+  private savedSearches: SavedSearch[] = [];
+
+  // How the tree is grouped, persisted per workspace (Requirement 44)
+  private groupBy: DiscussionGroupBy = 'category';
+
+  // Repository-wide discussion list for grouping modes other than category, loaded on first use (Requirement 44.2)
+  private groupedStates: Map<string, CategoryState> = new Map();
+
   private notificationBadgeService?: INotificationBadgeService;
 
+  /**
+   * @param repository Repository whose settings are stored separately (Requirement 45.3)
+   */
   constructor(
     private githubService: IGitHubService,
-    private authService: IAuthenticationService
+    private authService: IAuthenticationService,
+    private storageService?: IStorageService,
+    private repository?: ParsedRemote
   ) {}
 
   /**
@@ -135,15 +385,68 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
     this.loadingState = LoadingState.IDLE;
     this.lastError = undefined;
     this.categoryStates.clear();
+    this.smartViewStates.clear();
+    this.groupedStates.clear();
+    this._onDidChangeTreeData.fire();
+
+    // Search results are refreshed with the rest of the tree
+    if (this.searchResults) {
+      this.searchDiscussions(this.searchResults.query);
+    }
+  }
+
+  /**
+   * Run a server-side search and show the results above the categories
+   * Requirement 36.1, 36.3: Results use GitHub search syntax and are shown in a Search Results section
+   */
+  async searchDiscussions(query: string): Promise<void> {
+    const state: SearchResultsState = { query, loadState: 'loading', totalCount: 0, results: [] };
+    this.searchResults = state;
+    this._onDidChangeTreeData.fire();
+
+    try {
+      const pageSize = vscode.workspace.getConfiguration('github-discussions').get<number>('pageSize', 20);
+      const { totalCount, results, pageInfo } = await this.githubService.searchDiscussions(query, { first: pageSize });
+      state.loadState = 'loaded';
+      state.totalCount = totalCount;
+      state.results = results;
+      state.paginationState = { ...pageInfo, isLoading: false };
+    } catch (error) {
+      console.error('Failed to search discussions:', error);
+      state.loadState = 'error';
+      state.error = error instanceof Error ? error : new Error(String(error));
+    }
+
+    // A newer search or clear replaced this one while it was running
+    if (this.searchResults === state) {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  /**
+   * Remove the Search Results section
+   */
+  clearSearchResults(): void {
+    if (!this.searchResults) {
+      return;
+    }
+    this.searchResults = undefined;
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Query of the search currently shown, if any
+   */
+  getSearchResultsQuery(): string | undefined {
+    return this.searchResults?.query;
+  }
+
   /**
    * Set search query for filtering
    */
   setSearchQuery(query: string): void {
-    this.searchQuery = query.toLowerCase();
-    this._onDidChangeTreeData.fire();
+    this.searchQuery = query.trim();
+    this.onFiltersChanged();
   }
 
   /**
@@ -151,7 +454,23 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
    */
   setCategoryFilter(categoryIds: string[]): void {
     this.categoryFilter = categoryIds;
-    this._onDidChangeTreeData.fire();
+    this.onFiltersChanged();
+  }
+
+  /**
+   * Set label filter (Requirement 34.4)
+   * Discussions with any of the given labels are shown
+   */
+  setLabelFilter(labelIds: string[]): void {
+    this.labelFilter = labelIds;
+    this.onFiltersChanged();
+  }
+
+  /**
+   * Get the label ids currently filtered by
+   */
+  getLabelFilter(): string[] {
+    return this.labelFilter;
   }
 
   /**
@@ -159,7 +478,7 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
    */
   setAnsweredFilter(filter: AnsweredFilter): void {
     this.answeredFilter = filter;
-    this._onDidChangeTreeData.fire();
+    this.onFiltersChanged();
   }
 
   /**
@@ -168,7 +487,249 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
   clearFilters(): void {
     this.searchQuery = '';
     this.categoryFilter = [];
+    this.labelFilter = [];
     this.answeredFilter = 'all';
+    this.onFiltersChanged();
+  }
+
+  /**
+   * Get the current filters
+   */
+  getFilters(): DiscussionFilters {
+    return {
+      searchQuery: this.searchQuery,
+      categoryIds: this.categoryFilter,
+      labelIds: this.labelFilter,
+      answered: this.answeredFilter
+    };
+  }
+
+  /**
+   * Whether any filter is active (Requirement 35.4)
+   */
+  hasActiveFilters(): boolean {
+    return this.searchQuery !== '' ||
+      this.categoryFilter.length > 0 ||
+      this.labelFilter.length > 0 ||
+      this.answeredFilter !== 'all';
+  }
+
+  /**
+   * Short summary of the active filters for the view description (Requirement 35.2)
+   * Returns undefined when no filter is active
+   */
+  describeFilters(): string | undefined {
+    if (!this.hasActiveFilters()) {
+      return undefined;
+    }
+
+    const parts: string[] = [];
+    if (this.searchQuery) {
+      parts.push(`"${this.searchQuery}"`);
+    }
+    if (this.categoryFilter.length > 0) {
+      // Category names are only known once categories are loaded
+      const names = this.categories.filter(c => this.categoryFilter.includes(c.id)).map(c => c.name);
+      parts.push(names.length === this.categoryFilter.length
+        ? names.join(', ')
+        : `${this.categoryFilter.length} ${this.categoryFilter.length === 1 ? 'category' : 'categories'}`);
+    }
+    if (this.labelFilter.length > 0) {
+      parts.push(`${this.labelFilter.length} ${this.labelFilter.length === 1 ? 'label' : 'labels'}`);
+    }
+    if (this.answeredFilter !== 'all') {
+      parts.push(this.answeredFilter === 'answered' ? 'Answered' : 'Unanswered');
+    }
+    return `Filtered: ${parts.join(' · ')}`;
+  }
+
+  /**
+   * Restore the filters saved for this workspace (Requirement 35.3)
+   */
+  async restoreFilters(): Promise<void> {
+    const saved = await this.storageService?.getData<Partial<DiscussionFilters>>(this.getWorkspaceStorageKey(STORAGE_KEY_DISCUSSION_FILTERS));
+    if (!saved) {
+      return;
+    }
+
+    this.searchQuery = saved.searchQuery ?? '';
+    this.categoryFilter = saved.categoryIds ?? [];
+    this.labelFilter = saved.labelIds ?? [];
+    this.answeredFilter = saved.answered ?? 'all';
+    this._onDidChangeTreeData.fire();
+    this._onDidChangeFilters.fire(this.getFilters());
+  }
+
+  /**
+   * Refresh the tree, notify listeners and save the filters for this workspace
+   */
+  private onFiltersChanged(): void {
+    this._onDidChangeTreeData.fire();
+    this._onDidChangeFilters.fire(this.getFilters());
+    this.storageService?.storeData(this.getWorkspaceStorageKey(STORAGE_KEY_DISCUSSION_FILTERS), this.getFilters()).catch(error => {
+      console.error('Failed to save discussion filters:', error);
+    });
+  }
+
+  /**
+   * Storage key scoped to the first workspace folder, so each workspace keeps its own filters and saved searches
+   * Each repository keeps its own as well, so showing another one does not move them (Requirement 45.3)
+   */
+  private getWorkspaceStorageKey(prefix: string, scoped = true): string {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const key = scoped && this.repository ? `${prefix}:${this.repository.owner}/${this.repository.name}` : prefix;
+    return workspaceFolder
+      ? `${key}:${workspaceFolder.uri.toString()}`
+      : key;
+  }
+
+  /**
+   * Move the filters, saved searches and grouping mode stored before storage keys were scoped by repository
+   * to this repository; they are moved once, to the first repository that asks for them
+   */
+  async migrateUnscopedState(): Promise<void> {
+    const storageService = this.storageService;
+    if (!this.repository || !storageService) {
+      return;
+    }
+
+    for (const prefix of [STORAGE_KEY_DISCUSSION_FILTERS, STORAGE_KEY_SAVED_SEARCHES, STORAGE_KEY_GROUP_BY]) {
+      const unscopedKey = this.getWorkspaceStorageKey(prefix, false);
+      const saved = await storageService.getData<unknown>(unscopedKey);
+      if (saved === undefined) {
+        continue;
+      }
+      const key = this.getWorkspaceStorageKey(prefix);
+      if (await storageService.getData<unknown>(key) === undefined) {
+        await storageService.storeData(key, saved);
+      }
+      await storageService.clearData(unscopedKey);
+    }
+  }
+
+  /**
+   * Restore the searches saved for this workspace (Requirement 43.4)
+   */
+  async restoreSavedSearches(): Promise<void> {
+    const saved = await this.storageService?.getData<SavedSearch[]>(this.getWorkspaceStorageKey(STORAGE_KEY_SAVED_SEARCHES));
+    if (!saved || saved.length === 0) {
+      return;
+    }
+    this.savedSearches = saved;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get the saved searches, in the order they are shown
+   */
+  getSavedSearches(): SavedSearch[] {
+    return this.savedSearches;
+  }
+
+  /**
+   * Add a saved search as a smart view, replacing one with the same name (Requirement 43.4)
+   */
+  async saveSearch(search: SavedSearch): Promise<void> {
+    const existing = this.savedSearches.findIndex(s => s.name === search.name);
+    this.savedSearches = existing === -1
+      ? [...this.savedSearches, search]
+      : this.savedSearches.map((s, i) => i === existing ? search : s);
+    this.smartViewStates.delete(SAVED_SEARCH_KEY_PREFIX + search.name);
+    await this.onSavedSearchesChanged();
+  }
+
+  /**
+   * Remove a saved search (Requirement 43.4)
+   */
+  async removeSavedSearch(name: string): Promise<void> {
+    if (!this.savedSearches.some(s => s.name === name)) {
+      return;
+    }
+    this.savedSearches = this.savedSearches.filter(s => s.name !== name);
+    this.smartViewStates.delete(SAVED_SEARCH_KEY_PREFIX + name);
+    await this.onSavedSearchesChanged();
+  }
+
+  private async onSavedSearchesChanged(): Promise<void> {
+    this._onDidChangeTreeData.fire();
+    await this.storageService?.storeData(this.getWorkspaceStorageKey(STORAGE_KEY_SAVED_SEARCHES), this.savedSearches);
+  }
+
+  /**
+   * Show or hide closed discussions (Requirement 24.4)
+   * Loaded categories are reset because the fetched states change
+   */
+  setShowClosed(showClosed: boolean): void {
+    if (this.showClosed === showClosed) {
+      return;
+    }
+    this.showClosed = showClosed;
+    this.categoryStates.clear();
+    this.smartViewStates.clear();
+    this.groupedStates.clear();
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Whether closed discussions are currently shown
+   */
+  isShowingClosed(): boolean {
+    return this.showClosed;
+  }
+
+  /**
+   * Change the sort mode (Requirement 37.3)
+   * Category, smart view and group states are reset because pagination cursors belong to the previous order
+   */
+  setSortMode(sortMode: DiscussionSortMode): void {
+    if (this.sortMode === sortMode) {
+      return;
+    }
+    this.sortMode = sortMode;
+    this.categoryStates.clear();
+    this.smartViewStates.clear();
+    this.groupedStates.clear();
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get the current sort mode
+   */
+  getSortMode(): DiscussionSortMode {
+    return this.sortMode;
+  }
+
+  /**
+   * Change how the tree is grouped and save it for this workspace (Requirement 44.1, 44.4)
+   * Loaded discussions are kept, so switching back and forth does not refetch them
+   */
+  setGroupBy(groupBy: DiscussionGroupBy): void {
+    if (this.groupBy === groupBy) {
+      return;
+    }
+    this.groupBy = groupBy;
+    this._onDidChangeTreeData.fire();
+    this.storageService?.storeData(this.getWorkspaceStorageKey(STORAGE_KEY_GROUP_BY), groupBy).catch(error => {
+      console.error('Failed to save the grouping mode:', error);
+    });
+  }
+
+  /**
+   * Get the current grouping mode
+   */
+  getGroupBy(): DiscussionGroupBy {
+    return this.groupBy;
+  }
+
+  /**
+   * Restore the grouping mode saved for this workspace (Requirement 44.4)
+   */
+  async restoreGroupBy(): Promise<void> {
+    const saved = await this.storageService?.getData<DiscussionGroupBy>(this.getWorkspaceStorageKey(STORAGE_KEY_GROUP_BY));
+    if (!saved || saved === this.groupBy) {
+      return;
+    }
+    this.groupBy = saved;
     this._onDidChangeTreeData.fire();
   }
 
@@ -184,10 +745,10 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
    */
   async getChildren(element?: DiscussionTreeItem): Promise<DiscussionTreeItem[]> {
     // Handle status items (loading, error, etc.) - they have no children
-    if (element?.contextValue === 'loading' ||
-        element?.contextValue === 'empty' ||
-        element?.contextValue === 'error' ||
-        element?.contextValue === 'auth-required') {
+    if (element?.itemType === 'loading' ||
+        element?.itemType === 'empty' ||
+        element?.itemType === 'error' ||
+        element?.itemType === 'auth-required') {
       return [];
     }
 
@@ -219,19 +780,54 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
         )];
       }
 
-      // Return categories or empty state
-      const categoryItems = this.getCategoryItems();
+      // Return search results, pinned discussions, categories or groups (or empty state) and smart views
+      const searchItems = this.getSearchResultsItems();
+      const pinnedItems = this.getPinnedItems();
+      const smartViewItems = this.getSmartViewItems();
+      const categoryItems = this.groupBy === 'category' ? this.getCategoryItems() : await this.getGroupedItems();
       if (categoryItems.length === 0) {
-        return [new DiscussionTreeItem(
+        return [...searchItems, ...pinnedItems, new DiscussionTreeItem(
           'No discussions found',
           vscode.TreeItemCollapsibleState.None,
           'empty'
-        )];
+        ), ...smartViewItems];
+      }
+      return [...searchItems, ...pinnedItems, ...categoryItems, ...smartViewItems];
+    }
+
+    if (element.itemType === 'searchResults') {
+      return this.getSearchResultChildren();
+    }
+
+    if (element.itemType === 'pinned') {
+      return this.getPinnedChildren();
+    }
+
+    if (element.itemType === 'group' && element.categoryId) {
+      // Groups are loaded on expand with their own cursor, like categories (Requirement 44.2)
+      const key = element.categoryId;
+      if (!this.groupedStates.has(key)) {
+        await this.loadFirstPage(this.groupedStates, key, (first, after) => this.fetchGroupPage(key, first, after));
+      }
+      const group = this.getDiscussionGroups().find(g => g.key === key);
+      return this.getPagedChildren(this.groupedStates, key, 'No discussions in this group', d => this.isInGroup(group, d));
+    }
+
+    if ((element.itemType === 'smartView' || element.itemType === 'savedSearch') && element.categoryId) {
+      // Smart views are loaded on expand like categories (Requirement 43.3)
+      const key = element.categoryId;
+      if (!this.smartViewStates.has(key)) {
+        await this.loadFirstPage(this.smartViewStates, key, (first, after) => this.fetchSmartViewPage(key, first, after));
       }
-      return categoryItems;
+      return this.getPagedChildren(this.smartViewStates, key, 'No matching discussions');
+    }
+
+    // Only search results have children: their matching snippets (Requirement 36.3)
+    if (element.itemType === 'discussion' && element.discussionSummary) {
+      return this.getSearchMatchItems(element.discussionSummary);
     }
 
-    if (element.contextValue === 'category' && element.category) {
+    if (element.itemType === 'category' && element.category) {
       // Category level - lazy load discussions for this category (Requirement 15)
       const categoryId = element.category.id;
 
@@ -243,70 +839,24 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
         await this.loadCategoryDiscussions(categoryId);
       }
 
-      // Get current state after potential load
-      const currentState = this.categoryStates.get(categoryId);
+      return this.getPagedChildren(this.categoryStates, categoryId, 'No discussions in this category');
+    }
 
-      // Handle loading state
-      if (currentState?.loadState === 'loading') {
-        return [new DiscussionTreeItem(
-          'Loading...',
-          vscode.TreeItemCollapsibleState.None,
-          'loading'
-        )];
-      }
+    // Handle loadMore item - it should not have children
+    if (element?.itemType === 'loadMore') {
+      return [];
+    }
 
-      // Handle error state
-      if (currentState?.loadState === 'error') {
-        return [new DiscussionTreeItem(
-          `Error loading discussions (click to retry)`,
-          vscode.TreeItemCollapsibleState.None,
-          'error'
-        )];
-      }
+    return [];
+  }
 
-      // Get discussion items from category state
-      const items = this.getDiscussionItems(categoryId);
-
-      if (items.length === 0) {
-        return [new DiscussionTreeItem(
-          'No discussions in this category',
-          vscode.TreeItemCollapsibleState.None,
-          'empty'
-        )];
-      }
-
-      // Add "Load More" item if there are more discussions to load (Requirement 14.2)
-      const paginationState = currentState?.paginationState;
-      if (paginationState?.hasNextPage) {
-        const loadMoreLabel = paginationState.isLoading ? 'Loading...' : 'Load more discussions...';
-        items.push(new DiscussionTreeItem(
-          loadMoreLabel,
-          vscode.TreeItemCollapsibleState.None,
-          'loadMore',
-          undefined,
-          undefined,
-          categoryId
-        ));
-      }
-
-      return items;
-    }
-
-    // Handle loadMore item - it should not have children
-    if (element?.contextValue === 'loadMore') {
-      return [];
-    }
-
-    return [];
-  }
-
-  /**
-   * Ensure categories are loaded (Requirement 15.1: Only load categories initially)
-   */
-  private async ensureLoaded(): Promise<void> {
-    if (this.loadingState === LoadingState.LOADED || this.loadingState === LoadingState.LOADING) {
-      return;
-    }
+  /**
+   * Ensure categories are loaded (Requirement 15.1: Only load categories initially)
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (this.loadingState === LoadingState.LOADED || this.loadingState === LoadingState.LOADING) {
+      return;
+    }
 
     this.loadingState = LoadingState.LOADING;
 
@@ -324,7 +874,14 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
       }
 
       // Only load categories, not discussions (Requirement 15.1)
-      const categories = await this.githubService.getDiscussionCategories();
+      // Pinned discussions come along; without them the tree still works, just without the section (Requirement 42.1)
+      const [categories, pinnedDiscussions] = await Promise.all([
+        this.githubService.getDiscussionCategories(),
+        this.githubService.getPinnedDiscussions().catch(error => {
+          console.error('Failed to load pinned discussions:', error);
+          return [] as PinnedDiscussion[];
+        })
+      ]);
 
       // Initialize category states as not_loaded (Requirement 15)
       for (const category of categories) {
@@ -337,11 +894,18 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
       }
 
       this.categories = categories;
+      this.pinnedDiscussions = pinnedDiscussions;
       this.loadingState = LoadingState.LOADED;
       this.lastError = undefined;
+
+      // Category names in the filter description become available (Requirement 35.2)
+      if (this.categoryFilter.length > 0) {
+        this._onDidChangeFilters.fire(this.getFilters());
+      }
     } catch (error) {
       console.error('Failed to load categories:', error);
       this.categories = [];
+      this.pinnedDiscussions = [];
       this.loadingState = LoadingState.ERROR;
       this.lastError = error instanceof Error ? error : new Error(String(error));
     }
@@ -351,7 +915,45 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
    * Load discussions for a specific category (Requirement 15.2)
    */
   private async loadCategoryDiscussions(categoryId: string): Promise<void> {
-    const currentState = this.categoryStates.get(categoryId);
+    await this.loadFirstPage(this.categoryStates, categoryId, (first, after) => this.fetchCategoryPage(categoryId, first, after));
+  }
+
+  /**
+   * Fetch a page of a category, or of the whole repository without a category
+   */
+  private fetchCategoryPage(categoryId: string | undefined, first: number, after?: string): Promise<DiscussionSummariesPage> {
+    const orderBy = SORT_ORDER[this.sortMode];
+    if (!orderBy) {
+      const category = this.categories.find(c => c.id === categoryId);
+      return this.searchPage(category ? `category:"${category.name}"` : '', first, after);
+    }
+
+    return this.githubService.getDiscussionSummaries({
+      first,
+      after,
+      categoryId,
+      states: this.getDiscussionStates(),
+      orderBy
+    });
+  }
+
+  /**
+   * Fetch a page of the discussions matching the qualifiers, in the current order and closed toggle
+   */
+  private searchPage(qualifiers: string, first: number, after?: string): Promise<DiscussionSummariesPage> {
+    const query = [qualifiers, this.showClosed ? '' : 'is:open', SEARCH_SORT[this.sortMode]].filter(Boolean).join(' ');
+    return this.githubService.searchDiscussionSummaries(query, { first, after });
+  }
+
+  /**
+   * Load the first page of a category, smart view or the repository-wide list into its state
+   */
+  private async loadFirstPage(
+    states: Map<string, CategoryState>,
+    key: string,
+    fetchPage: (first: number, after?: string) => Promise<DiscussionSummariesPage>
+  ): Promise<void> {
+    const currentState = states.get(key);
 
     // Don't reload if already loaded or currently loading
     if (currentState?.loadState === 'loaded' || currentState?.loadState === 'loading') {
@@ -359,7 +961,7 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
     }
 
     // Set loading state
-    this.categoryStates.set(categoryId, {
+    states.set(key, {
       loadState: 'loading',
       discussions: currentState?.discussions || []
     });
@@ -367,12 +969,9 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
 
     try {
       const pageSize = vscode.workspace.getConfiguration('github-discussions').get<number>('pageSize', 20);
-      const result = await this.githubService.getDiscussionSummaries({
-        first: pageSize,
-        categoryId: categoryId
-      });
+      const result = await fetchPage(pageSize);
 
-      this.categoryStates.set(categoryId, {
+      states.set(key, {
         loadState: 'loaded',
         discussions: result.discussions,
         paginationState: {
@@ -382,8 +981,8 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
         }
       });
     } catch (error) {
-      console.error(`Failed to load discussions for category ${categoryId}:`, error);
-      this.categoryStates.set(categoryId, {
+      console.error(`Failed to load discussions for ${key}:`, error);
+      states.set(key, {
         loadState: 'error',
         discussions: [],
         error: error instanceof Error ? error : new Error(String(error))
@@ -393,6 +992,13 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Discussion states to request based on the closed toggle (Requirement 24.4)
+   */
+  private getDiscussionStates(): DiscussionState[] {
+    return this.showClosed ? ['OPEN', 'CLOSED'] : ['OPEN'];
+  }
+
   /**
    * Get category load state (for testing)
    */
@@ -425,25 +1031,455 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
   }
 
   /**
-   * Get discussion tree items for a category
+   * Pinned section, when the repository has pinned discussions to show (Requirement 42.1)
    */
-  private getDiscussionItems(categoryId: string): DiscussionTreeItem[] {
-    // Get discussions from category state (lazy loaded)
-    const categoryState = this.categoryStates.get(categoryId);
-    let filteredSummaries = categoryState?.discussions || [];
+  private getPinnedItems(): DiscussionTreeItem[] {
+    const count = this.getVisiblePinnedDiscussions().length;
+    if (count === 0) {
+      return [];
+    }
 
-    // Apply search filter (title only - body not available in summary)
-    if (this.searchQuery) {
-      filteredSummaries = filteredSummaries.filter((d: DiscussionSummary) =>
-        d.title.toLowerCase().includes(this.searchQuery)
+    const item = new DiscussionTreeItem(
+      '📌 Pinned',
+      vscode.TreeItemCollapsibleState.Expanded,
+      'pinned'
+    );
+    item.description = `${count}`;
+    return [item];
+  }
+
+  /**
+   * Pinned discussions in pinned order, each with its pin icon (Requirement 42.2)
+   */
+  private getPinnedChildren(): DiscussionTreeItem[] {
+    const unreadIds = this.notificationBadgeService?.getUnreadIds() || [];
+    return this.getVisiblePinnedDiscussions().map(pinned => {
+      const item = new DiscussionTreeItem(
+        pinned.discussion.title,
+        vscode.TreeItemCollapsibleState.None,
+        'discussion',
+        pinned.discussion,
+        undefined,
+        undefined,
+        unreadIds.includes(pinned.discussion.id)
       );
+      item.iconPath = getPinIcon(pinned);
+      return item;
+    });
+  }
+
+  /**
+   * Pinned discussions that pass the closed toggle and the active filters, like category items
+   */
+  private getVisiblePinnedDiscussions(): PinnedDiscussion[] {
+    const visible = this.pinnedDiscussions.filter(pinned =>
+      (this.showClosed || !pinned.discussion.closed) &&
+      (this.categoryFilter.length === 0 || this.categoryFilter.includes(pinned.discussion.category.id))
+    );
+    const summaries = this.filterDiscussions(visible.map(pinned => pinned.discussion));
+    return visible.filter(pinned => summaries.includes(pinned.discussion));
+  }
+
+  /**
+   * Mark a discussion that is also shown in the Pinned section, so its menu offers Unpin (Requirement 42.3)
+   */
+  private withPinnedState(summary: DiscussionSummary): DiscussionSummary {
+    return this.pinnedDiscussions.some(pinned => pinned.discussion.id === summary.id)
+      ? { ...summary, pinned: true }
+      : summary;
+  }
+
+  /**
+   * Built-in smart views followed by saved searches (Requirement 43.1, 43.4)
+   */
+  private getSmartViewItems(): DiscussionTreeItem[] {
+    const days = this.getUnansweredDays();
+    const builtIn = BUILT_IN_SMART_VIEWS.map(view => {
+      const item = new DiscussionTreeItem(
+        view.label(days),
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'smartView',
+        undefined,
+        undefined,
+        view.id
+      );
+      item.iconPath = new vscode.ThemeIcon(view.icon);
+      return item;
+    });
+    const saved = this.savedSearches.map(search => {
+      const item = new DiscussionTreeItem(
+        search.name,
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'savedSearch',
+        undefined,
+        undefined,
+        SAVED_SEARCH_KEY_PREFIX + search.name
+      );
+      item.tooltip = `GitHub search: ${search.query}`;
+      return item;
+    });
+
+    return [...builtIn, ...saved].map(item => {
+      const state = this.smartViewStates.get(item.categoryId!);
+      if (state?.loadState === 'loaded') {
+        item.description = `${state.discussions.length}${state.paginationState?.hasNextPage ? '+' : ''}`;
+      }
+      return item;
+    });
+  }
+
+  /**
+   * Fetch a page of a smart view through the search API in the current order (Requirement 37.3, 43.2)
+   * Built-in views follow the closed toggle; saved searches include what their query asks for
+   * and keep their own order when they set one
+   */
+  private async fetchSmartViewPage(key: string, first: number, after?: string): Promise<DiscussionSummariesPage> {
+    if (key.startsWith(SAVED_SEARCH_KEY_PREFIX)) {
+      const search = this.savedSearches.find(s => SAVED_SEARCH_KEY_PREFIX + s.name === key);
+      if (!search) {
+        return { discussions: [], pageInfo: { hasNextPage: false, endCursor: null } };
+      }
+      const query = /(^|\s)sort:/.test(search.query) ? search.query : `${search.query} ${SEARCH_SORT[this.sortMode]}`;
+      return this.githubService.searchDiscussionSummaries(query, { first, after });
     }
 
-    // Apply answered filter
-    if (this.answeredFilter === 'answered') {
-      filteredSummaries = filteredSummaries.filter((d: DiscussionSummary) => d.isAnswered);
-    } else if (this.answeredFilter === 'unanswered') {
-      filteredSummaries = filteredSummaries.filter((d: DiscussionSummary) => !d.isAnswered);
+    const view = BUILT_IN_SMART_VIEWS.find(v => v.id === key);
+    const user = await this.authService.getCurrentUser();
+    if (!view || !user) {
+      throw new Error('Not authenticated');
+    }
+    return this.searchPage(view.query(user.login, this.getUnansweredDays()), first, after);
+  }
+
+  /**
+   * Age in days after which an unanswered discussion is listed in the "Unanswered" smart view
+   */
+  private getUnansweredDays(): number {
+    const days = vscode.workspace.getConfiguration('github-discussions').get<number>('unansweredDays', 7);
+    return typeof days === 'number' && days >= 1 ? Math.floor(days) : 7;
+  }
+
+  /**
+   * Root items of a grouping mode other than category (Requirement 44.1, 44.2, 44.3)
+   * The repository-wide list is loaded on first use to find the groups; "Load more" after them finds more
+   */
+  private async getGroupedItems(): Promise<DiscussionTreeItem[]> {
+    if (!this.groupedStates.has(ALL_DISCUSSIONS_KEY)) {
+      await this.loadFirstPage(this.groupedStates, ALL_DISCUSSIONS_KEY, (first, after) => this.fetchCategoryPage(undefined, first, after));
+    }
+
+    const state = this.groupedStates.get(ALL_DISCUSSIONS_KEY);
+    if (state?.loadState !== 'loaded') {
+      return this.getPagedChildren(this.groupedStates, ALL_DISCUSSIONS_KEY, 'No discussions found');
+    }
+
+    const items = this.groupBy === 'flat'
+      ? this.getDiscussionItems(this.getGroupedDiscussions())
+      : this.getDiscussionGroups().map(group => {
+        const item = new DiscussionTreeItem(
+          group.label,
+          vscode.TreeItemCollapsibleState.Collapsed,
+          'group',
+          undefined,
+          undefined,
+          group.key
+        );
+        item.iconPath = group.icon;
+        const state = this.groupedStates.get(group.key);
+        if (state?.loadState === 'loaded') {
+          const count = this.filterDiscussions(state.discussions.filter(d => this.isInGroup(group, d))).length;
+          item.description = `${count}${state.paginationState?.hasNextPage ? '+' : ''}`;
+        }
+        return item;
+      });
+
+    // Later pages may still have matches, so "Load more" stays available when nothing is shown
+    if (items.length === 0) {
+      items.push(new DiscussionTreeItem(
+        'No discussions found',
+        vscode.TreeItemCollapsibleState.None,
+        'empty'
+      ));
+    }
+    return [...items, ...this.getLoadMoreItems(state.paginationState, ALL_DISCUSSIONS_KEY)];
+  }
+
+  /**
+   * Loaded repository-wide discussions that pass the category filter and the other filters
+   */
+  private getGroupedDiscussions(): DiscussionSummary[] {
+    const discussions = this.groupedStates.get(ALL_DISCUSSIONS_KEY)?.discussions ?? [];
+    return this.filterDiscussions(this.categoryFilter.length > 0
+      ? discussions.filter(d => this.categoryFilter.includes(d.category.id))
+      : discussions);
+  }
+
+  /**
+   * Groups of the loaded discussions for the current grouping mode (Requirement 44.1)
+   * A discussion with several labels makes a group of each of them
+   */
+  private getDiscussionGroups(): DiscussionGroup[] {
+    const groups = new Map<string, DiscussionGroup>();
+    const add = (group: DiscussionGroup) => {
+      if (!groups.has(group.key)) {
+        groups.set(group.key, group);
+      }
+    };
+
+    for (const discussion of this.getGroupedDiscussions()) {
+      switch (this.groupBy) {
+        case 'author':
+          add({
+            key: `author:${discussion.author.login}`,
+            label: discussion.author.login,
+            icon: new vscode.ThemeIcon('account'),
+            query: `author:${discussion.author.login}`
+          });
+          break;
+        case 'label':
+          if (!discussion.labels?.length) {
+            add({ key: 'label:', label: 'No label', icon: new vscode.ThemeIcon('circle-slash'), query: 'no:label' });
+          }
+          for (const label of discussion.labels ?? []) {
+            add({ key: `label:${label.id}`, label: label.name, icon: new vscode.ThemeIcon('tag'), query: `label:"${label.name}"` });
+          }
+          break;
+        case 'answered':
+          // Search cannot tell unanswered discussions of answerable categories from the others
+          if (!discussion.category.isAnswerable) {
+            add({
+              key: 'answered:none',
+              label: 'Not answerable',
+              icon: new vscode.ThemeIcon('comment-discussion'),
+              query: 'is:unanswered',
+              accepts: d => !d.category.isAnswerable
+            });
+          } else if (discussion.isAnswered) {
+            add({
+              key: 'answered:yes',
+              label: 'Answered',
+              icon: new vscode.ThemeIcon('check', new vscode.ThemeColor('testing.iconPassed')),
+              query: 'is:answered'
+            });
+          } else {
+            add({
+              key: 'answered:no',
+              label: 'Unanswered',
+              icon: new vscode.ThemeIcon('question', new vscode.ThemeColor('testing.iconQueued')),
+              query: 'is:unanswered',
+              accepts: d => d.category.isAnswerable
+            });
+          }
+          break;
+        case 'month': {
+          const updatedAt = new Date(discussion.updatedAt);
+          const month = updatedAt.toISOString().slice(0, 7);
+          const lastDay = new Date(Date.UTC(updatedAt.getUTCFullYear(), updatedAt.getUTCMonth() + 1, 0)).getUTCDate();
+          add({
+            key: `month:${month}`,
+            label: updatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', timeZone: 'UTC' }),
+            icon: new vscode.ThemeIcon('calendar'),
+            query: `updated:${month}-01..${month}-${String(lastDay).padStart(2, '0')}`
+          });
+          break;
+        }
+      }
+    }
+
+    // Authors and labels alphabetically with "No label" last, answered states in a fixed order, newest month first
+    const order = ['answered:yes', 'answered:no', 'answered:none'];
+    return [...groups.values()].sort((a, b) => {
+      switch (this.groupBy) {
+        case 'answered':
+          return order.indexOf(a.key) - order.indexOf(b.key);
+        case 'month':
+          return b.key.localeCompare(a.key);
+        default:
+          return Number(a.key === 'label:') - Number(b.key === 'label:') ||
+            a.label.localeCompare(b.label, undefined, { sensitivity: 'base' });
+      }
+    });
+  }
+
+  /**
+   * Fetch a page of a group through the search API (Requirement 44.2, 44.3)
+   */
+  private fetchGroupPage(key: string, first: number, after?: string): Promise<DiscussionSummariesPage> {
+    const group = this.getDiscussionGroups().find(g => g.key === key);
+    if (!group) {
+      return Promise.resolve({ discussions: [], pageInfo: { hasNextPage: false, endCursor: null } });
+    }
+    return this.searchPage(group.query, first, after);
+  }
+
+  /**
+   * Whether a discussion loaded for a group is shown in it, with the category filter applied
+   */
+  private isInGroup(group: DiscussionGroup | undefined, discussion: DiscussionSummary): boolean {
+    return (group?.accepts?.(discussion) ?? true) &&
+      (this.categoryFilter.length === 0 || this.categoryFilter.includes(discussion.category.id));
+  }
+
+  /**
+   * Search Results section, when a search has been run (Requirement 36.3)
+   */
+  private getSearchResultsItems(): DiscussionTreeItem[] {
+    if (!this.searchResults) {
+      return [];
+    }
+
+    const item = new DiscussionTreeItem(
+      'Search Results',
+      vscode.TreeItemCollapsibleState.Expanded,
+      'searchResults'
+    );
+    const count = this.searchResults.loadState === 'loaded' ? ` · ${this.searchResults.totalCount}` : '';
+    item.description = `"${this.searchResults.query}"${count}`;
+    item.tooltip = `GitHub search: ${this.searchResults.query}`;
+    return [item];
+  }
+
+  /**
+   * Discussions found by the search, with snippets as children
+   */
+  private getSearchResultChildren(): DiscussionTreeItem[] {
+    const state = this.searchResults;
+    if (!state || state.loadState === 'loading') {
+      return [new DiscussionTreeItem(
+        'Searching...',
+        vscode.TreeItemCollapsibleState.None,
+        'loading'
+      )];
+    }
+
+    if (state.loadState === 'error') {
+      return [new DiscussionTreeItem(
+        `Search failed: ${createAppError(state.error).message} (click to retry)`,
+        vscode.TreeItemCollapsibleState.None,
+        'error'
+      )];
+    }
+
+    if (state.results.length === 0) {
+      return [new DiscussionTreeItem(
+        'No matching discussions',
+        vscode.TreeItemCollapsibleState.None,
+        'empty'
+      )];
+    }
+
+    const unreadIds = this.notificationBadgeService?.getUnreadIds() || [];
+    const items = state.results.map(result =>
+      new DiscussionTreeItem(
+        result.discussion.title,
+        result.textMatches.length > 0
+          ? vscode.TreeItemCollapsibleState.Collapsed
+          : vscode.TreeItemCollapsibleState.None,
+        'discussion',
+        this.withPinnedState(result.discussion),
+        undefined,
+        undefined,
+        unreadIds.includes(result.discussion.id)
+      )
+    );
+
+    return [...items, ...this.getLoadMoreItems(state.paginationState, SEARCH_RESULTS_KEY)];
+  }
+
+  /**
+   * Highlighted snippets of a search result
+   */
+  private getSearchMatchItems(summary: DiscussionSummary): DiscussionTreeItem[] {
+    const result = this.searchResults?.results.find(r => r.discussion.id === summary.id);
+    if (!result) {
+      return [];
+    }
+
+    return result.textMatches.map(match => {
+      const snippet = toSearchSnippet(match);
+      const item = new DiscussionTreeItem(
+        { label: snippet.text, highlights: snippet.highlights },
+        vscode.TreeItemCollapsibleState.None,
+        'searchMatch',
+        summary
+      );
+      item.tooltip = `Match in ${match.property}\n\n${match.fragment}`;
+      return item;
+    });
+  }
+
+  /**
+   * Children of a category, smart view or group: its discussions and a "Load more" item, or its load state
+   * @param accepts Narrows down the loaded discussions, e.g. to a group
+   */
+  private getPagedChildren(
+    states: Map<string, CategoryState>,
+    key: string,
+    emptyLabel: string,
+    accepts?: (discussion: DiscussionSummary) => boolean
+  ): DiscussionTreeItem[] {
+    const currentState = states.get(key);
+
+    // Handle loading state
+    if (currentState?.loadState === 'loading') {
+      return [new DiscussionTreeItem(
+        'Loading...',
+        vscode.TreeItemCollapsibleState.None,
+        'loading'
+      )];
+    }
+
+    // Handle error state
+    if (currentState?.loadState === 'error') {
+      return [new DiscussionTreeItem(
+        `Error loading discussions (click to retry)`,
+        vscode.TreeItemCollapsibleState.None,
+        'error'
+      )];
+    }
+
+    // Get discussion items from the lazily loaded state
+    const discussions = currentState?.discussions || [];
+    const items = this.getDiscussionItems(accepts ? discussions.filter(accepts) : discussions);
+
+    // Add "Load More" item if there are more discussions to load (Requirement 14.2)
+    // A page whose discussions are all filtered out still offers the next one
+    const loadMoreItems = this.getLoadMoreItems(currentState?.paginationState, key);
+    if (items.length === 0) {
+      return [new DiscussionTreeItem(
+        emptyLabel,
+        vscode.TreeItemCollapsibleState.None,
+        'empty'
+      ), ...loadMoreItems];
+    }
+
+    return [...items, ...loadMoreItems];
+  }
+
+  /**
+   * "Load more" item for a paged state with more discussions to load
+   */
+  private getLoadMoreItems(paginationState: CategoryPaginationState | undefined, key: string): DiscussionTreeItem[] {
+    if (!paginationState?.hasNextPage) {
+      return [];
+    }
+    return [new DiscussionTreeItem(
+      paginationState.isLoading ? 'Loading...' : 'Load more discussions...',
+      vscode.TreeItemCollapsibleState.None,
+      'loadMore',
+      undefined,
+      undefined,
+      key
+    )];
+  }
+
+  /**
+   * Get discussion tree items for loaded discussions, filtered and sorted
+   */
+  private getDiscussionItems(summaries: DiscussionSummary[]): DiscussionTreeItem[] {
+    let filteredSummaries = this.filterDiscussions(summaries);
+    if (this.sortMode === 'top') {
+      filteredSummaries = [...filteredSummaries].sort((a, b) => (b.upvoteCount ?? 0) - (a.upvoteCount ?? 0));
     }
 
     // Get unread IDs for showing badge (Requirement 20.5)
@@ -454,7 +1490,7 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
         summary.title,
         vscode.TreeItemCollapsibleState.None,
         'discussion',
-        summary,
+        this.withPinnedState(summary),
         undefined,
         undefined,
         unreadIds.includes(summary.id)  // Pass isUnread flag (Requirement 20.2)
@@ -462,32 +1498,119 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
     );
   }
 
+  /**
+   * Apply the search, label and answered filters to loaded discussions
+   */
+  private filterDiscussions(summaries: DiscussionSummary[]): DiscussionSummary[] {
+    let filteredSummaries = summaries;
+
+    // Apply search filter (title only - body not available in summary)
+    if (this.searchQuery) {
+      const query = this.searchQuery.toLowerCase();
+      filteredSummaries = filteredSummaries.filter((d: DiscussionSummary) =>
+        d.title.toLowerCase().includes(query)
+      );
+    }
+
+    // Apply label filter (Requirement 34.4)
+    if (this.labelFilter.length > 0) {
+      filteredSummaries = filteredSummaries.filter((d: DiscussionSummary) =>
+        (d.labels ?? []).some(l => this.labelFilter.includes(l.id))
+      );
+    }
+
+    // Apply answered filter
+    if (this.answeredFilter === 'answered') {
+      filteredSummaries = filteredSummaries.filter((d: DiscussionSummary) => d.isAnswered);
+    } else if (this.answeredFilter === 'unanswered') {
+      filteredSummaries = filteredSummaries.filter((d: DiscussionSummary) => !d.isAnswered);
+    }
+
+    return filteredSummaries;
+  }
+
   /**
    * Load more discussions for a specific category
    * Requirement 14.3: Load next page using endCursor
+   * Smart views share the "Load more" item and are keyed by their smart view key (Requirement 43.3)
    */
   async loadMoreForCategory(categoryId: string): Promise<void> {
-    const categoryState = this.categoryStates.get(categoryId);
-    const paginationState = categoryState?.paginationState;
-    if (!paginationState || !paginationState.hasNextPage || paginationState.isLoading) {
+    if (categoryId === SEARCH_RESULTS_KEY) {
+      await this.loadMoreSearchResults();
+      return;
+    }
+    if (this.smartViewStates.has(categoryId)) {
+      await this.loadNextPage(this.smartViewStates, categoryId, (first, after) => this.fetchSmartViewPage(categoryId, first, after));
+      return;
+    }
+    // Grouping modes other than category page through the repository-wide list and each group (Requirement 44.3)
+    if (this.groupedStates.has(categoryId)) {
+      await this.loadNextPage(this.groupedStates, categoryId, (first, after) => categoryId === ALL_DISCUSSIONS_KEY
+        ? this.fetchCategoryPage(undefined, first, after)
+        : this.fetchGroupPage(categoryId, first, after));
+      return;
+    }
+    await this.loadNextPage(this.categoryStates, categoryId, (first, after) => this.fetchCategoryPage(categoryId, first, after));
+  }
+
+  /**
+   * Append the next page of search results, like the next page of a category
+   */
+  private async loadMoreSearchResults(): Promise<void> {
+    const state = this.searchResults;
+    const paginationState = state?.paginationState;
+    if (!state || !paginationState || !paginationState.hasNextPage || paginationState.isLoading) {
       return;
     }
 
-    // Set loading state (Requirement 14.6)
     paginationState.isLoading = true;
     this._onDidChangeTreeData.fire();
 
     try {
       const pageSize = vscode.workspace.getConfiguration('github-discussions').get<number>('pageSize', 20);
-      const result = await this.githubService.getDiscussionSummaries({
+      const { totalCount, results, pageInfo } = await this.githubService.searchDiscussions(state.query, {
         first: pageSize,
-        after: paginationState.endCursor ?? undefined,
-        categoryId: categoryId
+        after: paginationState.endCursor ?? undefined
       });
+      state.totalCount = totalCount;
+      state.results = [...state.results, ...results];
+      state.paginationState = { ...pageInfo, isLoading: false };
+    } catch (error) {
+      console.error('Failed to load more search results:', error);
+      paginationState.isLoading = false;
+    }
+
+    // A newer search or clear replaced this one while it was running
+    if (this.searchResults === state) {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  /**
+   * Append the next page of a category or smart view to its state
+   */
+  private async loadNextPage(
+    states: Map<string, CategoryState>,
+    key: string,
+    fetchPage: (first: number, after?: string) => Promise<DiscussionSummariesPage>
+  ): Promise<void> {
+    const state = states.get(key);
+    const paginationState = state?.paginationState;
+    if (!paginationState || !paginationState.hasNextPage || paginationState.isLoading) {
+      return;
+    }
+
+    // Set loading state (Requirement 14.6)
+    paginationState.isLoading = true;
+    this._onDidChangeTreeData.fire();
+
+    try {
+      const pageSize = vscode.workspace.getConfiguration('github-discussions').get<number>('pageSize', 20);
+      const result = await fetchPage(pageSize, paginationState.endCursor ?? undefined);
 
-      // Add new discussions to existing list in category state
-      const existingDiscussions = categoryState?.discussions || [];
-      this.categoryStates.set(categoryId, {
+      // Add new discussions to existing list in the state
+      const existingDiscussions = state?.discussions || [];
+      states.set(key, {
         loadState: 'loaded',
         discussions: [...existingDiscussions, ...result.discussions],
         paginationState: {
@@ -504,6 +1627,196 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Update the answered state of a loaded discussion without a full refresh
+   * Requirement 23.5: Tree icon reflects answer changes made in the comments view
+   */
+  setDiscussionAnswered(discussionId: string, isAnswered: boolean): void {
+    this.updateDiscussionSummary(discussionId, { isAnswered });
+  }
+
+  /**
+   * Update the closed/locked state of a loaded discussion without a full refresh
+   * Requirement 24.5: Closed discussions are removed unless closed discussions are shown
+   */
+  setDiscussionState(discussionId: string, changes: Pick<DiscussionSummary, 'closed' | 'locked'>): void {
+    if (changes.closed && !this.showClosed) {
+      // Search results keep closed discussions, as the query decides what they include
+      // Pinned discussions stay pinned and are hidden by the closed toggle
+      const changed = this.updateSearchResult(discussionId, changes);
+      const pinnedChanged = this.updatePinnedDiscussion(discussionId, changes);
+      if (this.removeFromCategoryStates(discussionId) || changed || pinnedChanged) {
+        this._onDidChangeTreeData.fire();
+      }
+      return;
+    }
+    this.updateDiscussionSummary(discussionId, changes);
+  }
+
+  /**
+   * Update the labels of a loaded discussion without a full refresh
+   * Requirement 34.5: Chips and the label filter reflect label edits
+   */
+  setDiscussionLabels(discussionId: string, labels: Label[]): void {
+    this.updateDiscussionSummary(discussionId, { labels });
+  }
+
+  /**
+   * Move a loaded discussion to another category without a full refresh
+   * Requirement 27.3, 27.4: The item moves between category states and its answered icon follows the new category
+   */
+  moveDiscussion(discussionId: string, category: DiscussionCategory, isAnswered: boolean): void {
+    let moved: DiscussionSummary | undefined;
+
+    const searchChanged = this.updateSearchResult(discussionId, { category, isAnswered });
+    const pinnedChanged = this.updatePinnedDiscussion(discussionId, { category, isAnswered });
+    const listChanged = this.updateListedDiscussion(discussionId, { category, isAnswered });
+
+    for (const [categoryId, state] of this.categoryStates) {
+      if (categoryId === category.id) {
+        continue;
+      }
+      const summary = state.discussions.find(d => d.id === discussionId);
+      if (summary) {
+        moved = { ...summary, category, isAnswered };
+        state.discussions = state.discussions.filter(d => d.id !== discussionId);
+      }
+    }
+
+    if (!moved) {
+      if (searchChanged || pinnedChanged || listChanged) {
+        this._onDidChangeTreeData.fire();
+      }
+      return;
+    }
+
+    // Only add to the target when it is already loaded; otherwise it is fetched on expand
+    const targetState = this.categoryStates.get(category.id);
+    if (targetState?.loadState === 'loaded' && !targetState.discussions.some(d => d.id === discussionId)) {
+      targetState.discussions = [moved, ...targetState.discussions];
+    }
+
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Apply changes to a loaded discussion summary in every category, smart view and grouped state
+   */
+  private updateDiscussionSummary(discussionId: string, changes: Partial<DiscussionSummary>): void {
+    let changed = false;
+
+    for (const state of [...this.categoryStates.values(), ...this.smartViewStates.values(), ...this.groupedStates.values()]) {
+      const index = state.discussions.findIndex(d => d.id === discussionId);
+      if (index === -1) {
+        continue;
+      }
+      const current = state.discussions[index];
+      const differs = (Object.keys(changes) as (keyof DiscussionSummary)[])
+        .some(key => changes[key] !== undefined && current[key] !== changes[key]);
+      if (differs) {
+        state.discussions = state.discussions.map((d, i) =>
+          i === index ? { ...d, ...changes } : d
+        );
+        changed = true;
+      }
+    }
+
+    if (this.updateSearchResult(discussionId, changes)) {
+      changed = true;
+    }
+
+    if (this.updatePinnedDiscussion(discussionId, changes)) {
+      changed = true;
+    }
+
+    if (changed) {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  /**
+   * Apply changes to a discussion shown in the search results (Requirement 36)
+   * Returns whether the discussion was found
+   */
+  private updateSearchResult(discussionId: string, changes: Partial<DiscussionSummary>): boolean {
+    const result = this.searchResults?.results.find(r => r.discussion.id === discussionId);
+    if (!result) {
+      return false;
+    }
+    result.discussion = { ...result.discussion, ...changes };
+    return true;
+  }
+
+  /**
+   * Apply changes to a discussion loaded in smart views or the repository-wide list (Requirement 43, 44)
+   * Returns whether the discussion was found
+   */
+  private updateListedDiscussion(discussionId: string, changes: Partial<DiscussionSummary>): boolean {
+    let found = false;
+    for (const state of [...this.smartViewStates.values(), ...this.groupedStates.values()]) {
+      if (state.discussions.some(d => d.id === discussionId)) {
+        state.discussions = state.discussions.map(d => d.id === discussionId ? { ...d, ...changes } : d);
+        found = true;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Apply changes to a discussion shown in the Pinned section (Requirement 42)
+   * Returns whether the discussion was found
+   */
+  private updatePinnedDiscussion(discussionId: string, changes: Partial<DiscussionSummary>): boolean {
+    if (!this.pinnedDiscussions.some(p => p.discussion.id === discussionId)) {
+      return false;
+    }
+    this.pinnedDiscussions = this.pinnedDiscussions.map(p =>
+      p.discussion.id === discussionId ? { ...p, discussion: { ...p.discussion, ...changes } } : p
+    );
+    return true;
+  }
+
+  /**
+   * Remove a loaded discussion from every category state without a full refresh
+   * Requirement 25.4: Deleted discussions disappear from the tree
+   */
+  removeDiscussion(discussionId: string): void {
+    let changed = this.removeFromCategoryStates(discussionId);
+
+    if (this.pinnedDiscussions.some(p => p.discussion.id === discussionId)) {
+      this.pinnedDiscussions = this.pinnedDiscussions.filter(p => p.discussion.id !== discussionId);
+      changed = true;
+    }
+
+    const search = this.searchResults;
+    if (search?.results.some(r => r.discussion.id === discussionId)) {
+      search.results = search.results.filter(r => r.discussion.id !== discussionId);
+      search.totalCount--;
+      changed = true;
+    }
+
+    if (changed) {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  /**
+   * Remove a discussion from every category, smart view and grouped state
+   * Returns whether it was found
+   */
+  private removeFromCategoryStates(discussionId: string): boolean {
+    let removed = false;
+
+    for (const state of [...this.categoryStates.values(), ...this.smartViewStates.values(), ...this.groupedStates.values()]) {
+      if (state.discussions.some(d => d.id === discussionId)) {
+        state.discussions = state.discussions.filter(d => d.id !== discussionId);
+        removed = true;
+      }
+    }
+
+    return removed;
+  }
+
   /**
    * Get pagination state for a category (for testing)
    */
@@ -516,5 +1829,6 @@ export class DiscussionsProvider implements vscode.TreeDataProvider<DiscussionTr
    */
   dispose(): void {
     this._onDidChangeTreeData.dispose();
+    this._onDidChangeFilters.dispose();
   }
 }
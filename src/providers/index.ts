@@ -3,5 +3,9 @@
  */
 
 export { DiscussionFileSystemProvider } from './discussionFileSystemProvider';
+export { DiscussionFileSystemRouter } from './discussionFileSystemRouter';
 export { DiscussionsProvider, DiscussionTreeItem } from './discussionsProvider';
+export { RepositoriesProvider } from './repositoriesProvider';
 export { DiscussionWebviewProvider } from './webviewProvider';
+export { DiscussionFormProvider } from './discussionFormProvider';
+export { DiscussionTemplateDiagnostics } from './discussionTemplateDiagnostics';
@@ -0,0 +1,92 @@
+/**
+ * Repositories Tree View Provider
+ * Requirements: 45.3 - Repository nodes, 46.2 - Organization nodes
+ */
+
+import * as vscode from 'vscode';
+import { DiscussionsProvider, DiscussionTreeItem } from './discussionsProvider';
+
+/**
+ * Repository shown as a top-level node, with the provider of its discussions
+ */
+export interface RepositoryNode {
+  /** "owner/name" */
+  label: string;
+  provider: DiscussionsProvider;
+  tooltip?: string;
+  /** Shown with the organization icon, for the discussions of an attached organization */
+  organization?: boolean;
+}
+
+/**
+ * Tree data provider showing one node per repository
+ * A single repository is shown without a node, as before
+ */
+export class RepositoriesProvider implements vscode.TreeDataProvider<DiscussionTreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData: vscode.EventEmitter<DiscussionTreeItem | undefined | null | void> =
+    new vscode.EventEmitter<DiscussionTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<DiscussionTreeItem | undefined | null | void> =
+    this._onDidChangeTreeData.event;
+
+  private repositories: RepositoryNode[] = [];
+  private subscriptions: vscode.Disposable[] = [];
+
+  /** Provider each item was returned by, so commands act on the right repository */
+  private owners: WeakMap<DiscussionTreeItem, DiscussionsProvider> = new WeakMap();
+
+  /**
+   * Replace the repositories shown in the tree
+   */
+  setRepositories(repositories: RepositoryNode[]): void {
+    this.subscriptions.forEach(s => s.dispose());
+    this.repositories = repositories;
+    this.subscriptions = repositories.map(({ provider }) =>
+      provider.onDidChangeTreeData(element => this._onDidChangeTreeData.fire(element))
+    );
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Provider of the repository a tree item belongs to
+   */
+  getProvider(element: DiscussionTreeItem): DiscussionsProvider | undefined {
+    return this.owners.get(element);
+  }
+
+  getTreeItem(element: DiscussionTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: DiscussionTreeItem): Promise<DiscussionTreeItem[]> {
+    if (!element) {
+      if (this.repositories.length === 1) {
+        const [{ provider }] = this.repositories;
+        return this.track(provider, await provider.getChildren());
+      }
+
+      return this.repositories.map(({ label, provider, tooltip, organization }) => {
+        const item = new DiscussionTreeItem(label, vscode.TreeItemCollapsibleState.Expanded, organization ? 'organization' : 'repository');
+        item.tooltip = tooltip;
+        this.owners.set(item, provider);
+        return item;
+      });
+    }
+
+    const provider = this.owners.get(element);
+    if (!provider) {
+      return [];
+    }
+    return this.track(provider, await provider.getChildren(element.itemType === 'repository' || element.itemType === 'organization' ? undefined : element));
+  }
+
+  dispose(): void {
+    this.subscriptions.forEach(s => s.dispose());
+    this.subscriptions = [];
+    this._onDidChangeTreeData.dispose();
+  }
+
+  private track(provider: DiscussionsProvider, items: DiscussionTreeItem[]): DiscussionTreeItem[] {
+    items.forEach(item => this.owners.set(item, provider));
+    return items;
+  }
+}
@@ -7,10 +7,32 @@
 import * as vscode from 'vscode';
 import * as crypto from 'crypto';
 import { IGitHubService, IAuthenticationService, INotificationBadgeService } from '../services/interfaces';
-import { Discussion, User, DiscussionComment } from '../models';
+import { Discussion, User, DiscussionComment, Reaction, ReactionContent, Label, DiscussionPoll } from '../models';
 import { DiscussionFileSystemProvider } from './discussionFileSystemProvider';
+import { ParsedRemote } from '../infrastructure/gitRemoteParser';
 import { formatRelativeTime } from '../utils/dateTimeUtils';
+import { extractErrorMessage } from '../utils/errorUtils';
 import { sanitizeHtml } from '../utils';
+import { REACTION_CONTENTS } from '../constants';
+
+/**
+ * Answer state used when rendering comments (Requirement 23)
+ */
+interface AnswerContext {
+  /** ID of the comment currently accepted as the answer */
+  answerId?: string;
+  /** Whether the viewer may mark/unmark answers (discussion author in an answerable category) */
+  canMarkAnswer: boolean;
+}
+
+/**
+ * Answer state change event payload (Requirement 23.5)
+ */
+export interface AnswerChangeEvent {
+  discussionId: string;
+  discussionNumber: number;
+  isAnswered: boolean;
+}
 
 /**
  * Provider for showing discussion details in a webview
@@ -19,11 +41,17 @@ export class DiscussionWebviewProvider {
   private panels: Map<string, vscode.WebviewPanel> = new Map();
   private disposables: vscode.Disposable[] = [];
 
+  private readonly _onDidChangeAnswer = new vscode.EventEmitter<AnswerChangeEvent>();
+  /** Fired after a comment is marked or unmarked as the answer (Requirement 23.5) */
+  readonly onDidChangeAnswer: vscode.Event<AnswerChangeEvent> = this._onDidChangeAnswer.event;
+
   constructor(
     private githubService: IGitHubService,
     private authService: IAuthenticationService,
     private context: vscode.ExtensionContext,
-    private notificationBadgeService?: INotificationBadgeService
+    private notificationBadgeService?: INotificationBadgeService,
+    /** Repository whose files are opened (Requirement 45.4) */
+    private repository?: ParsedRemote
   ) {}
 
   /**
@@ -186,6 +214,134 @@ export class DiscussionWebviewProvider {
         // Requirement 19: Search organization members lazily for performance
         await this.handleSearchOrgMembers(discussionNumber, message.query);
         break;
+      case 'addReaction':
+      case 'removeReaction':
+        // Requirement 22.3, 22.4: Toggle reaction (UI already updated optimistically)
+        if (message.subjectId && REACTION_CONTENTS.includes(message.content)) {
+          await this.handleReactionMessage(discussionNumber, message.subjectId, message.content, message.type === 'addReaction');
+        }
+        break;
+      case 'votePoll':
+        // Requirement 41.3: Vote for a poll option
+        if (message.optionId) {
+          await this.handlePollVoteMessage(discussionNumber, message.optionId);
+        }
+        break;
+      case 'markAsAnswer':
+      case 'unmarkAsAnswer':
+        // Requirement 23.2, 23.3: Mark/unmark a comment as the answer
+        if (message.commentId) {
+          await this.handleAnswerMessage(discussionId, discussionNumber, message.commentId, message.type === 'markAsAnswer');
+        }
+        break;
+      case 'replyInEditor':
+        // Requirement 31.1: Compose a reply in a full markdown editor
+        if (message.commentId) {
+          await this.openInEditor(
+            DiscussionFileSystemProvider.newCommentUri(discussionNumber, message.commentId, this.repository),
+            'reply'
+          );
+        }
+        break;
+      case 'openCommentInEditor':
+        // Requirement 30.5: Edit own comment as a markdown file
+        if (message.commentId) {
+          await this.openInEditor(DiscussionFileSystemProvider.uri(
+            `/discussions/${discussionNumber}/comments/${encodeURIComponent(message.commentId)}.md`,
+            this.repository
+          ), 'comment');
+        }
+        break;
+    }
+  }
+
+  /**
+   * Open a comment file or reply draft in a markdown editor
+   * @param what Named in the error message when the file cannot be opened
+   */
+  private async openInEditor(uri: vscode.Uri, what: string): Promise<void> {
+    try {
+      const doc = await vscode.workspace.openTextDocument(uri);
+      await vscode.window.showTextDocument(doc, { preview: false });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to open ${what} in editor: ${extractErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Handle markAsAnswer/unmarkAsAnswer messages
+   * Requirement 23.4, 23.5: Refresh the panel and notify listeners (tree view)
+   */
+  private async handleAnswerMessage(
+    discussionId: string,
+    discussionNumber: number,
+    commentId: string,
+    mark: boolean
+  ): Promise<void> {
+    try {
+      if (mark) {
+        await this.githubService.markCommentAsAnswer(commentId);
+      } else {
+        await this.githubService.unmarkCommentAsAnswer(commentId);
+      }
+    } catch (error) {
+      console.warn('Failed to update answer:', error);
+      vscode.window.showErrorMessage(`Failed to ${mark ? 'mark' : 'unmark'} answer: ${extractErrorMessage(error)}`);
+      return;
+    }
+
+    this._onDidChangeAnswer.fire({ discussionId, discussionNumber, isAnswered: mark });
+    await this.refreshCommentsPanel(discussionNumber);
+  }
+
+  /**
+   * Handle votePoll messages
+   * Requirement 41.3: Show the results after voting, re-enable voting when it fails
+   */
+  private async handlePollVoteMessage(discussionNumber: number, optionId: string): Promise<void> {
+    try {
+      await this.githubService.addDiscussionPollVote(optionId);
+    } catch (error) {
+      console.warn('Failed to vote:', error);
+      const panel = this.panels.get(`comments-${discussionNumber}`);
+      if (panel && panel.visible !== undefined) {
+        panel.webview.postMessage({ type: 'pollVoteFailed' });
+      }
+      vscode.window.showErrorMessage(`Failed to vote: ${extractErrorMessage(error)}`);
+      return;
+    }
+
+    await this.refreshCommentsPanel(discussionNumber);
+  }
+
+  /**
+   * Handle addReaction/removeReaction messages
+   * Requirement 22.5: Roll back the optimistic update when the API call fails
+   */
+  private async handleReactionMessage(
+    discussionNumber: number,
+    subjectId: string,
+    content: ReactionContent,
+    add: boolean
+  ): Promise<void> {
+    try {
+      if (add) {
+        await this.githubService.addReaction(subjectId, content);
+      } else {
+        await this.githubService.removeReaction(subjectId, content);
+      }
+    } catch (error) {
+      console.warn('Failed to update reaction:', error);
+      const panel = this.panels.get(`comments-${discussionNumber}`);
+      if (panel && panel.visible !== undefined) {
+        panel.webview.postMessage({
+          type: 'reactionFailed',
+          subjectId,
+          content,
+          add
+        });
+      }
+      vscode.window.showErrorMessage(`Failed to update reaction: ${extractErrorMessage(error)}`);
     }
   }
 
@@ -265,8 +421,9 @@ export class DiscussionWebviewProvider {
       const commentsPage = await this.githubService.getDiscussionComments(discussionNumber, cursor);
 
       // Generate HTML for new comments
+      const answerContext = this.getAnswerContext(discussion, currentUserLogin);
       const commentsHtml = commentsPage.comments.map(comment =>
-        this.generateCommentHtml(comment, authorLogin, false, currentUserLogin)
+        this.generateCommentHtml(comment, authorLogin, false, currentUserLogin, answerContext)
       ).join('');
 
       // Send comments to webview (check panel is still valid)
@@ -285,8 +442,9 @@ export class DiscussionWebviewProvider {
 
   /**
    * Refresh comments panel with latest data from GitHub
+   * Also called when comments were edited through the file system (Requirement 30.4)
    */
-  private async refreshCommentsPanel(discussionNumber: number): Promise<void> {
+  async refreshCommentsPanel(discussionNumber: number): Promise<void> {
     const panel = this.panels.get(`comments-${discussionNumber}`);
     // Check if panel exists and is still valid
     if (panel && panel.visible !== undefined) {
@@ -337,7 +495,7 @@ export class DiscussionWebviewProvider {
 
       case 'edit':
         // Open in virtual file system
-        const uri = vscode.Uri.parse(`${DiscussionFileSystemProvider.scheme}:///discussions/${message.discussionNumber}/discussion.md`);
+        const uri = DiscussionFileSystemProvider.uri(`/discussions/${message.discussionNumber}/discussion.md`, this.repository);
         const doc = await vscode.workspace.openTextDocument(uri);
         await vscode.window.showTextDocument(doc);
         break;
@@ -687,13 +845,41 @@ export class DiscussionWebviewProvider {
     return Buffer.from(str, 'utf-8').toString('base64');
   }
 
+  /**
+   * Build answer state for rendering comments
+   * Requirement 23.1: Only the discussion author can mark answers, and only in answerable categories
+   */
+  private getAnswerContext(discussion: Discussion, currentUserLogin?: string): AnswerContext {
+    return {
+      answerId: discussion.answer?.id,
+      canMarkAnswer: discussion.category.isAnswerable &&
+        currentUserLogin !== undefined &&
+        currentUserLogin === discussion.author.login
+    };
+  }
+
   /**
    * Generate a single comment HTML with modern UI
    * Requirement 13.1: Show edit/delete buttons for own comments
+   * Requirement 23.1: Show answer badge and mark/unmark button
    */
-  private generateCommentHtml(comment: DiscussionComment, discussionAuthorLogin: string, isReply: boolean = false, currentUserLogin?: string): string {
+  private generateCommentHtml(
+    comment: DiscussionComment,
+    discussionAuthorLogin: string,
+    isReply: boolean = false,
+    currentUserLogin?: string,
+    answerContext?: AnswerContext
+  ): string {
     const isOP = this.isOriginalPoster(comment.author.login, discussionAuthorLogin);
     const opBadge = isOP ? '<span class="op-badge">OP</span>' : '';
+    const isAnswer = answerContext?.answerId === comment.id;
+    const answerBadge = isAnswer ? '<span class="answer-badge">✓ 回答</span>' : '';
+    // Answers can only be chosen from top-level comments
+    const answerButton = !isReply && answerContext?.canMarkAnswer
+      ? (isAnswer
+        ? `<button class="answer-btn" data-action="unmark-answer" data-target-comment-id="${this.escapeHtml(comment.id)}">✓ 回答の選択を解除</button>`
+        : `<button class="answer-btn" data-action="mark-answer" data-target-comment-id="${this.escapeHtml(comment.id)}">✓ 回答としてマーク</button>`)
+      : '';
     const relativeTime = formatRelativeTime(comment.createdAt);
     // Sanitize HTML for defense-in-depth before truncation and display
     const sanitizedBodyHTML = sanitizeHtml(comment.bodyHTML);
@@ -711,18 +897,22 @@ export class DiscussionWebviewProvider {
       <button class="edit-comment-btn" data-action="start-edit" data-target-comment-id="${this.escapeHtml(comment.id)}">
         <span class="edit-icon">✏️</span> 編集
       </button>
+      <button class="edit-comment-btn" data-action="open-comment-in-editor" data-target-comment-id="${this.escapeHtml(comment.id)}">
+        <span class="edit-icon">📝</span> エディタで編集
+      </button>
       <button class="delete-comment-btn" data-action="delete-comment" data-target-comment-id="${this.escapeHtml(comment.id)}">
         <span class="delete-icon">🗑️</span> 削除
       </button>
     ` : '';
 
     return `
-      <div class="${commentClass}" data-comment-id="${this.escapeHtml(comment.id)}"${isTruncated ? ` data-full-content="${fullContentBase64}"` : ''}${isOwnComment ? ` data-original-body="${originalBodyBase64}"` : ''}>
+      <div class="${commentClass}${isAnswer ? ' is-answer' : ''}" data-comment-id="${this.escapeHtml(comment.id)}"${isTruncated ? ` data-full-content="${fullContentBase64}"` : ''}${isOwnComment ? ` data-original-body="${originalBodyBase64}"` : ''}>
         <div class="comment-header">
           <img class="avatar" src="${this.escapeHtml(comment.author.avatarUrl)}" alt="${this.escapeHtml(comment.author.login)}" />
           <div class="author-info">
             <span class="author">${this.escapeHtml(comment.author.login)}</span>
             ${opBadge}
+            ${answerBadge}
           </div>
           <span class="timestamp" title="${comment.createdAt.toLocaleString()}">${relativeTime}</span>
           ${!isReply && comment.replies && comment.replies.length > 0 ? `<span class="replies-badge">${comment.replies.length} 件の返信</span>` : ''}
@@ -737,6 +927,7 @@ export class DiscussionWebviewProvider {
             </button>
           </div>
         ` : ''}
+        ${this.generateReactionBarHtml(comment.id, comment.reactions)}
         <!-- Edit form (hidden by default, Requirement 13.2, 13.4) -->
         <div class="edit-form" id="edit-form-${this.escapeHtml(comment.id)}">
           <textarea id="edit-body-${this.escapeHtml(comment.id)}" placeholder="コメントを編集...（Markdown対応）"></textarea>
@@ -750,6 +941,10 @@ export class DiscussionWebviewProvider {
             <button class="reply-btn" data-action="show-reply-form" data-target-comment-id="${this.escapeHtml(comment.id)}">
               <span class="reply-icon">↩</span> 返信
             </button>
+            <button class="reply-btn" data-action="reply-in-editor" data-target-comment-id="${this.escapeHtml(comment.id)}">
+              <span class="reply-icon">📝</span> エディタで返信
+            </button>
+            ${answerButton}
             ${editDeleteButtons}
           </div>
           <div class="reply-form" id="reply-form-${this.escapeHtml(comment.id)}">
@@ -771,7 +966,7 @@ export class DiscussionWebviewProvider {
           <div class="thread-container">
             <div class="thread-line"></div>
             <div class="replies-list">
-              ${comment.replies.map(reply => this.generateCommentHtml(reply, discussionAuthorLogin, true, currentUserLogin)).join('')}
+              ${comment.replies.map(reply => this.generateCommentHtml(reply, discussionAuthorLogin, true, currentUserLogin, answerContext)).join('')}
             </div>
           </div>
         ` : ''}
@@ -779,6 +974,96 @@ export class DiscussionWebviewProvider {
     `;
   }
 
+  /**
+   * Generate clickable reaction bar with picker for a discussion, comment, or reply
+   * Requirement 22.1, 22.2: All reactions are rendered; unused ones stay hidden until picked
+   */
+  private generateReactionBarHtml(subjectId: string, reactions: Reaction[]): string {
+    const escapedSubjectId = this.escapeHtml(subjectId);
+
+    const reactionButtons = REACTION_CONTENTS.map(content => {
+      const reaction = reactions.find(r => r.content === content);
+      const count = reaction?.count ?? 0;
+      const classes = ['reaction-btn'];
+      if (reaction?.viewerHasReacted) {
+        classes.push('reacted');
+      }
+      if (count === 0) {
+        classes.push('empty');
+      }
+      return `<button class="${classes.join(' ')}" data-action="toggle-reaction" data-subject-id="${escapedSubjectId}" data-reaction-content="${content}" data-count="${count}"><span class="reaction-emoji">${this.getReactionEmoji(content)}</span><span class="reaction-count">${count}</span></button>`;
+    }).join('');
+
+    const pickerButtons = REACTION_CONTENTS.map(content =>
+      `<button class="reaction-picker-item" data-action="pick-reaction" data-subject-id="${escapedSubjectId}" data-reaction-content="${content}">${this.getReactionEmoji(content)}</button>`
+    ).join('');
+
+    return `
+        <div class="reaction-bar" data-reaction-subject-id="${escapedSubjectId}">
+          ${reactionButtons}
+          <div class="reaction-picker-container">
+            <button class="reaction-picker-btn" data-action="toggle-reaction-picker" data-subject-id="${escapedSubjectId}" title="リアクションを追加">☺+</button>
+            <div class="reaction-picker" id="reaction-picker-${escapedSubjectId}">${pickerButtons}</div>
+          </div>
+        </div>
+    `;
+  }
+
+  /**
+   * Generate colored label chips for the discussion header
+   * Requirement 34.2: Chips use the label color with readable text
+   */
+  private generateLabelChipsHtml(labels: Label[]): string {
+    return labels.map(label => {
+      // Colors come from the API as 6-digit hex; anything else falls back to the badge theme colors
+      const color = /^[0-9a-fA-F]{6}$/.test(label.color) ? label.color : undefined;
+      const style = color
+        ? ` style="background-color: #${color}; color: ${this.getLabelTextColor(color)};"`
+        : '';
+      return `<span class="label-chip" data-label-id="${this.escapeHtml(label.id)}"${style}>${this.escapeHtml(label.name)}</span>`;
+    }).join('');
+  }
+
+  /**
+   * Black or white text, whichever is readable on the given label color
+   */
+  private getLabelTextColor(hex: string): string {
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+    // Perceived brightness (ITU-R BT.601)
+    return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#000000' : '#ffffff';
+  }
+
+  /**
+   * Generate the poll with a bar per option
+   * Requirement 41.2, 41.3: Results as percentages, vote buttons while the viewer can still vote
+   */
+  private generatePollHtml(poll: DiscussionPoll): string {
+    const canVote = poll.viewerCanVote && !poll.viewerHasVoted;
+    const optionsHtml = poll.options.map(option => {
+      const percent = poll.totalVoteCount > 0 ? Math.round(option.totalVoteCount / poll.totalVoteCount * 100) : 0;
+      const voteButton = canVote
+        ? `<button class="poll-vote-btn" data-action="vote-poll" data-poll-option-id="${this.escapeHtml(option.id)}">投票</button>`
+        : '';
+      return `
+        <div class="poll-option">
+          <div class="poll-option-header">
+            <span class="poll-option-text">${this.escapeHtml(option.option)}</span>
+            <span class="poll-option-result">${percent}% (${option.totalVoteCount}票)</span>
+            ${voteButton}
+          </div>
+          <div class="poll-bar"><div class="poll-bar-fill" style="width: ${percent}%;"></div></div>
+        </div>`;
+    }).join('');
+    const status = poll.viewerHasVoted ? ' ・ 投票済み' : '';
+
+    return `
+      <div class="poll-section">
+        <h2 class="poll-question">📊 ${this.escapeHtml(poll.question)}</h2>
+        ${optionsHtml}
+        <div class="poll-total">${poll.totalVoteCount}票${status}</div>
+      </div>`;
+  }
+
   /**
    * Generate comments-only webview HTML content (Requirements 5.3, 5.4, 5.8, 5.9, 5.10-5.13, 10.1-10.9, 12.1-12.6, 13.1-13.9)
    */
@@ -787,8 +1072,9 @@ export class DiscussionWebviewProvider {
     const escapedAuthor = this.escapeHtml(discussion.author.login);
     const relativeTime = formatRelativeTime(discussion.createdAt);
 
+    const answerContext = this.getAnswerContext(discussion, currentUserLogin);
     const commentsHtml = discussion.comments.map(comment =>
-      this.generateCommentHtml(comment, discussion.author.login, false, currentUserLogin)
+      this.generateCommentHtml(comment, discussion.author.login, false, currentUserLogin, answerContext)
     ).join('');
 
     // Generate Load More button if there are more comments
@@ -898,6 +1184,15 @@ export class DiscussionWebviewProvider {
       font-weight: 500;
     }
 
+    /* Label chips (Requirement 34.2) */
+    .label-chip {
+      padding: 2px 10px;
+      border-radius: 12px;
+      font-size: 12px;
+      font-weight: 500;
+      border: 1px solid rgba(127, 127, 127, 0.3);
+    }
+
     /* Main Content */
     .main-content {
       max-width: 900px;
@@ -1673,6 +1968,194 @@ export class DiscussionWebviewProvider {
       font-size: 13px;
     }
 
+    /* Answer styles (Requirement 23) */
+    .comment-card.is-answer {
+      border-left-color: var(--vscode-testing-iconPassed, #73c991);
+    }
+
+    .comment-card.is-answer:hover {
+      border-left-color: var(--vscode-testing-iconPassed, #73c991);
+    }
+
+    .answer-badge {
+      background: var(--vscode-testing-iconPassed, #73c991);
+      color: var(--vscode-editor-background);
+      padding: 3px 10px;
+      border-radius: 10px;
+      font-size: 11px;
+      font-weight: 700;
+    }
+
+    .answer-btn {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      padding: 6px 12px;
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      border-radius: 20px;
+      cursor: pointer;
+      font-size: 12px;
+      font-weight: 500;
+      transition: all var(--transition-speed) ease;
+    }
+
+    .answer-btn:hover {
+      background: var(--vscode-button-secondaryHoverBackground);
+      transform: scale(1.02);
+    }
+
+    /* Reaction bar styles (Requirement 22) */
+    .reaction-bar {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 6px;
+      margin-top: 10px;
+    }
+
+    .comment-card > .reaction-bar,
+    .reply-card > .reaction-bar {
+      padding-left: 46px;
+    }
+
+    .reaction-btn,
+    .reaction-picker-btn {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      padding: 2px 10px;
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: 1px solid transparent;
+      border-radius: 14px;
+      cursor: pointer;
+      font-size: 13px;
+      transition: all var(--transition-speed) ease;
+    }
+
+    .reaction-btn.empty {
+      display: none;
+    }
+
+    .reaction-btn.reacted {
+      border-color: var(--accent-border);
+      background: rgba(55, 148, 255, 0.15);
+    }
+
+    .reaction-btn:hover,
+    .reaction-picker-btn:hover {
+      background: var(--vscode-button-secondaryHoverBackground);
+    }
+
+    .reaction-picker-container {
+      position: relative;
+    }
+
+    .reaction-picker {
+      display: none;
+      position: absolute;
+      bottom: 100%;
+      left: 0;
+      margin-bottom: 4px;
+      padding: 4px;
+      background: var(--vscode-dropdown-background);
+      border: 1px solid var(--vscode-dropdown-border);
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+      z-index: 1000;
+      white-space: nowrap;
+    }
+
+    .reaction-picker.visible {
+      display: flex;
+      gap: 2px;
+    }
+
+    .reaction-picker-item {
+      background: none;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+      font-size: 16px;
+      padding: 4px 6px;
+    }
+
+    .reaction-picker-item:hover {
+      background: var(--vscode-list-hoverBackground);
+    }
+
+    /* Poll styles (Requirement 41.2) */
+    .poll-section {
+      margin-bottom: 24px;
+      padding: 16px;
+      border: 1px solid var(--vscode-panel-border);
+      border-radius: 8px;
+    }
+
+    .poll-question {
+      font-size: 15px;
+      font-weight: 600;
+      margin: 0 0 12px;
+    }
+
+    .poll-option {
+      margin-bottom: 10px;
+    }
+
+    .poll-option-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 4px;
+    }
+
+    .poll-option-text {
+      flex: 1;
+    }
+
+    .poll-option-result {
+      color: var(--vscode-descriptionForeground);
+      font-size: 12px;
+    }
+
+    .poll-bar {
+      height: 8px;
+      background: var(--vscode-input-background);
+      border-radius: 4px;
+      overflow: hidden;
+    }
+
+    .poll-bar-fill {
+      height: 100%;
+      background: var(--vscode-progressBar-background);
+    }
+
+    .poll-vote-btn {
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+      border: none;
+      border-radius: 4px;
+      padding: 2px 10px;
+      cursor: pointer;
+      font-size: 12px;
+    }
+
+    .poll-vote-btn:hover {
+      background: var(--vscode-button-hoverBackground);
+    }
+
+    .poll-vote-btn:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+
+    .poll-total {
+      color: var(--vscode-descriptionForeground);
+      font-size: 12px;
+    }
+
     /* Mermaid diagram styles (Requirements 12.1, 12.5) */
     .mermaid-diagram {
       background: var(--vscode-editor-background);
@@ -1722,11 +2205,14 @@ export class DiscussionWebviewProvider {
         <span>・</span>
         <span>${relativeTime}</span>
         <span class="category-badge">${this.escapeHtml(discussion.category.emoji)} ${this.escapeHtml(discussion.category.name)}</span>
+        ${this.generateLabelChipsHtml(discussion.labels ?? [])}
       </div>
+      ${this.generateReactionBarHtml(discussion.id, discussion.reactions)}
     </div>
   </div>
 
   <div class="main-content">
+    ${discussion.poll ? this.generatePollHtml(discussion.poll) : ''}
     <div class="comments-section">
       <h2 class="comments-header">
         コメント
@@ -1777,9 +2263,29 @@ export class DiscussionWebviewProvider {
         case 'appendComments':
           appendComments(message.commentsHtml, message.hasNextPage, message.endCursor);
           break;
+        case 'reactionFailed':
+          // Roll back the optimistic update (Requirement 22.5)
+          rollbackReaction(message.subjectId, message.content, message.add);
+          break;
+        case 'pollVoteFailed':
+          setPollVoteButtonsDisabled(false);
+          break;
       }
     });
 
+    // Vote once; the panel is refreshed with the results (Requirement 41.3)
+    function votePoll(optionId) {
+      if (!optionId) return;
+      setPollVoteButtonsDisabled(true);
+      vscode.postMessage({ type: 'votePoll', optionId });
+    }
+
+    function setPollVoteButtonsDisabled(disabled) {
+      document.querySelectorAll('.poll-vote-btn').forEach(button => {
+        button.disabled = disabled;
+      });
+    }
+
     function loadMoreComments() {
       const button = document.getElementById('load-more-button');
       if (button && currentCursor) {
@@ -2198,6 +2704,56 @@ export class DiscussionWebviewProvider {
       }
     }
 
+    // Reaction functionality (Requirement 22)
+    function findReactionButton(subjectId, content) {
+      return document.querySelector('.reaction-btn[data-subject-id="' + subjectId + '"][data-reaction-content="' + content + '"]');
+    }
+
+    function applyReaction(button, add) {
+      const count = parseInt(button.getAttribute('data-count')) || 0;
+      const newCount = Math.max(0, count + (add ? 1 : -1));
+      button.setAttribute('data-count', String(newCount));
+      button.querySelector('.reaction-count').textContent = String(newCount);
+      button.classList.toggle('reacted', add);
+      button.classList.toggle('empty', newCount === 0);
+    }
+
+    function toggleReaction(subjectId, content) {
+      const button = findReactionButton(subjectId, content);
+      if (!button) return;
+      const add = !button.classList.contains('reacted');
+      // Optimistic update: reflect the change before the API call completes
+      applyReaction(button, add);
+      vscode.postMessage({
+        type: add ? 'addReaction' : 'removeReaction',
+        subjectId: subjectId,
+        content: content
+      });
+    }
+
+    function rollbackReaction(subjectId, content, add) {
+      const button = findReactionButton(subjectId, content);
+      if (button) {
+        applyReaction(button, !add);
+      }
+    }
+
+    function hideReactionPickers() {
+      document.querySelectorAll('.reaction-picker.visible').forEach(picker => {
+        picker.classList.remove('visible');
+      });
+    }
+
+    function toggleReactionPicker(subjectId) {
+      const picker = document.getElementById('reaction-picker-' + subjectId);
+      if (!picker) return;
+      const isVisible = picker.classList.contains('visible');
+      hideReactionPickers();
+      if (!isVisible) {
+        picker.classList.add('visible');
+      }
+    }
+
     // Event delegation for all button actions (CSP-compliant)
     document.addEventListener('click', function(event) {
       const target = event.target.closest('[data-action]');
@@ -2205,6 +2761,8 @@ export class DiscussionWebviewProvider {
 
       const action = target.getAttribute('data-action');
       const commentId = target.getAttribute('data-target-comment-id');
+      const subjectId = target.getAttribute('data-subject-id');
+      const reactionContent = target.getAttribute('data-reaction-content');
 
       switch (action) {
         case 'toggle-content':
@@ -2222,6 +2780,9 @@ export class DiscussionWebviewProvider {
         case 'load-more-comments':
           loadMoreComments();
           break;
+        case 'vote-poll':
+          votePoll(target.getAttribute('data-poll-option-id'));
+          break;
         case 'submit-comment':
           submitComment();
           break;
@@ -2235,6 +2796,12 @@ export class DiscussionWebviewProvider {
         case 'save-edit':
           if (commentId) saveEdit(commentId);
           break;
+        case 'reply-in-editor':
+          if (commentId) vscode.postMessage({ type: 'replyInEditor', commentId: commentId });
+          break;
+        case 'open-comment-in-editor':
+          if (commentId) vscode.postMessage({ type: 'openCommentInEditor', commentId: commentId });
+          break;
         case 'delete-comment':
           if (commentId) showDeleteDialog(commentId);
           break;
@@ -2244,6 +2811,31 @@ export class DiscussionWebviewProvider {
         case 'cancel-delete':
           hideDeleteDialog();
           break;
+        // Answer actions (Requirement 23)
+        case 'mark-answer':
+          if (commentId) vscode.postMessage({ type: 'markAsAnswer', commentId: commentId });
+          break;
+        case 'unmark-answer':
+          if (commentId) vscode.postMessage({ type: 'unmarkAsAnswer', commentId: commentId });
+          break;
+        // Reaction actions (Requirement 22)
+        case 'toggle-reaction':
+          if (subjectId && reactionContent) toggleReaction(subjectId, reactionContent);
+          break;
+        case 'toggle-reaction-picker':
+          if (subjectId) toggleReactionPicker(subjectId);
+          break;
+        case 'pick-reaction':
+          hideReactionPickers();
+          if (subjectId && reactionContent) toggleReaction(subjectId, reactionContent);
+          break;
+      }
+    });
+
+    // Close reaction pickers when clicking elsewhere
+    document.addEventListener('click', function(event) {
+      if (!event.target.closest('.reaction-picker-container')) {
+        hideReactionPickers();
       }
     });
 
@@ -2739,5 +3331,6 @@ export class DiscussionWebviewProvider {
     this.panels.clear();
     this.disposables.forEach(d => d.dispose());
     this.disposables = [];
+    this._onDidChangeAnswer.dispose();
   }
 }
@@ -10,6 +10,7 @@ import {
 } from './interfaces';
 import {
   CACHE_DEFAULT_TTL_MS,
+  GRAPHQL_PAGINATION_SIZE,
   MENTIONABLE_USERS_CACHE_TTL_MS,
   CACHE_KEY_MENTIONABLE_USERS,
   CACHE_KEY_DISCUSSION_PARTICIPANTS
@@ -18,7 +19,11 @@ import {
   Discussion,
   DiscussionSummary,
   DiscussionSummariesPage,
+  DiscussionSearchResults,
   DiscussionCategory,
+  Label,
+  DiscussionPoll,
+  PinnedDiscussion,
   DiscussionQueryOptions,
   CreateDiscussionInput,
   UpdateDiscussionInput,
@@ -29,7 +34,9 @@ import {
   CommentsPage,
   PageInfo,
   MentionableUser,
-  MentionSource
+  MentionSource,
+  ReactionContent,
+  DiscussionCloseReason
 } from '../models';
 import { IGitRemoteParser, GitRemoteParser } from '../infrastructure/gitRemoteParser';
 import { IGraphQLClient, GraphQLClient } from '../infrastructure/graphqlClient';
@@ -63,6 +70,27 @@ interface CategoriesGraphQLResponse {
   };
 }
 
+interface LabelsGraphQLResponse {
+  repository: {
+    labels: {
+      nodes: RawLabel[];
+    };
+  };
+}
+
+interface OrganizationRepositoriesGraphQLResponse {
+  organization: {
+    communityRepository: RepositoryGraphQLResponse['repository'] | null;
+    repositories: {
+      nodes: RepositoryGraphQLResponse['repository'][];
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
+    };
+  } | null;
+}
+
 interface CreateDiscussionGraphQLResponse {
   createDiscussion: {
     discussion: RawDiscussion;
@@ -98,6 +126,10 @@ interface CommentsGraphQLResponse {
   };
 }
 
+interface CommentGraphQLResponse {
+  node: (RawComment & { discussion: { number: number } }) | null;
+}
+
 interface RawUser {
   login: string;
   avatarUrl: string;
@@ -109,6 +141,21 @@ interface RawCategory {
   description: string;
   emoji: string;
   isAnswerable: boolean;
+  slug?: string;
+}
+
+interface RawLabel {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface RawPoll {
+  question: string;
+  totalVoteCount: number;
+  viewerHasVoted: boolean;
+  viewerCanVote: boolean;
+  options: { nodes: Array<{ id: string; option: string; totalVoteCount: number }> };
 }
 
 interface RawReactionGroup {
@@ -124,6 +171,7 @@ interface RawComment {
   author: RawUser;
   createdAt: string;
   updatedAt: string;
+  viewerDidAuthor?: boolean;
   reactionGroups: RawReactionGroup[];
   replies?: { nodes: RawComment[] };
 }
@@ -139,9 +187,14 @@ interface RawDiscussion {
   createdAt: string;
   updatedAt: string;
   isAnswered: boolean;
+  closed?: boolean;
+  locked?: boolean;
+  labels?: { nodes: RawLabel[] };
+  poll?: RawPoll | null;
   answer?: RawComment;
   reactionGroups: RawReactionGroup[];
   comments: {
+    totalCount?: number;
     nodes: RawComment[];
     pageInfo?: {
       hasNextPage: boolean;
@@ -163,6 +216,11 @@ interface RawDiscussionSummary {
   createdAt: string;
   updatedAt: string;
   isAnswered: boolean;
+  upvoteCount?: number;
+  closed?: boolean;
+  locked?: boolean;
+  labels?: { nodes: RawLabel[] };
+  poll?: { id: string } | null;
   comments: {
     totalCount: number;
     nodes?: Array<{
@@ -172,6 +230,25 @@ interface RawDiscussionSummary {
   };
 }
 
+interface SearchDiscussionsGraphQLResponse {
+  search: {
+    discussionCount: number;
+    pageInfo: {
+      hasNextPage: boolean;
+      endCursor: string | null;
+    };
+    edges: Array<{
+      textMatches?: Array<{
+        property: string;
+        fragment: string;
+        highlights: Array<{ beginIndice: number; endIndice: number }>;
+      }>;
+      // Empty object for results the viewer cannot access
+      node: RawDiscussionSummary | Record<string, never>;
+    }>;
+  };
+}
+
 interface DiscussionSummariesGraphQLResponse {
   repository: {
     discussions: {
@@ -274,12 +351,15 @@ export class GitHubService implements IGitHubService {
     const repoInfo = await this.getRepositoryInfo();
 
     // Lightweight query: no body, bodyHTML, comments content, or reactions
-    // Filter to OPEN discussions only (closed discussions are excluded by default)
+    // Filter to OPEN discussions unless other states are requested (Requirement 17, 24.6)
     // Include recent 10 comments with createdAt and viewerDidAuthor for unread detection (Requirement 20.11)
+    // Include labels for chips and the label filter (Requirement 34)
+    // Include the poll id so poll discussions get their own icon (Requirement 41.4)
+    // Order by orderBy when given, otherwise GitHub's default (Requirement 37.2)
     const query = `
-      query GetDiscussionSummaries($owner: String!, $name: String!, $first: Int, $after: String, $categoryId: ID) {
+      query GetDiscussionSummaries($owner: String!, $name: String!, $first: Int, $after: String, $categoryId: ID, $states: [DiscussionState!], $orderBy: DiscussionOrder) {
         repository(owner: $owner, name: $name) {
-          discussions(first: $first, after: $after, categoryId: $categoryId, states: [OPEN]) {
+          discussions(first: $first, after: $after, categoryId: $categoryId, states: $states, orderBy: $orderBy) {
             nodes {
               id
               number
@@ -299,6 +379,19 @@ export class GitHubService implements IGitHubService {
               createdAt
               updatedAt
               isAnswered
+              upvoteCount
+              closed
+              locked
+              labels(first: 20) {
+                nodes {
+                  id
+                  name
+                  color
+                }
+              }
+              poll {
+                id
+              }
               comments(last: 10) {
                 totalCount
                 nodes {
@@ -323,7 +416,9 @@ export class GitHubService implements IGitHubService {
         name: repoInfo.name,
         first: options?.first ?? 20,
         after: options?.after,
-        categoryId: options?.categoryId
+        categoryId: options?.categoryId,
+        states: options?.states ?? ['OPEN'],
+        orderBy: options?.orderBy
       },
       session.accessToken
     );
@@ -339,6 +434,199 @@ export class GitHubService implements IGitHubService {
     };
   }
 
+  /**
+   * Search discussions in the repository using GitHub search syntax
+   * Requirement 36.1, 36.2: search(type: DISCUSSION) scoped with repo:owner/name, supporting qualifiers
+   */
+  async searchDiscussions(query: string, options?: { first?: number; after?: string }): Promise<DiscussionSearchResults> {
+    const session = await this.authService.getSessionSilent();
+    if (!session) {
+      return { totalCount: 0, results: [], pageInfo: { hasNextPage: false, endCursor: null } };
+    }
+
+    const repoInfo = await this.getRepositoryInfo();
+
+    const searchQuery = `
+      query SearchDiscussions($query: String!, $first: Int!, $after: String) {
+        search(type: DISCUSSION, query: $query, first: $first, after: $after) {
+          discussionCount
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          edges {
+            textMatches {
+              property
+              fragment
+              highlights {
+                beginIndice
+                endIndice
+              }
+            }
+            node {
+              ... on Discussion {
+                id
+                number
+                title
+                url
+                author {
+                  login
+                  avatarUrl
+                }
+                category {
+                  id
+                  name
+                  description
+                  emoji
+                  isAnswerable
+                }
+                createdAt
+                updatedAt
+                isAnswered
+                upvoteCount
+                closed
+                locked
+                labels(first: 20) {
+                  nodes {
+                    id
+                    name
+                    color
+                  }
+                }
+                poll {
+                  id
+                }
+                comments {
+                  totalCount
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlClient.query<SearchDiscussionsGraphQLResponse>(
+      searchQuery,
+      {
+        query: `repo:${repoInfo.owner}/${repoInfo.name} ${query.trim()}`,
+        first: options?.first ?? GRAPHQL_PAGINATION_SIZE,
+        after: options?.after ?? null
+      },
+      session.accessToken
+    );
+
+    const results = response.search.edges
+      .filter((edge): edge is typeof edge & { node: RawDiscussionSummary } => 'id' in edge.node)
+      .map(edge => ({
+        discussion: this.transformDiscussionSummary(edge.node),
+        textMatches: (edge.textMatches ?? []).map(match => ({
+          property: match.property,
+          fragment: match.fragment,
+          highlights: match.highlights.map(h => ({ start: h.beginIndice, end: h.endIndice }))
+        }))
+      }));
+
+    return {
+      totalCount: response.search.discussionCount,
+      results,
+      pageInfo: {
+        hasNextPage: response.search.pageInfo.hasNextPage,
+        endCursor: response.search.pageInfo.endCursor
+      }
+    };
+  }
+
+  /**
+   * Get a page of the repository discussions matching a search query
+   * Requirement 43.1, 43.3: Smart views are search queries loaded page by page
+   */
+  async searchDiscussionSummaries(query: string, options?: { first?: number; after?: string }): Promise<DiscussionSummariesPage> {
+    const session = await this.authService.getSessionSilent();
+    if (!session) {
+      return { discussions: [], pageInfo: { hasNextPage: false, endCursor: null } };
+    }
+
+    const repoInfo = await this.getRepositoryInfo();
+
+    // Include recent comments for unread detection like the category lists (Requirement 20.11)
+    const searchQuery = `
+      query SearchDiscussionSummaries($query: String!, $first: Int!, $after: String) {
+        search(type: DISCUSSION, query: $query, first: $first, after: $after) {
+          nodes {
+            ... on Discussion {
+              id
+              number
+              title
+              url
+              author {
+                login
+                avatarUrl
+              }
+              category {
+                id
+                name
+                description
+                emoji
+                isAnswerable
+              }
+              createdAt
+              updatedAt
+              isAnswered
+              upvoteCount
+              closed
+              locked
+              labels(first: 20) {
+                nodes {
+                  id
+                  name
+                  color
+                }
+              }
+              poll {
+                id
+              }
+              comments(last: 10) {
+                totalCount
+                nodes {
+                  createdAt
+                  viewerDidAuthor
+                }
+              }
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlClient.query<{
+      search: {
+        // Empty object for results the viewer cannot access
+        nodes: Array<RawDiscussionSummary | Record<string, never>>;
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      };
+    }>(
+      searchQuery,
+      {
+        query: `repo:${repoInfo.owner}/${repoInfo.name} ${query.trim()}`,
+        first: options?.first ?? GRAPHQL_PAGINATION_SIZE,
+        after: options?.after ?? null
+      },
+      session.accessToken
+    );
+
+    return {
+      discussions: response.search.nodes
+        .filter((node): node is RawDiscussionSummary => 'id' in node)
+        .map(node => this.transformDiscussionSummary(node)),
+      pageInfo: response.search.pageInfo
+    };
+  }
+
   /**
    * Get a single discussion by number
    */
@@ -373,6 +661,28 @@ export class GitHubService implements IGitHubService {
             createdAt
             updatedAt
             isAnswered
+            closed
+            locked
+            labels(first: 20) {
+              nodes {
+                id
+                name
+                color
+              }
+            }
+            poll {
+              question
+              totalVoteCount
+              viewerHasVoted
+              viewerCanVote
+              options(first: 20) {
+                nodes {
+                  id
+                  option
+                  totalVoteCount
+                }
+              }
+            }
             answer {
               id
               body
@@ -383,6 +693,7 @@ export class GitHubService implements IGitHubService {
               }
               createdAt
               updatedAt
+              viewerDidAuthor
               reactionGroups {
                 content
                 reactors { totalCount }
@@ -395,6 +706,7 @@ export class GitHubService implements IGitHubService {
               viewerHasReacted
             }
             comments(first: 100) {
+              totalCount
               nodes {
                 id
                 body
@@ -405,6 +717,7 @@ export class GitHubService implements IGitHubService {
                 }
                 createdAt
                 updatedAt
+                viewerDidAuthor
                 reactionGroups {
                   content
                   reactors { totalCount }
@@ -421,6 +734,7 @@ export class GitHubService implements IGitHubService {
                     }
                     createdAt
                     updatedAt
+                    viewerDidAuthor
                     reactionGroups {
                       content
                       reactors { totalCount }
@@ -480,6 +794,7 @@ export class GitHubService implements IGitHubService {
                 }
                 createdAt
                 updatedAt
+                viewerDidAuthor
                 reactionGroups {
                   content
                   reactors { totalCount }
@@ -496,6 +811,7 @@ export class GitHubService implements IGitHubService {
                     }
                     createdAt
                     updatedAt
+                    viewerDidAuthor
                     reactionGroups {
                       content
                       reactors { totalCount }
@@ -537,6 +853,58 @@ export class GitHubService implements IGitHubService {
     };
   }
 
+  /**
+   * Get a comment or reply by its node id
+   * Requirement 30.1: Comment files beyond the comments loaded with the discussion
+   * @returns undefined when there is no such comment in the discussion
+   */
+  async getComment(discussionNumber: number, commentId: string): Promise<DiscussionComment | undefined> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const query = `
+      query GetComment($id: ID!) {
+        node(id: $id) {
+          ... on DiscussionComment {
+            id
+            body
+            bodyHTML
+            author {
+              login
+              avatarUrl
+            }
+            createdAt
+            updatedAt
+            viewerDidAuthor
+            reactionGroups {
+              content
+              reactors { totalCount }
+              viewerHasReacted
+            }
+            discussion {
+              number
+            }
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlClient.query<CommentGraphQLResponse>(
+      query,
+      { id: commentId },
+      session.accessToken
+    );
+
+    // Other node types come back as an empty object
+    const node = response.node;
+    if (!node?.id || node.discussion?.number !== discussionNumber) {
+      return undefined;
+    }
+    return this.transformComment(node);
+  }
+
   /**
    * Create a new discussion
    * Requirement 4.3: Create discussion via API
@@ -570,6 +938,15 @@ export class GitHubService implements IGitHubService {
             createdAt
             updatedAt
             isAnswered
+            closed
+            locked
+            labels(first: 20) {
+              nodes {
+                id
+                name
+                color
+              }
+            }
             reactionGroups {
               content
               reactors { totalCount }
@@ -586,6 +963,7 @@ export class GitHubService implements IGitHubService {
                 }
                 createdAt
                 updatedAt
+                viewerDidAuthor
                 reactionGroups {
                   content
                   reactors { totalCount }
@@ -618,8 +996,8 @@ export class GitHubService implements IGitHubService {
     }
 
     const mutation = `
-      mutation UpdateDiscussion($discussionId: ID!, $title: String, $body: String) {
-        updateDiscussion(input: { discussionId: $discussionId, title: $title, body: $body }) {
+      mutation UpdateDiscussion($discussionId: ID!, $title: String, $body: String, $categoryId: ID) {
+        updateDiscussion(input: { discussionId: $discussionId, title: $title, body: $body, categoryId: $categoryId }) {
           discussion {
             id
             number
@@ -640,6 +1018,15 @@ export class GitHubService implements IGitHubService {
             createdAt
             updatedAt
             isAnswered
+            closed
+            locked
+            labels(first: 20) {
+              nodes {
+                id
+                name
+                color
+              }
+            }
             reactionGroups {
               content
               reactors { totalCount }
@@ -656,6 +1043,7 @@ export class GitHubService implements IGitHubService {
                 }
                 createdAt
                 updatedAt
+                viewerDidAuthor
                 reactionGroups {
                   content
                   reactors { totalCount }
@@ -673,7 +1061,8 @@ export class GitHubService implements IGitHubService {
       {
         discussionId: id,
         title: input.title,
-        body: input.body
+        body: input.body,
+        categoryId: input.categoryId
       },
       session.accessToken
     );
@@ -702,6 +1091,7 @@ export class GitHubService implements IGitHubService {
               description
               emoji
               isAnswerable
+              slug
             }
           }
         }
@@ -722,7 +1112,8 @@ export class GitHubService implements IGitHubService {
       name: c.name,
       description: c.description,
       emoji: c.emoji,
-      isAnswerable: c.isAnswerable
+      isAnswerable: c.isAnswerable,
+      slug: c.slug
     }));
   }
 
@@ -838,74 +1229,580 @@ export class GitHubService implements IGitHubService {
   }
 
   /**
-   * Get mentionable users for @mention suggestions
-   * Requirement 19: Mention functionality
-   * Priority: Discussion participants > Collaborators
-   * Note: Org members are fetched separately via searchOrganizationMembers for performance
+   * Add a reaction to a discussion, comment, or reply
+   * Requirement 22.3: Add reaction via API
    */
-  async getMentionableUsers(discussionNumber?: number): Promise<MentionableUser[]> {
-    const session = await this.authService.getSessionSilent();
+  async addReaction(subjectId: string, content: ReactionContent): Promise<void> {
+    const session = await this.authService.getSession();
     if (!session) {
-      return [];
-    }
-
-    // Build cache key based on repository and discussion number
-    const repoInfo = await this.getRepositoryInfo();
-    const cacheKey = discussionNumber !== undefined
-      ? `${CACHE_KEY_MENTIONABLE_USERS}:${repoInfo.owner}/${repoInfo.name}:${discussionNumber}`
-      : `${CACHE_KEY_MENTIONABLE_USERS}:${repoInfo.owner}/${repoInfo.name}`;
-
-    // Check cache first
-    const cached = this.cacheService?.get<MentionableUser[]>(cacheKey);
-    if (cached) {
-      return cached;
+      throw new Error('Not authenticated');
     }
 
-    const users = new Map<string, MentionableUser>();
-
-    try {
-      // 1. Get discussion participants if discussionNumber is provided (highest priority)
-      if (discussionNumber !== undefined) {
-        const participants = await this.getDiscussionParticipants(discussionNumber, session.accessToken);
-        for (const user of participants) {
-          users.set(user.login, user);
-        }
-      }
-
-      // 2. Get repository collaborators
-      const collaborators = await this.getRepositoryCollaborators(repoInfo, session.accessToken);
-      for (const user of collaborators) {
-        // Only add if not already present (preserve higher priority)
-        if (!users.has(user.login)) {
-          users.set(user.login, user);
+    const mutation = `
+      mutation AddReaction($subjectId: ID!, $content: ReactionContent!) {
+        addReaction(input: { subjectId: $subjectId, content: $content }) {
+          reaction {
+            content
+          }
         }
       }
+    `;
 
-      // Note: Organization members are NOT fetched here for performance.
-      // Use searchOrganizationMembers() with a query to search org members lazily.
-
-    } catch (error) {
-      // Return what we have so far on error
-      console.error('Error fetching mentionable users:', error);
-    }
-
-    // Sort by priority and return
-    const result = this.sortUsersByPriority(Array.from(users.values()));
-
-    // Cache the result
-    this.cacheService?.set(cacheKey, result, MENTIONABLE_USERS_CACHE_TTL_MS);
-
-    return result;
+    await this.graphqlClient.query<{ addReaction: { reaction: { content: string } } }>(
+      mutation,
+      { subjectId, content },
+      session.accessToken
+    );
   }
 
   /**
-   * Search organization members by query string
-   * Requirement 19: Lazy loading of org members for performance
-   * Only searches when user types characters after @
+   * Remove a reaction from a discussion, comment, or reply
+   * Requirement 22.4: Remove reaction via API
    */
-  async searchOrganizationMembers(query: string): Promise<MentionableUser[]> {
-    if (!query || query.length < 1) {
-      return [];
+  async removeReaction(subjectId: string, content: ReactionContent): Promise<void> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation RemoveReaction($subjectId: ID!, $content: ReactionContent!) {
+        removeReaction(input: { subjectId: $subjectId, content: $content }) {
+          reaction {
+            content
+          }
+        }
+      }
+    `;
+
+    await this.graphqlClient.query<{ removeReaction: { reaction: { content: string } } }>(
+      mutation,
+      { subjectId, content },
+      session.accessToken
+    );
+  }
+
+  /**
+   * Mark a comment as the accepted answer of its discussion
+   * Requirement 23.2: Mark answer via API
+   */
+  async markCommentAsAnswer(commentId: string): Promise<void> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation MarkCommentAsAnswer($commentId: ID!) {
+        markDiscussionCommentAsAnswer(input: { id: $commentId }) {
+          discussion {
+            id
+            isAnswered
+          }
+        }
+      }
+    `;
+
+    await this.graphqlClient.query<{ markDiscussionCommentAsAnswer: { discussion: { id: string; isAnswered: boolean } } }>(
+      mutation,
+      { commentId },
+      session.accessToken
+    );
+  }
+
+  /**
+   * Unmark a comment as the accepted answer of its discussion
+   * Requirement 23.3: Unmark answer via API
+   */
+  async unmarkCommentAsAnswer(commentId: string): Promise<void> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation UnmarkCommentAsAnswer($commentId: ID!) {
+        unmarkDiscussionCommentAsAnswer(input: { id: $commentId }) {
+          discussion {
+            id
+            isAnswered
+          }
+        }
+      }
+    `;
+
+    await this.graphqlClient.query<{ unmarkDiscussionCommentAsAnswer: { discussion: { id: string; isAnswered: boolean } } }>(
+      mutation,
+      { commentId },
+      session.accessToken
+    );
+  }
+
+  /**
+   * Close a discussion with a reason
+   * Requirement 24.1: Close discussion via API
+   */
+  async closeDiscussion(discussionId: string, reason: DiscussionCloseReason): Promise<void> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation CloseDiscussion($discussionId: ID!, $reason: DiscussionCloseReason) {
+        closeDiscussion(input: { discussionId: $discussionId, reason: $reason }) {
+          discussion {
+            id
+            closed
+          }
+        }
+      }
+    `;
+
+    await this.graphqlClient.query<{ closeDiscussion: { discussion: { id: string; closed: boolean } } }>(
+      mutation,
+      { discussionId, reason },
+      session.accessToken
+    );
+  }
+
+  /**
+   * Reopen a closed discussion
+   * Requirement 24.2: Reopen discussion via API
+   */
+  async reopenDiscussion(discussionId: string): Promise<void> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation ReopenDiscussion($discussionId: ID!) {
+        reopenDiscussion(input: { discussionId: $discussionId }) {
+          discussion {
+            id
+            closed
+          }
+        }
+      }
+    `;
+
+    await this.graphqlClient.query<{ reopenDiscussion: { discussion: { id: string; closed: boolean } } }>(
+      mutation,
+      { discussionId },
+      session.accessToken
+    );
+  }
+
+  /**
+   * Lock a discussion (prevents new comments from non-collaborators)
+   * Requirement 24.3: Lock discussion via API
+   */
+  async lockDiscussion(discussionId: string): Promise<void> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation LockDiscussion($lockableId: ID!) {
+        lockLockable(input: { lockableId: $lockableId }) {
+          lockedRecord {
+            locked
+          }
+        }
+      }
+    `;
+
+    await this.graphqlClient.query<{ lockLockable: { lockedRecord: { locked: boolean } } }>(
+      mutation,
+      { lockableId: discussionId },
+      session.accessToken
+    );
+  }
+
+  /**
+   * Unlock a locked discussion
+   * Requirement 24.3: Unlock discussion via API
+   */
+  async unlockDiscussion(discussionId: string): Promise<void> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation UnlockDiscussion($lockableId: ID!) {
+        unlockLockable(input: { lockableId: $lockableId }) {
+          unlockedRecord {
+            locked
+          }
+        }
+      }
+    `;
+
+    await this.graphqlClient.query<{ unlockLockable: { unlockedRecord: { locked: boolean } } }>(
+      mutation,
+      { lockableId: discussionId },
+      session.accessToken
+    );
+  }
+
+  /**
+   * Delete a discussion (requires admin or maintainer rights)
+   * Requirement 25.2: Delete discussion via API
+   */
+  async deleteDiscussion(discussionId: string): Promise<void> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation DeleteDiscussion($discussionId: ID!) {
+        deleteDiscussion(input: { id: $discussionId }) {
+          discussion {
+            id
+          }
+        }
+      }
+    `;
+
+    await this.graphqlClient.query<{ deleteDiscussion: { discussion: { id: string } } }>(
+      mutation,
+      { discussionId },
+      session.accessToken
+    );
+  }
+
+  /**
+   * Vote for an option of a discussion poll
+   * Requirement 41.3: Vote via API and return the updated poll
+   */
+  async addDiscussionPollVote(pollOptionId: string): Promise<DiscussionPoll> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation AddDiscussionPollVote($pollOptionId: ID!) {
+        addDiscussionPollVote(input: { pollOptionId: $pollOptionId }) {
+          pollOption {
+            poll {
+              question
+              totalVoteCount
+              viewerHasVoted
+              viewerCanVote
+              options(first: 20) {
+                nodes {
+                  id
+                  option
+                  totalVoteCount
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlClient.query<{ addDiscussionPollVote: { pollOption: { poll: RawPoll } } }>(
+      mutation,
+      { pollOptionId },
+      session.accessToken
+    );
+
+    return this.transformPoll(response.addDiscussionPollVote.pollOption.poll);
+  }
+
+  /**
+   * Get the labels defined in the repository
+   * Requirement 32.4: Label names in front matter are resolved against repository labels
+   */
+  async getRepositoryLabels(): Promise<Label[]> {
+    const session = await this.authService.getSessionSilent();
+    if (!session) {
+      return [];
+    }
+
+    const repoInfo = await this.getRepositoryInfo();
+
+    const query = `
+      query GetLabels($owner: String!, $name: String!) {
+        repository(owner: $owner, name: $name) {
+          labels(first: 100, orderBy: { field: NAME, direction: ASC }) {
+            nodes {
+              id
+              name
+              color
+            }
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlClient.query<LabelsGraphQLResponse>(
+      query,
+      {
+        owner: repoInfo.owner,
+        name: repoInfo.name
+      },
+      session.accessToken
+    );
+
+    return response.repository.labels.nodes.map(l => this.transformLabel(l));
+  }
+
+  /**
+   * Get the ids of the discussions pinned in the repository
+   * Requirement 33.2: pinned field of _metadata.json
+   */
+  async getPinnedDiscussionIds(): Promise<string[]> {
+    const session = await this.authService.getSessionSilent();
+    if (!session) {
+      return [];
+    }
+
+    const repoInfo = await this.getRepositoryInfo();
+
+    const query = `
+      query GetPinnedDiscussionIds($owner: String!, $name: String!) {
+        repository(owner: $owner, name: $name) {
+          pinnedDiscussions(first: 10) {
+            nodes {
+              discussion {
+                id
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlClient.query<{
+      repository: { pinnedDiscussions: { nodes: Array<{ discussion: { id: string } }> } };
+    }>(
+      query,
+      {
+        owner: repoInfo.owner,
+        name: repoInfo.name
+      },
+      session.accessToken
+    );
+
+    return response.repository.pinnedDiscussions.nodes.map(n => n.discussion.id);
+  }
+
+  /**
+   * Get the discussions pinned in the repository, in pinned order
+   * Requirement 42.1: Pinned section with the pin pattern and gradient
+   */
+  async getPinnedDiscussions(): Promise<PinnedDiscussion[]> {
+    const session = await this.authService.getSessionSilent();
+    if (!session) {
+      return [];
+    }
+
+    const repoInfo = await this.getRepositoryInfo();
+
+    const query = `
+      query GetPinnedDiscussions($owner: String!, $name: String!) {
+        repository(owner: $owner, name: $name) {
+          pinnedDiscussions(first: 10) {
+            nodes {
+              pattern
+              gradientStopColors
+              preconfiguredGradient
+              discussion {
+                id
+                number
+                title
+                url
+                author {
+                  login
+                  avatarUrl
+                }
+                category {
+                  id
+                  name
+                  description
+                  emoji
+                  isAnswerable
+                }
+                createdAt
+                updatedAt
+                isAnswered
+                upvoteCount
+                closed
+                locked
+                labels(first: 20) {
+                  nodes {
+                    id
+                    name
+                    color
+                  }
+                }
+                poll {
+                  id
+                }
+                comments {
+                  totalCount
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlClient.query<{
+      repository: {
+        pinnedDiscussions: {
+          nodes: Array<{
+            pattern: PinnedDiscussion['pattern'];
+            gradientStopColors: string[];
+            preconfiguredGradient: PinnedDiscussion['preconfiguredGradient'] | null;
+            discussion: RawDiscussionSummary;
+          }>;
+        };
+      };
+    }>(
+      query,
+      {
+        owner: repoInfo.owner,
+        name: repoInfo.name
+      },
+      session.accessToken
+    );
+
+    return response.repository.pinnedDiscussions.nodes.map(n => ({
+      discussion: { ...this.transformDiscussionSummary(n.discussion), pinned: true },
+      pattern: n.pattern,
+      gradientStopColors: n.gradientStopColors,
+      preconfiguredGradient: n.preconfiguredGradient ?? undefined
+    }));
+  }
+
+  /**
+   * Add labels to a discussion
+   * Requirement 32.3: Labels added in front matter
+   */
+  async addLabelsToDiscussion(discussionId: string, labelIds: string[]): Promise<void> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation AddLabels($labelableId: ID!, $labelIds: [ID!]!) {
+        addLabelsToLabelable(input: { labelableId: $labelableId, labelIds: $labelIds }) {
+          clientMutationId
+        }
+      }
+    `;
+
+    await this.graphqlClient.query<{ addLabelsToLabelable: { clientMutationId: string | null } }>(
+      mutation,
+      { labelableId: discussionId, labelIds },
+      session.accessToken
+    );
+  }
+
+  /**
+   * Remove labels from a discussion
+   * Requirement 32.3: Labels removed in front matter
+   */
+  async removeLabelsFromDiscussion(discussionId: string, labelIds: string[]): Promise<void> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const mutation = `
+      mutation RemoveLabels($labelableId: ID!, $labelIds: [ID!]!) {
+        removeLabelsFromLabelable(input: { labelableId: $labelableId, labelIds: $labelIds }) {
+          clientMutationId
+        }
+      }
+    `;
+
+    await this.graphqlClient.query<{ removeLabelsFromLabelable: { clientMutationId: string | null } }>(
+      mutation,
+      { labelableId: discussionId, labelIds },
+      session.accessToken
+    );
+  }
+
+  /**
+   * Get mentionable users for @mention suggestions
+   * Requirement 19: Mention functionality
+   * Priority: Discussion participants > Collaborators
+   * Note: Org members are fetched separately via searchOrganizationMembers for performance
+   */
+  async getMentionableUsers(discussionNumber?: number): Promise<MentionableUser[]> {
+    const session = await this.authService.getSessionSilent();
+    if (!session) {
+      return [];
+    }
+
+    // Build cache key based on repository and discussion number
+    const repoInfo = await this.getRepositoryInfo();
+    const cacheKey = discussionNumber !== undefined
+      ? `${CACHE_KEY_MENTIONABLE_USERS}:${repoInfo.owner}/${repoInfo.name}:${discussionNumber}`
+      : `${CACHE_KEY_MENTIONABLE_USERS}:${repoInfo.owner}/${repoInfo.name}`;
+
+    // Check cache first
+    const cached = this.cacheService?.get<MentionableUser[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const users = new Map<string, MentionableUser>();
+
+    try {
+      // 1. Get discussion participants if discussionNumber is provided (highest priority)
+      if (discussionNumber !== undefined) {
+        const participants = await this.getDiscussionParticipants(discussionNumber, session.accessToken);
+        for (const user of participants) {
+          users.set(user.login, user);
+        }
+      }
+
+      // 2. Get repository collaborators
+      const collaborators = await this.getRepositoryCollaborators(repoInfo, session.accessToken);
+      for (const user of collaborators) {
+        // Only add if not already present (preserve higher priority)
+        if (!users.has(user.login)) {
+          users.set(user.login, user);
+        }
+      }
+
+      // Note: Organization members are NOT fetched here for performance.
+      // Use searchOrganizationMembers() with a query to search org members lazily.
+
+    } catch (error) {
+      // Return what we have so far on error
+      console.error('Error fetching mentionable users:', error);
+    }
+
+    // Sort by priority and return
+    const result = this.sortUsersByPriority(Array.from(users.values()));
+
+    // Cache the result
+    this.cacheService?.set(cacheKey, result, MENTIONABLE_USERS_CACHE_TTL_MS);
+
+    return result;
+  }
+
+  /**
+   * Search organization members by query string
+   * Requirement 19: Lazy loading of org members for performance
+   * Only searches when user types characters after @
+   */
+  async searchOrganizationMembers(query: string): Promise<MentionableUser[]> {
+    if (!query || query.length < 1) {
+      return [];
     }
 
     const session = await this.authService.getSessionSilent();
@@ -916,7 +1813,7 @@ export class GitHubService implements IGitHubService {
     const repoInfo = await this.getRepositoryInfo();
 
     // Check if this is an organization repository
-    const isOrg = await this.isOrganizationRepository(repoInfo, session.accessToken);
+    const isOrg = await this.isOrganization(repoInfo.owner, session.accessToken);
     if (!isOrg) {
       return [];
     }
@@ -953,19 +1850,90 @@ export class GitHubService implements IGitHubService {
   }
 
   /**
-   * Check if the repository owner is an organization
+   * Get the repositories that can hold the discussions of an organization
+   * Requirement 46.1: Organization discussions live in a public repository of the organization
+   * with discussions enabled. The `.github` repository is the conventional one and is the only
+   * candidate when it has discussions enabled; otherwise every public repository is checked
    */
-  private async isOrganizationRepository(
-    repoInfo: RepositoryInfo,
+  async getOrganizationDiscussionRepositories(login: string): Promise<RepositoryInfo[]> {
+    const session = await this.authService.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    if (!await this.isOrganization(login, session.accessToken)) {
+      throw new Error(`Organization ${login} not found`);
+    }
+
+    const query = `
+      query GetOrganizationRepositories($login: String!, $after: String) {
+        organization(login: $login) {
+          communityRepository: repository(name: ".github") {
+            id
+            name
+            owner { login }
+            hasDiscussionsEnabled
+          }
+          repositories(first: 100, after: $after, privacy: PUBLIC, orderBy: { field: NAME, direction: ASC }) {
+            nodes {
+              id
+              name
+              owner { login }
+              hasDiscussionsEnabled
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }
+    `;
+
+    const candidates: RepositoryGraphQLResponse['repository'][] = [];
+    let after: string | null = null;
+    do {
+      const response: OrganizationRepositoriesGraphQLResponse = await this.graphqlClient.query<OrganizationRepositoriesGraphQLResponse>(
+        query,
+        { login, after },
+        session.accessToken
+      );
+      if (!response.organization) {
+        throw new Error(`Organization ${login} not found`);
+      }
+      const { communityRepository, repositories } = response.organization;
+      // The .github repository comes with every page, so the first page already settles it
+      if (communityRepository?.hasDiscussionsEnabled) {
+        candidates.push(communityRepository);
+        break;
+      }
+      candidates.push(...repositories.nodes.filter(r => r.hasDiscussionsEnabled));
+      after = repositories.pageInfo.hasNextPage ? repositories.pageInfo.endCursor : null;
+    } while (after);
+
+    return candidates.map(r => ({
+      id: r.id,
+      owner: r.owner.login,
+      name: r.name,
+      fullName: `${r.owner.login}/${r.name}`,
+      hasDiscussionsEnabled: r.hasDiscussionsEnabled
+    }));
+  }
+
+  /**
+   * Check if the account with the given login is an organization
+   */
+  private async isOrganization(
+    login: string,
     accessToken: string
   ): Promise<boolean> {
-    const cacheKey = `is-org:${repoInfo.owner}`;
+    const cacheKey = `is-org:${login}`;
     const cached = this.cacheService?.get<boolean>(cacheKey);
     if (cached !== undefined) {
       return cached;
     }
 
-    const ownerUrl = `https://api.github.com/users/${repoInfo.owner}`;
+    const ownerUrl = `https://api.github.com/users/${login}`;
     const ownerResponse = await fetch(ownerUrl, {
       headers: {
         Authorization: `Bearer ${accessToken}`,
@@ -1178,8 +2146,13 @@ export class GitHubService implements IGitHubService {
       createdAt: new Date(raw.createdAt),
       updatedAt: new Date(raw.updatedAt),
       isAnswered: raw.isAnswered,
+      closed: raw.closed ?? false,
+      locked: raw.locked ?? false,
+      labels: raw.labels?.nodes.map(l => this.transformLabel(l)) ?? [],
+      poll: raw.poll ? this.transformPoll(raw.poll) : undefined,
       answer: raw.answer ? this.transformComment(raw.answer) : undefined,
       comments: raw.comments.nodes.map(c => this.transformComment(c)),
+      commentsTotalCount: raw.comments.totalCount,
       reactions: raw.reactionGroups.map(r => this.transformReactionGroup(r))
     };
 
@@ -1194,6 +2167,34 @@ export class GitHubService implements IGitHubService {
     return discussion;
   }
 
+  /**
+   * Transform raw API response to Label model
+   */
+  private transformLabel(raw: RawLabel): Label {
+    return {
+      id: raw.id,
+      name: raw.name,
+      color: raw.color
+    };
+  }
+
+  /**
+   * Transform raw API response to DiscussionPoll model
+   */
+  private transformPoll(raw: RawPoll): DiscussionPoll {
+    return {
+      question: raw.question,
+      totalVoteCount: raw.totalVoteCount,
+      viewerHasVoted: raw.viewerHasVoted,
+      viewerCanVote: raw.viewerCanVote,
+      options: raw.options.nodes.map(o => ({
+        id: o.id,
+        option: o.option,
+        totalVoteCount: o.totalVoteCount
+      }))
+    };
+  }
+
   /**
    * Transform raw API response to DiscussionSummary model (lightweight)
    */
@@ -1220,7 +2221,12 @@ export class GitHubService implements IGitHubService {
       createdAt: new Date(raw.createdAt),
       updatedAt: new Date(raw.updatedAt),
       isAnswered: raw.isAnswered,
+      closed: raw.closed ?? false,
+      locked: raw.locked ?? false,
+      labels: raw.labels?.nodes.map(l => this.transformLabel(l)) ?? [],
+      hasPoll: !!raw.poll,
       commentsCount: raw.comments.totalCount,
+      upvoteCount: raw.upvoteCount ?? 0,
       recentComments
     };
   }
@@ -1248,6 +2254,7 @@ export class GitHubService implements IGitHubService {
       author: this.transformUser(raw.author),
       createdAt: new Date(raw.createdAt),
       updatedAt: new Date(raw.updatedAt),
+      viewerDidAuthor: raw.viewerDidAuthor ?? false,
       reactions: raw.reactionGroups.map(r => this.transformReactionGroup(r)),
       replies: raw.replies?.nodes.map(r => this.transformComment(r)) ?? []
     };
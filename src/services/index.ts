@@ -7,5 +7,5 @@ export { StorageService } from './storageService';
 export { GitHubService } from './githubService';
 export { CacheService } from './cacheService';
 export { AutoRefreshService } from './autoRefreshService';
-export { NotificationBadgeService } from './notificationBadgeService';
+export { NotificationBadgeService, CombinedBadge } from './notificationBadgeService';
 export * from './interfaces';
\ No newline at end of file
@@ -6,7 +6,11 @@ import * as vscode from 'vscode';
 import {
   Discussion,
   DiscussionSummariesPage,
+  DiscussionSearchResults,
   DiscussionCategory,
+  DiscussionPoll,
+  PinnedDiscussion,
+  Label,
   DiscussionQueryOptions,
   CreateDiscussionInput,
   UpdateDiscussionInput,
@@ -15,7 +19,10 @@ import {
   AuthenticationState,
   ExtensionSettings,
   CommentsPage,
-  MentionableUser
+  DiscussionComment,
+  MentionableUser,
+  ReactionContent,
+  DiscussionCloseReason
 } from '../models';
 
 export interface IAuthenticationService {
@@ -29,8 +36,11 @@ export interface IAuthenticationService {
 export interface IGitHubService {
   getRepositoryInfo(): Promise<RepositoryInfo>;
   getDiscussionSummaries(options?: DiscussionQueryOptions): Promise<DiscussionSummariesPage>;
+  searchDiscussions(query: string, options?: { first?: number; after?: string }): Promise<DiscussionSearchResults>;
+  searchDiscussionSummaries(query: string, options?: { first?: number; after?: string }): Promise<DiscussionSummariesPage>;
   getDiscussion(number: number): Promise<Discussion>;
   getDiscussionComments(discussionNumber: number, after?: string): Promise<CommentsPage>;
+  getComment(discussionNumber: number, commentId: string): Promise<DiscussionComment | undefined>;
   createDiscussion(input: CreateDiscussionInput): Promise<Discussion>;
   updateDiscussion(id: string, input: UpdateDiscussionInput): Promise<Discussion>;
   getDiscussionCategories(): Promise<DiscussionCategory[]>;
@@ -38,8 +48,24 @@ export interface IGitHubService {
   addReply(discussionId: string, commentId: string, body: string): Promise<void>;
   updateComment(commentId: string, body: string): Promise<void>;
   deleteComment(commentId: string): Promise<void>;
+  addReaction(subjectId: string, content: ReactionContent): Promise<void>;
+  removeReaction(subjectId: string, content: ReactionContent): Promise<void>;
+  markCommentAsAnswer(commentId: string): Promise<void>;
+  unmarkCommentAsAnswer(commentId: string): Promise<void>;
+  closeDiscussion(discussionId: string, reason: DiscussionCloseReason): Promise<void>;
+  reopenDiscussion(discussionId: string): Promise<void>;
+  lockDiscussion(discussionId: string): Promise<void>;
+  unlockDiscussion(discussionId: string): Promise<void>;
+  deleteDiscussion(discussionId: string): Promise<void>;
+  addDiscussionPollVote(pollOptionId: string): Promise<DiscussionPoll>;
+  getRepositoryLabels(): Promise<Label[]>;
+  getPinnedDiscussionIds(): Promise<string[]>;
+  getPinnedDiscussions(): Promise<PinnedDiscussion[]>;
+  addLabelsToDiscussion(discussionId: string, labelIds: string[]): Promise<void>;
+  removeLabelsFromDiscussion(discussionId: string, labelIds: string[]): Promise<void>;
   getMentionableUsers(discussionNumber?: number): Promise<MentionableUser[]>;
   searchOrganizationMembers(query: string): Promise<MentionableUser[]>;
+  getOrganizationDiscussionRepositories(login: string): Promise<RepositoryInfo[]>;
 }
 
 export interface IStorageService {
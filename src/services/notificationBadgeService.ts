@@ -11,6 +11,57 @@ import { INotificationBadgeService, IGitHubService, IAuthenticationService, ISto
 import { UnreadState } from '../models';
 import { STORAGE_KEY_UNREAD_STATE, UNREAD_MAX_SIZE } from '../constants';
 
+/**
+ * Anything showing a badge, such as the tree view
+ */
+export type BadgeTarget = Pick<vscode.TreeView<unknown>, 'badge'>;
+
+/**
+ * Tooltip of a badge counting discussions with new comments
+ */
+function formatBadge(count: number): vscode.ViewBadge | undefined {
+  return count > 0
+    ? { value: count, tooltip: `${count}件のDiscussionに新着コメントがあります` }
+    : undefined;
+}
+
+/**
+ * Badge of a view showing several repositories (Requirement 45.5)
+ * Each repository's service sets its own target, and the view shows their total
+ */
+export class CombinedBadge {
+  private badges: Map<BadgeTarget, vscode.ViewBadge | undefined> = new Map();
+
+  constructor(private readonly view: BadgeTarget) {}
+
+  /**
+   * Badge target for one repository
+   */
+  createTarget(): BadgeTarget {
+    const badges = this.badges;
+    const update = () => this.update();
+    const target: BadgeTarget = {
+      get badge() {
+        return badges.get(target);
+      },
+      set badge(badge: vscode.ViewBadge | undefined) {
+        badges.set(target, badge);
+        update();
+      }
+    };
+    badges.set(target, undefined);
+    return target;
+  }
+
+  private update(): void {
+    let total = 0;
+    for (const badge of this.badges.values()) {
+      total += badge?.value ?? 0;
+    }
+    this.view.badge = formatBadge(total);
+  }
+}
+
 /**
  * Service for managing notification badges on the tree view
  */
@@ -21,10 +72,12 @@ export class NotificationBadgeService implements INotificationBadgeService {
   readonly onDidChangeUnreadState: vscode.Event<void> = this._onDidChangeUnreadState.event;
 
   constructor(
-    private readonly treeView: vscode.TreeView<unknown>,
+    private readonly treeView: BadgeTarget,
     private readonly githubService: IGitHubService,
     private readonly authService: IAuthenticationService,
-    private readonly storageService: IStorageService
+    private readonly storageService: IStorageService,
+    /** Key of the unread state, one per repository (Requirement 45.5) */
+    private readonly storageKey: string = STORAGE_KEY_UNREAD_STATE
   ) {
     this.disposables.push(this._onDidChangeUnreadState);
   }
@@ -52,7 +105,9 @@ export class NotificationBadgeService implements INotificationBadgeService {
       );
 
       // Get current unread state
-      let state = await this.storageService.getData<UnreadState>(STORAGE_KEY_UNREAD_STATE);
+      // A repository starts from the state every repository shared before it was kept per repository (Requirement 45.5)
+      let state = await this.storageService.getData<UnreadState>(this.storageKey)
+        ?? await this.storageService.getData<UnreadState>(STORAGE_KEY_UNREAD_STATE);
 
       // Initial startup: set lastCheckedAt to now and show no badge (Requirement 19.7)
       if (!state) {
@@ -60,7 +115,7 @@ export class NotificationBadgeService implements INotificationBadgeService {
           unreadIds: [],
           lastCheckedAt: new Date().toISOString()
         };
-        await this.storageService.storeData(STORAGE_KEY_UNREAD_STATE, state);
+        await this.storageService.storeData(this.storageKey, state);
         this.treeView.badge = undefined;
         return;
       }
@@ -114,7 +169,7 @@ export class NotificationBadgeService implements INotificationBadgeService {
         unreadIds: trimmedUnreadIds,
         lastCheckedAt: new Date().toISOString()
       };
-      await this.storageService.storeData(STORAGE_KEY_UNREAD_STATE, newState);
+      await this.storageService.storeData(this.storageKey, newState);
 
       // Update cached unread IDs and fire event (Requirement 20.5)
       const previousUnreadIds = this.cachedUnreadIds;
@@ -124,14 +179,7 @@ export class NotificationBadgeService implements INotificationBadgeService {
       }
 
       // Update badge (Requirements 19.1, 19.2, 19.9)
-      if (trimmedUnreadIds.length > 0) {
-        this.treeView.badge = {
-          value: trimmedUnreadIds.length,
-          tooltip: `${trimmedUnreadIds.length}件のDiscussionに新着コメントがあります`
-        };
-      } else {
-        this.treeView.badge = undefined;
-      }
+      this.treeView.badge = formatBadge(trimmedUnreadIds.length);
     } catch (error) {
       // Silently fail - keep existing badge state
       console.warn('Failed to update notification badge:', error);
@@ -144,7 +192,7 @@ export class NotificationBadgeService implements INotificationBadgeService {
    */
   async markAsRead(discussionId: string): Promise<void> {
     try {
-      const state = await this.storageService.getData<UnreadState>(STORAGE_KEY_UNREAD_STATE);
+      const state = await this.storageService.getData<UnreadState>(this.storageKey);
       if (!state) {
         return;
       }
@@ -161,21 +209,14 @@ export class NotificationBadgeService implements INotificationBadgeService {
         ...state,
         unreadIds: newUnreadIds
       };
-      await this.storageService.storeData(STORAGE_KEY_UNREAD_STATE, newState);
+      await this.storageService.storeData(this.storageKey, newState);
 
       // Update cached unread IDs and fire event (Requirement 20.5)
       this.cachedUnreadIds = newUnreadIds;
       this._onDidChangeUnreadState.fire();
 
       // Update badge (Requirement 19.9)
-      if (newUnreadIds.length > 0) {
-        this.treeView.badge = {
-          value: newUnreadIds.length,
-          tooltip: `${newUnreadIds.length}件のDiscussionに新着コメントがあります`
-        };
-      } else {
-        this.treeView.badge = undefined;
-      }
+      this.treeView.badge = formatBadge(newUnreadIds.length);
     } catch (error) {
       console.warn('Failed to mark discussion as read:', error);
     }
@@ -0,0 +1,323 @@
+/**
+ * Discussion category form utility functions
+ * Requirements: 39.1, 39.3, 39.4 - Discussion category form templates, 40.1 - Template validation
+ *
+ * Forms are YAML files in .github/DISCUSSION_TEMPLATE named after a category
+ * slug. Their answers are rendered the same way github.com renders them:
+ * one "### Label" section per field.
+ */
+
+import { parseYaml, YamlValue } from './yamlUtils';
+
+export type DiscussionFormElementType = 'markdown' | 'input' | 'textarea' | 'dropdown' | 'checkboxes';
+
+export const DISCUSSION_FORM_ELEMENT_TYPES: readonly DiscussionFormElementType[] = ['markdown', 'input', 'textarea', 'dropdown', 'checkboxes'];
+
+/**
+ * Text written for fields left empty, as on github.com
+ */
+export const NO_RESPONSE = '_No response_';
+
+/**
+ * Option of a dropdown or checkboxes element
+ */
+export interface DiscussionFormOption {
+  label: string;
+  /** Checkboxes only: the box must be checked */
+  required: boolean;
+}
+
+/**
+ * Element of a form body
+ */
+export interface DiscussionFormElement {
+  type: DiscussionFormElementType;
+  id?: string;
+  /** 0-based line of the element in the template */
+  line: number;
+  /** Field label ("" for markdown elements) */
+  label: string;
+  description?: string;
+  placeholder?: string;
+  /** Markdown text, or the initial value of an input or textarea */
+  value?: string;
+  /** Textarea only: language of the code block the answer is wrapped in */
+  render?: string;
+  /** Dropdown only: more than one option may be selected */
+  multiple: boolean;
+  /** Dropdown only: index of the option selected initially */
+  defaultOption?: number;
+  options: DiscussionFormOption[];
+  required: boolean;
+}
+
+/**
+ * Parsed discussion category form
+ */
+export interface DiscussionForm {
+  /** Prefix for the title of new discussions */
+  title?: string;
+  /** Labels added to new discussions */
+  labels: string[];
+  body: DiscussionFormElement[];
+}
+
+/**
+ * Problem found in a form template, on a 0-based line
+ * YAML syntax errors also carry the 0-based column they start at
+ */
+export interface DiscussionFormError {
+  line: number;
+  column?: number;
+  message: string;
+}
+
+/**
+ * Answer to a form element: the text of an input or textarea, or the
+ * selected option labels of a dropdown or checkboxes element
+ */
+export type DiscussionFormAnswer = string | string[];
+
+/**
+ * Required field left unanswered, identified by its index in the form body
+ */
+export interface DiscussionFormValidationError {
+  index: number;
+  message: string;
+}
+
+function isPlainObject(value: YamlValue | undefined): value is { [key: string]: YamlValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Scalar as text; numbers and booleans are written as they appear in YAML
+ */
+function asText(value: YamlValue | undefined): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+}
+
+/**
+ * Labels may be a sequence or a comma-separated string
+ */
+function parseLabels(value: YamlValue | undefined): string[] | undefined {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const labels = Array.isArray(value) ? value.map(asText) : asText(value)?.split(',');
+  if (!labels || labels.some(label => label === undefined)) {
+    return undefined;
+  }
+  return (labels as string[]).map(label => label.trim()).filter(label => label);
+}
+
+/**
+ * Parse a discussion category form template
+ * Elements that cannot be used are skipped and reported as errors
+ */
+export function parseDiscussionForm(text: string): { form?: DiscussionForm; errors: DiscussionFormError[] } {
+  const parsed = parseYaml(text);
+  if (parsed.errors.length > 0) {
+    return { errors: parsed.errors.map(({ line, column, message }) => ({ line, column, message: `Invalid YAML: ${message}` })) };
+  }
+
+  const root = parsed.value;
+  if (!isPlainObject(root)) {
+    return { errors: [{ line: 0, message: 'A form template must be a YAML mapping' }] };
+  }
+
+  const errors: DiscussionFormError[] = [];
+  // Line of the first path found, falling back to the start of the document
+  const lineOf = (...paths: string[]) => paths.map(path => parsed.lines[path]).find(line => line !== undefined) ?? 0;
+
+  const title = root.title === undefined || root.title === null ? undefined : asText(root.title);
+  if (root.title !== undefined && root.title !== null && title === undefined) {
+    errors.push({ line: lineOf('title'), message: '"title" must be a string' });
+  }
+
+  const labels = parseLabels(root.labels);
+  if (!labels) {
+    errors.push({ line: lineOf('labels'), message: '"labels" must be a list of label names or a comma-separated string' });
+  }
+
+  if (!Array.isArray(root.body)) {
+    errors.push({
+      line: root.body === undefined ? 0 : lineOf('body'),
+      message: root.body === undefined ? 'A form template must have a "body"' : '"body" must be a list of form elements'
+    });
+    return { errors };
+  }
+
+  const body: DiscussionFormElement[] = [];
+  const ids = new Map<string, number>();
+  root.body.forEach((item, index) => {
+    const path = `body.${index}`;
+    const line = lineOf(path);
+    if (!isPlainObject(item)) {
+      errors.push({ line, message: `Body element ${index + 1} must be a mapping` });
+      return;
+    }
+
+    const type = asText(item.type) as DiscussionFormElementType | undefined;
+    if (!type || !DISCUSSION_FORM_ELEMENT_TYPES.includes(type)) {
+      errors.push({
+        line: item.type === undefined ? line : lineOf(`${path}.type`),
+        message: item.type === undefined
+          ? `Body element ${index + 1} is missing "type"`
+          : `Unknown element type "${asText(item.type) ?? ''}" (expected one of ${DISCUSSION_FORM_ELEMENT_TYPES.join(', ')})`
+      });
+      return;
+    }
+
+    const attributes = isPlainObject(item.attributes) ? item.attributes : {};
+    const validations = isPlainObject(item.validations) ? item.validations : {};
+    const options = Array.isArray(attributes.options) ? attributes.options : [];
+    const defaultOption = attributes.default;
+    const element: DiscussionFormElement = {
+      type,
+      id: asText(item.id),
+      line,
+      label: type === 'markdown' ? '' : asText(attributes.label) ?? '',
+      description: asText(attributes.description),
+      placeholder: asText(attributes.placeholder),
+      value: asText(attributes.value),
+      render: asText(attributes.render),
+      multiple: attributes.multiple === true,
+      defaultOption: typeof defaultOption === 'number' && Number.isInteger(defaultOption) ? defaultOption : undefined,
+      options: options.map(option => isPlainObject(option)
+        ? { label: asText(option.label) ?? '', required: option.required === true }
+        : { label: asText(option) ?? '', required: false }),
+      required: validations.required === true
+    };
+
+    // Schema rules github.com enforces when it loads the template (Requirement 40.1)
+    const name = `Body element ${index + 1} (${type})`;
+    if (element.id !== undefined) {
+      const previous = ids.get(element.id);
+      if (previous !== undefined) {
+        errors.push({ line: lineOf(`${path}.id`), message: `Duplicate id "${element.id}" (also used by body element ${previous + 1})` });
+      } else {
+        ids.set(element.id, index);
+      }
+    }
+    if (type === 'markdown') {
+      if (!element.value?.trim()) {
+        errors.push({ line: lineOf(`${path}.attributes`, path), message: `${name} is missing "attributes.value"` });
+      }
+    } else if (!element.label.trim()) {
+      errors.push({ line: lineOf(`${path}.attributes`, path), message: `${name} is missing "attributes.label"` });
+    }
+    if ((type === 'dropdown' || type === 'checkboxes') && element.options.every(option => !option.label.trim())) {
+      errors.push({ line: lineOf(`${path}.attributes.options`, `${path}.attributes`, path), message: `${name} has no options` });
+    }
+
+    body.push(element);
+  });
+
+  return { form: { title, labels: labels ?? [], body }, errors };
+}
+
+/**
+ * Category a template belongs to: github.com matches the file name to a category slug
+ */
+export function findTemplateCategory<T extends { slug?: string }>(fileName: string, categories: T[]): T | undefined {
+  const slug = fileName.replace(/\.ya?ml$/i, '');
+  return categories.find(category => category.slug === slug);
+}
+
+/**
+ * Whether the form has anything to fill in
+ */
+export function hasFormFields(form: DiscussionForm): boolean {
+  return form.body.some(element => element.type !== 'markdown');
+}
+
+/**
+ * Find required fields without an answer
+ */
+export function validateFormAnswers(form: DiscussionForm, answers: DiscussionFormAnswer[]): DiscussionFormValidationError[] {
+  const errors: DiscussionFormValidationError[] = [];
+
+  form.body.forEach((element, index) => {
+    const answer = answers[index];
+    switch (element.type) {
+      case 'input':
+      case 'textarea':
+        if (element.required && (typeof answer !== 'string' || !answer.trim())) {
+          errors.push({ index, message: `"${element.label}" is required` });
+        }
+        break;
+      case 'dropdown':
+        if (element.required && (!Array.isArray(answer) || answer.length === 0)) {
+          errors.push({ index, message: `Select an option for "${element.label}"` });
+        }
+        break;
+      case 'checkboxes': {
+        const checked = Array.isArray(answer) ? answer : [];
+        const missing = element.options.filter(option => option.required && !checked.includes(option.label));
+        if (missing.length > 0) {
+          errors.push({ index, message: `Check ${missing.map(option => `"${option.label}"`).join(', ')}` });
+        }
+        break;
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Render answers as the discussion body: a "### Label" section per field
+ */
+export function formatFormAnswers(form: DiscussionForm, answers: DiscussionFormAnswer[]): string {
+  const sections: string[] = [];
+
+  form.body.forEach((element, index) => {
+    const answer = answers[index];
+    let value: string;
+
+    switch (element.type) {
+      case 'markdown':
+        return;
+      case 'input':
+      case 'textarea': {
+        const text = typeof answer === 'string' ? answer.trim() : '';
+        value = !text ? NO_RESPONSE
+          : element.type === 'textarea' && element.render ? `\`\`\`${element.render}\n${text}\n\`\`\``
+            : text;
+        break;
+      }
+      case 'dropdown': {
+        const selected = Array.isArray(answer) ? answer : [];
+        value = selected.length > 0 ? selected.join(', ') : NO_RESPONSE;
+        break;
+      }
+      case 'checkboxes': {
+        const checked = Array.isArray(answer) ? answer : [];
+        value = element.options
+          .map(option => `- [${checked.includes(option.label) ? 'X' : ' '}] ${option.label}`)
+          .join('\n');
+        break;
+      }
+    }
+
+    sections.push(`### ${element.label}\n\n${value}`);
+  });
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Title of a new discussion, starting with the form's title prefix
+ */
+export function applyTitlePrefix(form: DiscussionForm, title: string): string {
+  const trimmed = title.trim();
+  const prefix = form.title;
+  if (!prefix || trimmed.startsWith(prefix.trim())) {
+    return trimmed;
+  }
+  return `${prefix}${trimmed}`;
+}
@@ -0,0 +1,203 @@
+/**
+ * YAML front matter utility functions
+ * Requirements: 32.1, 32.5 - Discussion metadata as front matter
+ *
+ * The front matter is a YAML mapping of the fields below, read with every
+ * scalar as a string; labels are a sequence (flow or block) or a single name.
+ */
+
+import { parseYaml, YamlValue } from './yamlUtils';
+
+/**
+ * Discussion metadata editable through front matter
+ */
+export interface DiscussionFrontMatter {
+  title: string;
+  category: string;
+  labels: string[];
+  /** "closed" closes the discussion as resolved */
+  state: 'open' | 'closed';
+  locked: boolean;
+}
+
+export type FrontMatterField = keyof DiscussionFrontMatter;
+
+/**
+ * Problem found in the front matter, on a 0-based line of the document
+ */
+export interface FrontMatterError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of splitting a document into front matter and body
+ */
+export interface ParsedFrontMatter {
+  /** Fields found in the front matter (undefined when the document has no front matter) */
+  frontMatter?: Partial<DiscussionFrontMatter>;
+  /** 0-based line of each field, for reporting errors found later */
+  lines: Partial<Record<FrontMatterField, number>>;
+  body: string;
+  errors: FrontMatterError[];
+}
+
+const FRONT_MATTER_DELIMITER = '---';
+const FRONT_MATTER_FIELDS: readonly FrontMatterField[] = ['title', 'category', 'labels', 'state', 'locked'];
+
+/**
+ * Whether a plain scalar would be read back differently, so it has to be quoted
+ */
+function needsQuotes(value: string, inFlowSequence: boolean): boolean {
+  return value === '' ||
+    value !== value.trim() ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /:(\s|$)|\s#/.test(value) ||
+    /^(true|false|yes|no|on|off|null|~)$/i.test(value) ||
+    /^[+-]?(\d|\.\d)/.test(value) ||
+    (inFlowSequence && /[,[\]{}]/.test(value));
+}
+
+function formatScalar(value: string, inFlowSequence = false): string {
+  // Double-quoted YAML scalars accept JSON string escapes
+  return needsQuotes(value, inFlowSequence) ? JSON.stringify(value) : value;
+}
+
+/**
+ * Render front matter followed by the body
+ */
+export function formatFrontMatter(frontMatter: DiscussionFrontMatter, body: string): string {
+  const labels = frontMatter.labels.map(label => formatScalar(label, true)).join(', ');
+  return [
+    FRONT_MATTER_DELIMITER,
+    `title: ${formatScalar(frontMatter.title)}`,
+    `category: ${formatScalar(frontMatter.category)}`,
+    `labels: [${labels}]`,
+    `state: ${frontMatter.state}`,
+    `locked: ${frontMatter.locked}`,
+    FRONT_MATTER_DELIMITER,
+    '',
+    body
+  ].join('\n');
+}
+
+/**
+ * Text of a field written as a scalar
+ */
+function asText(field: FrontMatterField, value: YamlValue): string {
+  if (typeof value !== 'string') {
+    throw new Error(`"${field}" must be a single value`);
+  }
+  return value.trim();
+}
+
+function parseLabelItem(value: YamlValue): string {
+  const label = typeof value === 'string' ? value.trim() : '';
+  if (!label) {
+    throw new Error('Label names cannot be empty');
+  }
+  return label;
+}
+
+/**
+ * Split a document into front matter and body
+ * Documents that do not start with "---" have no front matter
+ */
+export function parseFrontMatter(text: string): ParsedFrontMatter {
+  const lines = text.split(/\r?\n/);
+
+  if (lines[0]?.trim() !== FRONT_MATTER_DELIMITER) {
+    return { lines: {}, body: text, errors: [] };
+  }
+
+  const end = lines.findIndex((line, index) => index > 0 && line.trim() === FRONT_MATTER_DELIMITER);
+  if (end < 0) {
+    return {
+      lines: {},
+      body: text,
+      errors: [{ line: 0, message: `Front matter is not closed with "${FRONT_MATTER_DELIMITER}"` }]
+    };
+  }
+
+  // Lines of the front matter are numbered from 1, after the opening delimiter
+  const parsed = parseYaml(lines.slice(1, end).join('\n'), { schema: 'failsafe' });
+  const lineOf = (path: string) => (parsed.lines[path] ?? 0) + 1;
+  const errors: FrontMatterError[] = parsed.errors.map(error => ({ line: error.line + 1, message: error.message }));
+
+  const frontMatter: Partial<DiscussionFrontMatter> = {};
+  const fieldLines: Partial<Record<FrontMatterField, number>> = {};
+  const root = parsed.value ?? {};
+  if (typeof root !== 'object' || Array.isArray(root)) {
+    errors.push({ line: lineOf(''), message: 'Expected "field: value" lines' });
+  } else {
+    for (const [key, value] of Object.entries(root)) {
+      const line = lineOf(key);
+      // A line with a syntax error is reported once
+      if (errors.some(error => error.line === line)) {
+        continue;
+      }
+      if (!FRONT_MATTER_FIELDS.includes(key as FrontMatterField)) {
+        errors.push({ line, message: `Unknown field "${key}" (expected one of ${FRONT_MATTER_FIELDS.join(', ')})` });
+        continue;
+      }
+      const field = key as FrontMatterField;
+      fieldLines[field] = line;
+
+      try {
+        switch (field) {
+          case 'title':
+          case 'category': {
+            const text = asText(field, value);
+            if (!text) {
+              throw new Error(`"${field}" cannot be empty`);
+            }
+            frontMatter[field] = text;
+            break;
+          }
+          case 'labels': {
+            if (!Array.isArray(value)) {
+              frontMatter.labels = asText(field, value) ? [parseLabelItem(value)] : [];
+              break;
+            }
+            const labels: string[] = [];
+            value.forEach((item, index) => {
+              try {
+                labels.push(parseLabelItem(item));
+              } catch (error) {
+                errors.push({ line: lineOf(`labels.${index}`), message: (error as Error).message });
+              }
+            });
+            frontMatter.labels = labels;
+            break;
+          }
+          case 'state': {
+            const text = asText(field, value);
+            if (text.toLowerCase() !== 'open' && text.toLowerCase() !== 'closed') {
+              throw new Error(`"state" must be "open" or "closed", got "${text}"`);
+            }
+            frontMatter.state = text.toLowerCase() as 'open' | 'closed';
+            break;
+          }
+          case 'locked': {
+            const text = asText(field, value);
+            if (text.toLowerCase() !== 'true' && text.toLowerCase() !== 'false') {
+              throw new Error(`"locked" must be true or false, got "${text}"`);
+            }
+            frontMatter.locked = text.toLowerCase() === 'true';
+            break;
+          }
+        }
+      } catch (error) {
+        errors.push({ line, message: (error as Error).message });
+      }
+    }
+  }
+  errors.sort((a, b) => a.line - b.line);
+
+  return {
+    frontMatter,
+    lines: fieldLines,
+    body: lines.slice(end + 1).join('\n'),
+    errors
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Line-based three-way merge utility functions
+ * Requirements: 29.2 - Automatic merge of non-overlapping edits
+ */
+
+/**
+ * A change relative to the base: base lines [baseStart, baseEnd) are replaced by lines
+ */
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface ThreeWayMergeResult {
+  /** Merged text (contains conflict markers when hasConflicts is true) */
+  merged: string;
+  hasConflicts: boolean;
+}
+
+/**
+ * Compute the hunks that turn base into other, using the longest common subsequence of lines
+ */
+function diffLines(base: string[], other: string[]): Hunk[] {
+  // Skip the common prefix and suffix to keep the LCS table small
+  let prefix = 0;
+  while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < other.length - prefix &&
+    base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = base.slice(prefix, base.length - suffix);
+  const b = other.slice(prefix, other.length - suffix);
+  const width = b.length + 1;
+
+  // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = undefined;
+      i++;
+      j++;
+      continue;
+    }
+
+    if (!current) {
+      current = { baseStart: prefix + i, baseEnd: prefix + i, lines: [] };
+      hunks.push(current);
+    }
+
+    if (j >= b.length || (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      // Line removed from base
+      i++;
+      current.baseEnd = prefix + i;
+    } else {
+      // Line added in other
+      current.lines.push(b[j]);
+      j++;
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Apply the hunks of one side to the base range [start, end)
+ */
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const result: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(position, hunk.baseStart), ...hunk.lines);
+    position = hunk.baseEnd;
+  }
+  result.push(...base.slice(position, end));
+  return result;
+}
+
+function isSameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Merge local and remote edits of the same base text line by line
+ * Changes touching the same (or adjacent) base lines on both sides are reported as conflicts,
+ * unless both sides made the identical change
+ */
+export function mergeThreeWay(base: string, local: string, remote: string): ThreeWayMergeResult {
+  const baseLines = base.split('\n');
+  const localHunks = diffLines(baseLines, local.split('\n')).map(hunk => ({ hunk, side: 'local' as const }));
+  const remoteHunks = diffLines(baseLines, remote.split('\n')).map(hunk => ({ hunk, side: 'remote' as const }));
+  const changes = [...localHunks, ...remoteHunks].sort((x, y) =>
+    x.hunk.baseStart - y.hunk.baseStart || x.hunk.baseEnd - y.hunk.baseEnd
+  );
+
+  const merged: string[] = [];
+  let hasConflicts = false;
+  let position = 0;
+  let index = 0;
+
+  while (index < changes.length) {
+    // Group changes whose base ranges overlap or touch
+    const groupStart = changes[index].hunk.baseStart;
+    let groupEnd = changes[index].hunk.baseEnd;
+    const group = [changes[index]];
+    index++;
+    while (index < changes.length && changes[index].hunk.baseStart <= groupEnd) {
+      groupEnd = Math.max(groupEnd, changes[index].hunk.baseEnd);
+      group.push(changes[index]);
+      index++;
+    }
+
+    merged.push(...baseLines.slice(position, groupStart));
+
+    const localGroup = group.filter(change => change.side === 'local').map(change => change.hunk);
+    const remoteGroup = group.filter(change => change.side === 'remote').map(change => change.hunk);
+    const localLines = applyHunks(baseLines, groupStart, groupEnd, localGroup);
+    const remoteLines = applyHunks(baseLines, groupStart, groupEnd, remoteGroup);
+
+    if (remoteGroup.length === 0 || isSameLines(localLines, remoteLines)) {
+      merged.push(...localLines);
+    } else if (localGroup.length === 0) {
+      merged.push(...remoteLines);
+    } else {
+      hasConflicts = true;
+      merged.push('<<<<<<< Local', ...localLines, '=======', ...remoteLines, '>>>>>>> GitHub');
+    }
+
+    position = groupEnd;
+  }
+
+  merged.push(...baseLines.slice(position));
+
+  return { merged: merged.join('\n'), hasConflicts };
+}
@@ -0,0 +1,205 @@
+/**
+ * Discussion metadata (_metadata.json) utility functions
+ * Requirements: 33.2, 33.3 - Writable metadata
+ */
+
+import { DiscussionMetadata } from '../models';
+
+/**
+ * Fields of _metadata.json that can be changed by editing the file
+ */
+export const MUTABLE_METADATA_FIELDS: readonly (keyof DiscussionMetadata)[] = ['title', 'category', 'labels', 'pinned', 'locked'];
+
+/**
+ * Changes requested by an edited _metadata.json
+ */
+export interface MetadataEdits {
+  title?: string;
+  /** Set when category.id was changed */
+  categoryId?: string;
+  /** Set when only category.name was changed */
+  categoryName?: string;
+  labels?: string[];
+  pinned?: boolean;
+  locked?: boolean;
+}
+
+/**
+ * Problem in an edited _metadata.json
+ * field is the top-level property it belongs to; line is set for JSON syntax errors
+ */
+export interface MetadataError {
+  field?: string;
+  line?: number;
+  message: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Structural equality of JSON values, ignoring property order
+ */
+function isSameJson(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameJson(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && isSameJson(a[key], b[key]));
+  }
+  return a === b;
+}
+
+/**
+ * Parse the edited file, locating syntax errors by line
+ */
+export function parseMetadataJson(text: string): { value?: unknown; error?: MetadataError } {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // V8 reports "line L column C" in newer versions and "position P" in older ones
+    const lineColumn = message.match(/line (\d+) column/);
+    const position = message.match(/position (\d+)/);
+    const line = lineColumn ? Number(lineColumn[1]) - 1
+      : position ? text.slice(0, Number(position[1])).split('\n').length - 1
+        : 0;
+    return { error: { line, message: `Invalid JSON: ${message}` } };
+  }
+}
+
+/**
+ * 0-based line of each top-level property name in a JSON object
+ */
+export function findPropertyLines(text: string): Record<string, number> {
+  const lines: Record<string, number> = {};
+  let depth = 0;
+  let line = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n') {
+      line++;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"' && text[end] !== '\n') {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      let next = end + 1;
+      while (next < text.length && /[ \t\r]/.test(text[next])) {
+        next++;
+      }
+      if (depth === 1 && text[next] === ':') {
+        try {
+          const key = JSON.parse(text.slice(i, end + 1)) as string;
+          if (!Object.prototype.hasOwnProperty.call(lines, key)) {
+            lines[key] = line;
+          }
+        } catch {
+          // Not a valid property name, reported by JSON.parse instead
+        }
+      }
+      i = end;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Compare an edited _metadata.json with the current metadata
+ * Mutable fields become edits; changes to any other field are errors
+ */
+export function diffMetadata(current: DiscussionMetadata, edited: unknown): { edits: MetadataEdits; errors: MetadataError[] } {
+  const edits: MetadataEdits = {};
+  const errors: MetadataError[] = [];
+
+  if (!isPlainObject(edited)) {
+    return { edits, errors: [{ line: 0, message: '_metadata.json must contain a JSON object' }] };
+  }
+
+  const currentFields = current as unknown as Record<string, unknown>;
+  // A mutable field missing from the current metadata, like pinned when it could not be loaded, is left unchanged
+  for (const field of Object.keys(edited)) {
+    if (!Object.prototype.hasOwnProperty.call(currentFields, field) && !MUTABLE_METADATA_FIELDS.includes(field as keyof DiscussionMetadata)) {
+      errors.push({ field, message: `Unknown field "${field}"` });
+    }
+  }
+
+  for (const field of Object.keys(currentFields)) {
+    const value = edited[field];
+    const mutable = MUTABLE_METADATA_FIELDS.includes(field as keyof DiscussionMetadata);
+
+    // Omitted mutable fields are left unchanged
+    if (value === undefined && mutable) {
+      continue;
+    }
+    if (!mutable) {
+      if (!isSameJson(value, currentFields[field])) {
+        errors.push({ field, message: `"${field}" is read-only and cannot be changed` });
+      }
+      continue;
+    }
+
+    switch (field) {
+      case 'title':
+        if (typeof value !== 'string' || !value.trim()) {
+          errors.push({ field, message: '"title" must be a non-empty string' });
+        } else if (value.trim() !== current.title) {
+          edits.title = value.trim();
+        }
+        break;
+      case 'category': {
+        if (!isPlainObject(value)) {
+          errors.push({ field, message: '"category" must be an object' });
+          break;
+        }
+        if (value.id !== current.category.id) {
+          if (typeof value.id !== 'string' || !value.id) {
+            errors.push({ field, message: '"category.id" must be a non-empty string' });
+          } else {
+            edits.categoryId = value.id;
+          }
+        } else if (value.name !== current.category.name) {
+          if (typeof value.name !== 'string' || !value.name.trim()) {
+            errors.push({ field, message: '"category.name" must be a non-empty string' });
+          } else {
+            edits.categoryName = value.name.trim();
+          }
+        } else if (!isSameJson(value, current.category)) {
+          errors.push({ field, message: 'Only "category.id" or "category.name" can be changed' });
+        }
+        break;
+      }
+      case 'labels': {
+        if (!Array.isArray(value) || value.some(label => typeof label !== 'string' || !label.trim())) {
+          errors.push({ field, message: '"labels" must be an array of label names' });
+          break;
+        }
+        // GitHub label names are case-insensitive
+        const normalize = (labels: string[]) => [...new Set(labels.map(label => label.trim().toLowerCase()))].sort();
+        if (!isSameJson(normalize(value as string[]), normalize(current.labels))) {
+          edits.labels = (value as string[]).map(label => label.trim());
+        }
+        break;
+      }
+      case 'pinned':
+      case 'locked':
+        if (typeof value !== 'boolean') {
+          errors.push({ field, message: `"${field}" must be true or false` });
+        } else if (value !== current[field]) {
+          edits[field] = value;
+        }
+        break;
+    }
+  }
+
+  return { edits, errors };
+}
@@ -0,0 +1,52 @@
+/**
+ * Search result utility functions
+ * Requirements: 36.3 - Highlighted matching snippets
+ */
+
+import { SearchTextMatch } from '../models';
+
+/**
+ * Single-line snippet with highlight ranges, as used by TreeItemLabel
+ */
+export interface SearchSnippet {
+  text: string;
+  /** [start, end) ranges in text */
+  highlights: [number, number][];
+}
+
+/**
+ * Collapse the whitespace of a search fragment into single spaces, keeping highlights aligned
+ * Tree items show one line, while GitHub fragments often span several lines
+ */
+export function toSearchSnippet(match: SearchTextMatch): SearchSnippet {
+  const { fragment } = match;
+  // New index of each fragment position (plus the end position)
+  const positions: number[] = [];
+  let text = '';
+
+  // split('') walks UTF-16 code units, matching the highlight indices
+  for (const char of fragment.split('')) {
+    positions.push(text.length);
+    if (/\s/.test(char)) {
+      if (text.length > 0 && !text.endsWith(' ')) {
+        text += ' ';
+      }
+    } else {
+      text += char;
+    }
+  }
+  positions.push(text.length);
+
+  if (text.endsWith(' ')) {
+    text = text.slice(0, -1);
+  }
+
+  const highlights = match.highlights
+    .map(({ start, end }): [number, number] => [
+      Math.min(positions[Math.max(0, Math.min(start, fragment.length))], text.length),
+      Math.min(positions[Math.max(0, Math.min(end, fragment.length))], text.length)
+    ])
+    .filter(([start, end]) => start < end);
+
+  return { text, highlights };
+}
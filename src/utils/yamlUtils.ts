@@ -0,0 +1,98 @@
+/**
+ * YAML utility functions
+ * Requirements: 32.1 - Front matter, 39.1 - Discussion category form templates
+ *
+ * Documents are parsed with the yaml package; this module adds the 0-based
+ * positions of keys, items and errors used to report problems in the editor.
+ */
+
+import { isMap, isNode, isScalar, isSeq, LineCounter, parseDocument } from 'yaml';
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+/**
+ * Problem found while parsing, at a 0-based line and column of the document
+ */
+export interface YamlError {
+  line: number;
+  column: number;
+  message: string;
+}
+
+/**
+ * Result of parsing a YAML document
+ */
+export interface ParsedYaml {
+  /** Value of the document, as far as it could be read when there are errors */
+  value?: YamlValue;
+  /**
+   * 0-based line of each mapping key and sequence item, keyed by its path
+   * ("body.0.attributes.label"); the root is ""
+   */
+  lines: Record<string, number>;
+  errors: YamlError[];
+}
+
+export interface ParseYamlOptions {
+  /** "failsafe" reads every scalar as a string, as written */
+  schema?: 'core' | 'failsafe';
+}
+
+/**
+ * Record the line of every key and item below node
+ */
+function collectLines(node: unknown, path: string, lineOf: (offset: number) => number, lines: Record<string, number>): void {
+  const childPath = (key: unknown) => path ? `${path}.${String(key)}` : String(key);
+
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      const key = isScalar(pair.key) ? pair.key.value : pair.key;
+      if (isNode(pair.key) && pair.key.range) {
+        lines[childPath(key)] = lineOf(pair.key.range[0]);
+      }
+      collectLines(pair.value, childPath(key), lineOf, lines);
+    }
+  } else if (isSeq(node)) {
+    node.items.forEach((item, index) => {
+      if (isNode(item) && item.range) {
+        lines[childPath(index)] = lineOf(item.range[0]);
+      }
+      collectLines(item, childPath(index), lineOf, lines);
+    });
+  }
+}
+
+/**
+ * Parse a YAML document
+ * Syntax errors are returned with their position, one per line; duplicate keys are errors
+ */
+export function parseYaml(text: string, options: ParseYamlOptions = {}): ParsedYaml {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, {
+    lineCounter,
+    prettyErrors: false,
+    uniqueKeys: true,
+    schema: options.schema ?? 'core',
+    // Problems are returned as errors instead of being logged
+    logLevel: 'silent'
+  });
+  const positionOf = (offset: number) => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line: line - 1, column: col - 1 };
+  };
+  const lineOf = (offset: number) => positionOf(offset).line;
+
+  // One problem often raises several errors on its line; the first one describes it
+  const errors: YamlError[] = document.errors
+    .map(error => ({ ...positionOf(error.pos[0]), message: error.message }))
+    .filter((error, index, all) => all.findIndex(other => other.line === error.line) === index);
+  const lines: Record<string, number> = { '': document.contents?.range ? lineOf(document.contents.range[0]) : 0 };
+  collectLines(document.contents, '', lineOf, lines);
+
+  try {
+    return { value: (document.toJS() ?? null) as YamlValue, lines, errors };
+  } catch (error) {
+    // An alias without its anchor only fails when the value is built
+    return { lines, errors: [...errors, { line: 0, column: 0, message: (error as Error).message }] };
+  }
+}